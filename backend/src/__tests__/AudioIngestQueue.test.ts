@@ -0,0 +1,130 @@
+import { config } from '../config';
+import { AudioIngestQueue } from '../services/AudioIngestQueue';
+import { AudioChunk, BackpressureState } from '../types';
+
+type IngestOptions = typeof config.audioIngest;
+
+const options: IngestOptions = {
+  maxQueueDepth: 4,
+  overflowPolicy: 'drop_oldest',
+  maxCoalescedBytes: 1024,
+  highWatermark: 0.75,
+  lowWatermark: 0.25,
+};
+
+function chunk(id: number, speakerId: string = 'a'): AudioChunk {
+  return { data: Buffer.from([id]), timestamp: id, speakerId };
+}
+
+/**
+ * 処理を待たせるキュー (release で1つずつ完了する)
+ */
+function createQueue(overrides: Partial<IngestOptions> = {}) {
+  const processed: AudioChunk[] = [];
+  const waiting: Array<() => void> = [];
+  const queue = new AudioIngestQueue(
+    (item) =>
+      new Promise<void>((resolve) => {
+        processed.push(item);
+        waiting.push(resolve);
+      }),
+    { ...options, ...overrides }
+  );
+
+  const release = async () => {
+    waiting.shift()?.();
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  return { queue, processed, release };
+}
+
+describe('AudioIngestQueue', () => {
+  it('processes chunks one at a time in order', async () => {
+    const { queue, processed, release } = createQueue();
+
+    queue.push(chunk(1));
+    queue.push(chunk(2));
+    queue.push(chunk(3));
+    expect(processed.map((item) => item.timestamp)).toEqual([1]);
+
+    await release();
+    await release();
+    await release();
+    expect(processed.map((item) => item.timestamp)).toEqual([1, 2, 3]);
+    expect(queue.getDepth()).toBe(0);
+  });
+
+  it('drops the oldest chunk when full', async () => {
+    const { queue, processed, release } = createQueue();
+
+    for (let i = 1; i <= 6; i++) {
+      expect(queue.push(chunk(i))).toBe(true);
+    }
+
+    // 1 は処理中、2 は破棄される
+    expect(queue.getDroppedCount()).toBe(1);
+    for (let i = 0; i < 5; i++) {
+      await release();
+    }
+    expect(processed.map((item) => item.timestamp)).toEqual([1, 3, 4, 5, 6]);
+  });
+
+  it('rejects new chunks with drop_newest', () => {
+    const { queue } = createQueue({ overflowPolicy: 'drop_newest' });
+
+    for (let i = 1; i <= 5; i++) {
+      queue.push(chunk(i));
+    }
+
+    expect(queue.push(chunk(6))).toBe(false);
+    expect(queue.getState()).toMatchObject({ queueDepth: 4, dropped: 1 });
+  });
+
+  it('coalesces chunks of the same speaker', async () => {
+    const { queue, processed, release } = createQueue({
+      overflowPolicy: 'coalesce',
+    });
+
+    for (let i = 1; i <= 6; i++) {
+      queue.push(chunk(i));
+    }
+
+    expect(queue.getState()).toMatchObject({ dropped: 0, coalesced: 1 });
+    for (let i = 0; i < 5; i++) {
+      await release();
+    }
+    expect(processed[processed.length - 1].data).toEqual(Buffer.from([5, 6]));
+  });
+
+  it('signals backpressure at the high watermark and recovery at the low watermark', async () => {
+    const { queue, release } = createQueue();
+    const states: BackpressureState[] = [];
+    queue.on('backpressure', (state) => states.push(state));
+
+    for (let i = 1; i <= 4; i++) {
+      queue.push(chunk(i));
+    }
+    expect(states.map((state) => state.active)).toEqual([true]);
+
+    await release();
+    await release();
+    expect(states.map((state) => state.active)).toEqual([true, false]);
+  });
+
+  it('keeps processing after a failed chunk', async () => {
+    const processed: number[] = [];
+    const queue = new AudioIngestQueue(async (item) => {
+      processed.push(item.timestamp);
+      if (item.timestamp === 1) {
+        throw new Error('failed');
+      }
+    }, options);
+
+    queue.push(chunk(1));
+    queue.push(chunk(2));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(processed).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,214 @@
+import { AudioPipeline } from '../services/AudioPipeline';
+import { MockSTT } from '../services/mock/MockSTT';
+import { MockTranslation } from '../services/mock/MockTranslation';
+import { MockTTS } from '../services/mock/MockTTS';
+import {
+  LatencyMetrics,
+  STTResult,
+  STTStatus,
+  TranslationResult,
+  TTSResult,
+  UtteranceBoundary,
+} from '../types';
+import { noise, silence, waitFor } from './helpers';
+
+describe('AudioPipeline (mock providers)', () => {
+  let stt: MockSTT;
+  let pipeline: AudioPipeline;
+
+  beforeEach(async () => {
+    stt = new MockSTT();
+    pipeline = new AudioPipeline(
+      {
+        meetingUrl: 'https://meet.google.com/abc-defg-hij',
+        targetLanguages: ['fr'],
+        enableVoice: true,
+        enableSubtitles: true,
+      },
+      { stt, translation: new MockTranslation(), tts: new MockTTS() }
+    );
+    await pipeline.start();
+  });
+
+  afterEach(async () => {
+    await pipeline.stop();
+  });
+
+  it('translates and synthesizes a final result', async () => {
+    const finals: STTResult[] = [];
+    const translations: TranslationResult[][] = [];
+    const ttsResults: TTSResult[][] = [];
+    pipeline.on('stt_final', (result) => finals.push(result));
+    pipeline.on('translations', (results) => translations.push(results));
+    pipeline.on('tts_results', (results) => ttsResults.push(results));
+
+    stt.enqueueResults([{ text: 'こんにちは', language: 'ja' }]);
+    await pipeline.processAudioChunk({
+      data: noise(200),
+      timestamp: Date.now(),
+    });
+
+    await waitFor(() => ttsResults.length > 0);
+    expect(finals.map((result) => result.text)).toEqual(['こんにちは']);
+    expect(translations[0].map((result) => result.targetLang)).toEqual(['fr']);
+    expect(ttsResults[0][0].language).toBe('fr');
+    expect(ttsResults[0][0].audioData.length).toBeGreaterThan(0);
+  });
+
+  it('measures STT latency from the end of the utterance', async () => {
+    const latencies: LatencyMetrics[] = [];
+    pipeline.on('latency', (metrics) => latencies.push(metrics));
+
+    stt.enqueueResults([
+      { text: '長い', isFinal: false },
+      { text: '長い発話' },
+    ]);
+    await pipeline.processAudioChunk({
+      data: noise(200),
+      timestamp: Date.now(),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    await pipeline.processAudioChunk({
+      data: noise(200),
+      timestamp: Date.now(),
+    });
+
+    await waitFor(() => latencies.length > 0);
+    expect(latencies[0].sttLatency).toBeLessThan(200);
+    expect(latencies[0].totalLatency).toBeGreaterThanOrEqual(300);
+  });
+
+  it('does not send silence to STT', async () => {
+    await pipeline.processAudioChunk({
+      data: silence(200),
+      timestamp: Date.now(),
+    });
+
+    expect(stt.getReceivedCount()).toBe(0);
+  });
+
+  it('processes enqueued chunks in order and reports utterance boundaries', async () => {
+    const boundaries: UtteranceBoundary[] = [];
+    const finals: string[] = [];
+    pipeline.on('utterance_start', (boundary) => boundaries.push(boundary));
+    pipeline.on('utterance_end', (boundary) => boundaries.push(boundary));
+    pipeline.on('stt_final', (result: STTResult) => finals.push(result.text));
+
+    stt.enqueueResults([
+      { text: '一つ目', isFinal: false },
+      { text: '一つ目の', isFinal: false },
+      { text: '一つ目の発話' },
+    ]);
+    expect(pipeline.enqueueAudioChunk({ data: noise(200), timestamp: 1 })).toBe(
+      true
+    );
+    pipeline.enqueueAudioChunk({ data: noise(200), timestamp: 2 });
+    pipeline.enqueueAudioChunk({ data: silence(1000), timestamp: 3 });
+
+    await waitFor(() => boundaries.length === 2);
+    expect(boundaries.map((boundary) => boundary.boundary)).toEqual([
+      'start',
+      'end',
+    ]);
+    expect(finals).toEqual(['一つ目の発話']);
+  });
+});
+
+describe('AudioPipeline STT connection', () => {
+  const meeting = {
+    meetingUrl: 'https://meet.google.com/abc-defg-hij',
+    targetLanguages: ['fr' as const],
+    enableVoice: false,
+    enableSubtitles: true,
+  };
+
+  it('drops audio while STT is disconnected and reports the change once', async () => {
+    const stt = new MockSTT();
+    const pipeline = new AudioPipeline(meeting, { stt });
+    const errors: Error[] = [];
+    const statuses: STTStatus[] = [];
+    pipeline.on('error', (error) => errors.push(error));
+    pipeline.on('stt_status', (status) => statuses.push(status));
+    await pipeline.start();
+
+    stt.disconnect();
+    for (let i = 0; i < 5; i++) {
+      await pipeline.processAudioChunk({ data: noise(100), timestamp: i });
+    }
+    expect(stt.getReceivedCount()).toBe(0);
+    expect(errors).toHaveLength(0);
+    expect(statuses.map((status) => status.available)).toEqual([false]);
+
+    await stt.connect();
+    await pipeline.processAudioChunk({ data: noise(100), timestamp: 5 });
+    expect(stt.getReceivedCount()).toBe(1);
+    expect(statuses.map((status) => status.available)).toEqual([false, true]);
+
+    await pipeline.stop();
+  });
+
+  it('disconnects the replaced STT and connects the new one', async () => {
+    const previous = new MockSTT();
+    const next = new MockSTT();
+    const pipeline = new AudioPipeline(meeting, { stt: previous });
+    await pipeline.start();
+
+    pipeline.setServices({ stt: next });
+    expect(previous.isActive()).toBe(false);
+    await waitFor(() => next.isActive());
+
+    await pipeline.processAudioChunk({ data: noise(100), timestamp: 1 });
+    expect(next.getReceivedCount()).toBe(1);
+    expect(previous.getReceivedCount()).toBe(0);
+
+    await pipeline.stop();
+    expect(next.isActive()).toBe(false);
+  });
+});
+
+describe('AudioPipeline.stop', () => {
+  it('ignores errors emitted by an STT provider after it was closed', async () => {
+    // 接続中に閉じたWebSocketのように、切断後に 'error' を通知するSTT
+    class ClosingSTT extends MockSTT {
+      disconnect(): void {
+        super.disconnect();
+        setImmediate(() =>
+          this.emit('error', new Error('closed before the connection'))
+        );
+      }
+    }
+    const stt = new ClosingSTT();
+    const errors: Error[] = [];
+    const pipeline = new AudioPipeline(
+      {
+        meetingUrl: 'https://meet.google.com/abc-defg-hij',
+        targetLanguages: ['fr'],
+        enableVoice: false,
+        enableSubtitles: true,
+      },
+      { stt }
+    );
+    pipeline.on('error', (error) => errors.push(error));
+
+    await pipeline.start();
+    await pipeline.stop();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(errors).toHaveLength(0);
+  });
+});
+
+describe('MockSTT', () => {
+  it('keeps only the most recent chunks', async () => {
+    const stt = new MockSTT();
+    await stt.connect();
+
+    for (let i = 0; i < 150; i++) {
+      await stt.sendAudioChunk({ data: Buffer.alloc(0), timestamp: i });
+    }
+
+    expect(stt.getReceivedCount()).toBe(150);
+    expect(stt.getReceivedChunks()).toHaveLength(100);
+    expect(stt.getReceivedChunks()[0].timestamp).toBe(50);
+  });
+});
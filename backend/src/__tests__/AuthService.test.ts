@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import { config } from '../config';
+import { AuthService } from '../services/AuthService';
+
+const secret = 'test-secret';
+
+/**
+ * HS256 のJWTを作成
+ */
+function createJwt(claims: Record<string, unknown>): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const header = encode({ alg: 'HS256', typ: 'JWT' });
+  const payload = encode({
+    exp: Math.floor(Date.now() / 1000) + 60,
+    ...claims,
+  });
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${header}.${payload}`)
+    .digest('base64url');
+
+  return `${header}.${payload}.${signature}`;
+}
+
+describe('AuthService', () => {
+  const auth = new AuthService({
+    ...config.auth,
+    enabled: true,
+    jwtSecret: secret,
+    jwtIssuer: '',
+    jwtAudience: '',
+    apiKeys: [
+      { userId: 'alice', role: 'host', key: 'alice-key', tenantId: 'team-a' },
+    ],
+  });
+
+  it('authenticates API keys', () => {
+    expect(auth.authenticate('alice-key')).toMatchObject({
+      id: 'alice',
+      role: 'host',
+      tenantId: 'team-a',
+      method: 'api_key',
+    });
+  });
+
+  it('authenticates JWTs', () => {
+    expect(
+      auth.authenticate(createJwt({ sub: 'bob', role: 'viewer', tenant: 'b' }))
+    ).toMatchObject({ id: 'bob', role: 'viewer', tenantId: 'b' });
+  });
+
+  it.each(['toString', 'constructor', '__proto__', 'owner'])(
+    'rejects the role %s',
+    (role) => {
+      expect(() =>
+        auth.authenticate(createJwt({ sub: 'mallory', role }))
+      ).toThrow('Invalid token role');
+    }
+  );
+});
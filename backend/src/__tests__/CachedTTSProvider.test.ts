@@ -0,0 +1,68 @@
+import { CachedTTSProvider } from '../services/CachedTTSProvider';
+import { ElevenLabsTTS } from '../services/ElevenLabsTTS';
+import { ProviderCache } from '../services/ProviderCache';
+import { SupportedLanguage, TTSOptions } from '../types';
+
+function createCache(): ProviderCache<Buffer> {
+  return new ProviderCache(
+    'tts',
+    { maxEntries: 10, ttlMs: 60000 },
+    {
+      encode: (value) => value,
+      decode: (data) => data,
+      size: (value) => value.length,
+    }
+  );
+}
+
+describe('CachedTTSProvider', () => {
+  let tts: ElevenLabsTTS;
+  let synthesize: jest.SpyInstance;
+  let cached: CachedTTSProvider;
+
+  beforeEach(() => {
+    tts = new ElevenLabsTTS();
+    synthesize = jest
+      .spyOn(tts, 'synthesize')
+      .mockImplementation(
+        async (
+          text: string,
+          language: SupportedLanguage,
+          options?: TTSOptions
+        ) => ({
+          audioData: Buffer.from(`${text}:${synthesize.mock.calls.length}`),
+          language,
+          timestamp: Date.now(),
+          voiceId: options?.voiceId,
+        })
+      );
+    cached = new CachedTTSProvider(tts, createCache());
+  });
+
+  it('does not synthesize the same text twice', async () => {
+    const first = await cached.synthesize('Bonjour', 'fr');
+    const second = await cached.synthesize(' Bonjour ', 'fr');
+
+    expect(synthesize).toHaveBeenCalledTimes(1);
+    expect(second.audioData).toEqual(first.audioData);
+  });
+
+  it('synthesizes again after the default voice or voice settings change', async () => {
+    await cached.synthesize('Bonjour', 'fr');
+    tts.setVoiceSettings('fr', { stability: 0.9 });
+    await cached.synthesize('Bonjour', 'fr');
+    tts.setVoiceSettings('fr', { voiceId: 'another-voice' });
+    await cached.synthesize('Bonjour', 'fr');
+
+    expect(synthesize).toHaveBeenCalledTimes(3);
+  });
+
+  it('treats an explicit default voice like an omitted one', async () => {
+    const { voiceId } = tts.resolveVoice('fr');
+    await cached.synthesize('Bonjour', 'fr');
+    await cached.synthesize('Bonjour', 'fr', { voiceId });
+    await cached.synthesize('Bonjour', 'fr', { voiceId: 'another-voice' });
+
+    expect(synthesize).toHaveBeenCalledTimes(2);
+  });
+});
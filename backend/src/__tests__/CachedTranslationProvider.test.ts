@@ -0,0 +1,115 @@
+import { CachedTranslationProvider } from '../services/CachedTranslationProvider';
+import { GlossaryService } from '../services/GlossaryService';
+import { ProviderCache } from '../services/ProviderCache';
+import { InMemoryGlossaryRepository } from '../repositories/GlossaryRepository';
+import {
+  SupportedLanguage,
+  TranslationProvider,
+  TranslationResult,
+} from '../types';
+
+function createProvider(): TranslationProvider & { translate: jest.Mock } {
+  const provider = {
+    name: 'deepl',
+    translate: jest.fn(
+      async (
+        text: string,
+        sourceLang: SupportedLanguage,
+        targetLang: SupportedLanguage
+      ): Promise<TranslationResult> => ({
+        originalText: text,
+        translatedText: `${targetLang}:${text}#${provider.translate.mock.calls.length}`,
+        sourceLang,
+        targetLang,
+        confidence: 1,
+        timestamp: Date.now(),
+        provider: 'deepl',
+      })
+    ),
+    translateMultiple: jest.fn(),
+    healthCheck: jest.fn(async () => true),
+  };
+  return provider;
+}
+
+describe('CachedTranslationProvider', () => {
+  let provider: ReturnType<typeof createProvider>;
+  let glossaries: GlossaryService;
+  let cached: CachedTranslationProvider;
+
+  beforeEach(async () => {
+    provider = createProvider();
+    glossaries = new GlossaryService(new InMemoryGlossaryRepository());
+    await glossaries.create(
+      {
+        id: 'g1',
+        languages: ['fr', 'ja'],
+        entries: [{ terms: { fr: 'Gemini', ja: 'ジェミニ' } }],
+      },
+      'a'
+    );
+    cached = new CachedTranslationProvider(
+      provider,
+      new ProviderCache(
+        'translation',
+        { maxEntries: 10, ttlMs: 60000 },
+        {
+          encode: (value) => Buffer.from(JSON.stringify(value)),
+          decode: (data) => JSON.parse(data.toString()),
+          size: () => 1,
+        }
+      ),
+      glossaries
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reuses the translation of the same normalized text', async () => {
+    const first = await cached.translate('Bonjour à tous', 'fr', 'ja');
+    const second = await cached.translate(' Bonjour  à tous ', 'fr', 'ja');
+
+    expect(provider.translate).toHaveBeenCalledTimes(1);
+    expect(second.translatedText).toBe(first.translatedText);
+    expect(second.originalText).toBe(' Bonjour  à tous ');
+  });
+
+  it('translates again for another language or glossary', async () => {
+    await cached.translate('Bonjour', 'fr', 'ja');
+    await cached.translate('Bonjour', 'fr', 'zh-Hant-TW');
+    await cached.translate('Bonjour', 'fr', 'ja', 'g1');
+    await cached.translate('Bonjour', 'fr', 'ja', 'external-id');
+
+    expect(provider.translate).toHaveBeenCalledTimes(4);
+  });
+
+  it('translates again after the glossary is updated', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await cached.translate('Gemini arrive', 'fr', 'ja', 'g1');
+
+    clock.mockReturnValue(now + 1);
+    await glossaries.update(
+      'g1',
+      { entries: [{ terms: { fr: 'Gemini', ja: 'ジェミナイ' } }] },
+      'a'
+    );
+    await cached.translate('Gemini arrive', 'fr', 'ja', 'g1');
+    await cached.translate('Gemini arrive', 'fr', 'ja', 'g1');
+
+    expect(provider.translate).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache when the glossary cannot be loaded', async () => {
+    jest
+      .spyOn(glossaries, 'getForTranslation')
+      .mockRejectedValue(new Error('connection refused'));
+
+    await cached.translate('Bonjour', 'fr', 'ja', 'g1');
+    await cached.translate('Bonjour', 'fr', 'ja', 'g1');
+
+    expect(provider.translate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,96 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { config } from '../config';
+import { DeepLTranslation } from '../services/DeepLTranslation';
+
+describe('DeepLTranslation', () => {
+  const original = { ...config.deepl };
+  const requests: Array<{ authorization?: string; body: any }> = [];
+  let status = 200;
+  let server: http.Server;
+
+  beforeAll(async () => {
+    // テスト用の疑似 DeepL API サーバー
+    const app = express();
+    app.use(express.json());
+    app.post('/translate', (req, res) => {
+      requests.push({
+        authorization: req.headers.authorization,
+        body: req.body,
+      });
+      if (status !== 200) {
+        res.status(status).json({ message: 'Quota exceeded' });
+        return;
+      }
+      res.json({
+        translations: req.body.text.map((text: string) => ({
+          text: `[${req.body.target_lang}] ${text}`,
+        })),
+      });
+    });
+
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    config.deepl.apiUrl = `http://127.0.0.1:${port}`;
+    config.deepl.apiKey = 'test-key';
+  });
+
+  afterAll(async () => {
+    Object.assign(config.deepl, original);
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    status = 200;
+  });
+
+  it('translates with the DeepL language codes', async () => {
+    const result = await new DeepLTranslation().translate(
+      'Bonjour',
+      'fr',
+      'zh-Hant-TW'
+    );
+
+    expect(requests[0]).toEqual({
+      authorization: 'DeepL-Auth-Key test-key',
+      body: { text: ['Bonjour'], source_lang: 'FR', target_lang: 'ZH-HANT' },
+    });
+    expect(result).toMatchObject({
+      originalText: 'Bonjour',
+      translatedText: '[ZH-HANT] Bonjour',
+      sourceLang: 'fr',
+      targetLang: 'zh-Hant-TW',
+      provider: 'deepl',
+    });
+  });
+
+  it('does not send a glossary id to DeepL', async () => {
+    await new DeepLTranslation().translate('Bonjour', 'fr', 'ja', 'g1');
+
+    expect(requests[0].body).not.toHaveProperty('glossary_id');
+  });
+
+  it('translates into every language except the source', async () => {
+    const results = await new DeepLTranslation().translateMultiple(
+      'Bonjour',
+      'fr',
+      ['ja', 'fr', 'zh-Hant-TW']
+    );
+
+    expect(results.map((result) => result.translatedText)).toEqual([
+      '[JA] Bonjour',
+      '[ZH-HANT] Bonjour',
+    ]);
+  });
+
+  it('throws when the API fails', async () => {
+    status = 456;
+
+    await expect(
+      new DeepLTranslation().translate('Bonjour', 'fr', 'ja')
+    ).rejects.toThrow('status code 456');
+  });
+});
@@ -0,0 +1,110 @@
+import { EchoSuppressor } from '../services/EchoSuppressor';
+import { DetectedLanguage, STTResult } from '../types';
+
+const options = {
+  enabled: true,
+  windowMs: 30000,
+  similarity: 0.8,
+  minChars: 4,
+  maxEntries: 100,
+};
+
+function result(
+  text: string,
+  language: DetectedLanguage = 'fr',
+  speakerId?: string
+): STTResult {
+  return {
+    text,
+    language,
+    isFinal: true,
+    confidence: 1,
+    timestamp: Date.now(),
+    speakerId,
+  };
+}
+
+describe('EchoSuppressor', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('matches the TTS output regardless of case, width and punctuation', () => {
+    const echo = new EchoSuppressor(options, 'Translator');
+    echo.recordOutput('Bonjour à tous, merci.', 'fr');
+    echo.recordOutput('会議を始めます。', 'ja');
+
+    expect(echo.check(result('BONJOUR À TOUS merci !'))).toBe('tts_match');
+    expect(echo.check(result('会議を　始めます', 'ja'))).toBe('tts_match');
+    expect(echo.check(result('ＢＯＮＪＯＵＲ à tous, merci'))).toBe(
+      'tts_match'
+    );
+    expect(echo.check(result('会議を始めます', 'unknown'))).toBe('tts_match');
+  });
+
+  it('matches part of the TTS output', () => {
+    const echo = new EchoSuppressor(options, 'Translator');
+    echo.recordOutput('Bonjour à tous, nous commençons la réunion.', 'fr');
+
+    expect(echo.check(result('nous commençons'))).toBe('tts_match');
+  });
+
+  it('does not match other languages, short or different results', () => {
+    const echo = new EchoSuppressor(options, 'Translator');
+    echo.recordOutput('会議を始めます', 'ja');
+    echo.recordOutput('Oui', 'fr');
+
+    expect(echo.check(result('会議を始めます', 'zh-Hant-TW'))).toBeNull();
+    expect(echo.check(result('Oui'))).toBeNull();
+    expect(echo.check(result('Au revoir à tous'))).toBeNull();
+  });
+
+  it('forgets TTS output after the window', () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const echo = new EchoSuppressor(options, 'Translator');
+    echo.recordOutput('Bonjour à tous', 'fr');
+
+    clock.mockReturnValue(now + options.windowMs - 1);
+    expect(echo.check(result('Bonjour à tous'))).toBe('tts_match');
+    clock.mockReturnValue(now + options.windowMs + 1);
+    expect(echo.check(result('Bonjour à tous'))).toBeNull();
+  });
+
+  it('keeps only the most recent outputs', () => {
+    const echo = new EchoSuppressor(
+      { ...options, maxEntries: 2 },
+      'Translator'
+    );
+    echo.recordOutput('Bonjour à tous', 'fr');
+    echo.recordOutput('Merci beaucoup', 'fr');
+    echo.recordOutput('Au revoir', 'fr');
+
+    expect(echo.check(result('Bonjour à tous'))).toBeNull();
+    expect(echo.check(result('Merci beaucoup'))).toBe('tts_match');
+  });
+
+  it('suppresses the audio of the bot participant', () => {
+    const echo = new EchoSuppressor(options, 'Translator');
+
+    expect(echo.isBotParticipant('p1', 'Translator (fr)')).toBe(true);
+    expect(echo.isBotParticipant('p2', 'Alice')).toBe(false);
+    expect(echo.isBotParticipant('p3', 'Translator bot')).toBe(false);
+    // 名前が届かなくても記録済みの参加者はボットとみなす
+    expect(echo.check(result('Bonjour à tous', 'fr', 'p1'))).toBe(
+      'bot_participant'
+    );
+    expect(echo.check(result('Bonjour à tous', 'fr', 'p2'))).toBeNull();
+  });
+
+  it('does nothing when disabled', () => {
+    const echo = new EchoSuppressor(
+      { ...options, enabled: false },
+      'Translator'
+    );
+    echo.recordOutput('Bonjour à tous', 'fr');
+
+    expect(echo.isBotParticipant('p1', 'Translator')).toBe(false);
+    expect(echo.check(result('Bonjour à tous', 'fr', 'p1'))).toBeNull();
+  });
+});
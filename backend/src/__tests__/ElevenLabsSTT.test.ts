@@ -0,0 +1,65 @@
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { config } from '../config';
+import { ElevenLabsSTT } from '../services/ElevenLabsSTT';
+import { waitFor } from './helpers';
+
+describe('ElevenLabsSTT', () => {
+  let server: WebSocketServer;
+  let connections: number;
+  const originalUrl = config.elevenlabs.sttWsUrl;
+
+  beforeEach(async () => {
+    connections = 0;
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', () => connections++);
+    await new Promise((resolve) => server.once('listening', resolve));
+    config.elevenlabs.sttWsUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    config.elevenlabs.sttWsUrl = originalUrl;
+    server.clients.forEach((client) => client.terminate());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('cancels a scheduled reconnect on disconnect', async () => {
+    const stt = new ElevenLabsSTT();
+    await stt.connect();
+    await waitFor(() => connections === 1);
+
+    // サーバー側から切断すると再接続が予約される
+    const disconnected = new Promise((resolve) =>
+      stt.once('disconnected', resolve)
+    );
+    server.clients.forEach((client) => client.close());
+    await disconnected;
+
+    stt.disconnect();
+    // 1回目の再接続の待ち時間 (2秒) を過ぎても接続しない
+    await new Promise((resolve) => setTimeout(resolve, 2500));
+
+    expect(connections).toBe(1);
+    expect(stt.isActive()).toBe(false);
+  }, 10000);
+
+  it('does not connect after disconnect', async () => {
+    const stt = new ElevenLabsSTT();
+    stt.disconnect();
+
+    await expect(stt.connect()).rejects.toThrow('disconnected');
+    expect(connections).toBe(0);
+  });
+
+  it('does not report an error when closed while connecting', async () => {
+    const stt = new ElevenLabsSTT();
+    const errors: Error[] = [];
+    stt.on('error', (error) => errors.push(error));
+
+    const connecting = stt.connect().catch(() => undefined);
+    stt.disconnect();
+    await connecting;
+
+    expect(errors).toHaveLength(0);
+  });
+});
@@ -0,0 +1,34 @@
+import { config } from '../config';
+import { MeetingAudioOutput } from '../services/MeetingAudioOutput';
+import { FakeRecallServer } from './fakeRecall';
+
+describe('MeetingAudioOutput', () => {
+  const recall = new FakeRecallServer();
+  const originalUrl = config.recall.apiUrl;
+
+  beforeAll(async () => {
+    config.recall.apiUrl = await recall.start();
+  });
+
+  afterAll(async () => {
+    config.recall.apiUrl = originalUrl;
+    await recall.stop();
+  });
+
+  it('removes the bots that joined when another bot fails to join', async () => {
+    recall.failingBotNames.add(`${config.recall.botName} (ja)`);
+    const output = new MeetingAudioOutput(
+      'https://meet.google.com/abc-defg-hij',
+      ['fr', 'ja', 'zh-Hant-TW']
+    );
+
+    await expect(output.start()).rejects.toThrow();
+
+    const joined = recall.find('POST', '/bot').length;
+    expect(joined).toBe(3);
+    // 参加できた fr と zh-Hant-TW のボットは退出している
+    expect(recall.find('DELETE', /^\/bot\//)).toHaveLength(2);
+    expect(recall.bots.size).toBe(0);
+    expect(output.getPendingCount('fr')).toBe(0);
+  });
+});
@@ -0,0 +1,119 @@
+import { ProviderCache, normalizeCacheText } from '../services/ProviderCache';
+import {
+  CacheRepository,
+  StoredCacheEntry,
+} from '../repositories/CacheRepository';
+
+/**
+ * テスト用のキャッシュリポジトリ (Map に保存する)
+ */
+class MapCacheRepository implements CacheRepository {
+  readonly entries: Map<string, StoredCacheEntry> = new Map();
+  failure: Error | null = null;
+
+  async get(namespace: string, key: string): Promise<StoredCacheEntry | null> {
+    if (this.failure) {
+      throw this.failure;
+    }
+    const entry = this.entries.get(`${namespace}:${key}`);
+    return entry && entry.expiresAt > Date.now() ? entry : null;
+  }
+
+  async set(
+    namespace: string,
+    key: string,
+    value: Buffer,
+    expiresAt: number
+  ): Promise<void> {
+    if (this.failure) {
+      throw this.failure;
+    }
+    this.entries.set(`${namespace}:${key}`, { value, expiresAt });
+  }
+
+  async deleteExpired(): Promise<number> {
+    return 0;
+  }
+}
+
+function createCache(
+  repository: CacheRepository | null = null
+): ProviderCache<string> {
+  return new ProviderCache(
+    'translation',
+    { maxEntries: 2, ttlMs: 1000 },
+    {
+      encode: (value) => Buffer.from(value),
+      decode: (data) => data.toString(),
+      size: () => 1,
+    },
+    repository
+  );
+}
+
+describe('ProviderCache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('creates different keys for missing and reordered parts', () => {
+    const key = ProviderCache.createKey(['a', 'b', undefined]);
+
+    expect(ProviderCache.createKey(['a', 'b', undefined])).toBe(key);
+    expect(ProviderCache.createKey(['a', 'b'])).not.toBe(key);
+    expect(ProviderCache.createKey(['b', 'a', undefined])).not.toBe(key);
+    expect(ProviderCache.createKey(['a', 'b', 'undefined'])).not.toBe(key);
+  });
+
+  it('ignores width and whitespace differences in the text', () => {
+    expect(normalizeCacheText('  ＡＢＣ　 de\nf ')).toBe('ABC de f');
+  });
+
+  it('expires values after the TTL', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const cache = createCache();
+    cache.set('k', 'v');
+
+    clock.mockReturnValue(now + 999);
+    expect(await cache.get('k')).toBe('v');
+    clock.mockReturnValue(now + 1000);
+    expect(await cache.get('k')).toBeNull();
+  });
+
+  it('evicts the least recently used value', async () => {
+    const cache = createCache();
+    cache.set('a', '1');
+    cache.set('b', '2');
+    await cache.get('a');
+    cache.set('c', '3');
+
+    expect(await cache.get('a')).toBe('1');
+    expect(await cache.get('b')).toBeNull();
+  });
+
+  it('reads values from the database after they leave memory', async () => {
+    const repository = new MapCacheRepository();
+    const writer = createCache(repository);
+    writer.set('k', 'v');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const reader = createCache(repository);
+    const get = jest.spyOn(repository, 'get');
+
+    expect(await reader.get('k')).toBe('v');
+    expect(await reader.get('k')).toBe('v');
+    // 2回目はメモリから取得
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats database errors as cache misses', async () => {
+    const repository = new MapCacheRepository();
+    repository.failure = new Error('connection refused');
+    const cache = createCache(repository);
+
+    cache.set('k', 'v');
+    expect(await cache.get('k')).toBe('v');
+    expect(await cache.get('other')).toBeNull();
+  });
+});
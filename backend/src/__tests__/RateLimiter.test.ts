@@ -0,0 +1,95 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { config } from '../config';
+import { RateLimiter } from '../services/RateLimiter';
+import { limitRequests, requireRole } from '../routes/auth';
+
+describe('RateLimiter', () => {
+  it('allows a burst and refills tokens over time', () => {
+    const limiter = new RateLimiter('http', { perMinute: 60, burst: 2 });
+
+    limiter.consume('a', 0);
+    limiter.consume('a', 0);
+    expect(() => limiter.consume('a', 0)).toThrow(
+      expect.objectContaining({
+        code: 'RATE_LIMITED',
+        details: { limit: 'http', retryAfterSeconds: 1 },
+      })
+    );
+
+    // 他のキーは別のバケット
+    limiter.consume('b', 0);
+
+    // 1秒で1トークン補充される
+    limiter.consume('a', 1000);
+    expect(() => limiter.consume('a', 1000)).toThrow();
+  });
+
+  it('does not limit when perMinute is 0', () => {
+    const limiter = new RateLimiter('http', { perMinute: 0, burst: 1 });
+    for (let i = 0; i < 10; i++) {
+      limiter.consume('a', 0);
+    }
+  });
+
+  it('drops refilled buckets when there are too many keys', () => {
+    const limiter = new RateLimiter('http', { perMinute: 60, burst: 1 }, 2);
+    limiter.consume('a', 0);
+    limiter.consume('b', 0);
+
+    // a と b は満タンに戻っているため削除され、c のバケットを作成できる
+    limiter.consume('c', 5000);
+    limiter.consume('a', 5000);
+    expect(() => limiter.consume('c', 5000)).toThrow();
+  });
+});
+
+describe('limitRequests', () => {
+  let server: http.Server;
+  let url: string;
+  const original = {
+    auth: { ...config.auth },
+    http: { ...config.rateLimit.http },
+  };
+
+  beforeAll(async () => {
+    Object.assign(config.auth, {
+      enabled: true,
+      apiKeys: [
+        { userId: 'alice', role: 'host', key: 'alice-key', tenantId: 'a' },
+        { userId: 'amy', role: 'host', key: 'amy-key', tenantId: 'a' },
+        { userId: 'bob', role: 'host', key: 'bob-key', tenantId: 'b' },
+      ],
+    });
+    Object.assign(config.rateLimit.http, { perMinute: 1, burst: 2 });
+
+    const app = express();
+    app.get('/api/test', requireRole('host'), limitRequests(), (req, res) => {
+      res.json({ ok: true });
+    });
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/test`;
+  });
+
+  afterAll(async () => {
+    Object.assign(config.auth, original.auth);
+    Object.assign(config.rateLimit.http, original.http);
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const get = (key: string) => fetch(url, { headers: { 'x-api-key': key } });
+
+  it('returns 429 with Retry-After once the tenant runs out of tokens', async () => {
+    expect((await get('alice-key')).status).toBe(200);
+    expect((await get('amy-key')).status).toBe(200);
+
+    const limited = await get('alice-key');
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(await limited.json()).toMatchObject({ code: 'RATE_LIMITED' });
+
+    expect((await get('bob-key')).status).toBe(200);
+  });
+});
@@ -0,0 +1,72 @@
+import { config } from '../config';
+import { RecallAI } from '../services/RecallAI';
+import { FakeRecallServer } from './fakeRecall';
+import { waitFor } from './helpers';
+
+describe('RecallAI', () => {
+  const recall = new FakeRecallServer();
+  const originalUrl = config.recall.apiUrl;
+  const originalInterval = config.recall.statusPoll.intervalMs;
+
+  beforeAll(async () => {
+    config.recall.apiUrl = await recall.start();
+    config.recall.statusPoll.intervalMs = 20;
+  });
+
+  afterAll(async () => {
+    config.recall.apiUrl = originalUrl;
+    config.recall.statusPoll.intervalMs = originalInterval;
+    await recall.stop();
+  });
+
+  beforeEach(() => {
+    recall.failures.clear();
+    recall.initialStatus = 'joining_call';
+  });
+
+  it('is ready once on any in-call status', async () => {
+    const bot = new RecallAI();
+    let ready = 0;
+    bot.on('ready', () => ready++);
+
+    const botId = await bot.joinMeeting('https://meet.google.com/abc-defg-hij');
+    // in_call_not_recording を経ずに録画中になった場合
+    const statuses: string[] = [];
+    bot.on('status_change', (status) => statuses.push(status.code));
+    recall.bots.set(botId, 'in_call_recording');
+    await waitFor(() => statuses.includes('in_call_recording'));
+    bot.handleStatusChange({ code: 'recording_permission_allowed' }, 'webhook');
+
+    expect(ready).toBe(1);
+    expect(bot.isInCall()).toBe(true);
+    await bot.leaveMeeting();
+    expect(bot.isInCall()).toBe(false);
+  });
+
+  it('stops polling after leaving the meeting', async () => {
+    const bot = new RecallAI();
+    const botId = await bot.joinMeeting('https://meet.google.com/abc-defg-hij');
+
+    await bot.leaveMeeting();
+
+    expect(bot.isActiveBot()).toBe(false);
+    expect(RecallAI.findByBotId(botId)).toBeUndefined();
+  });
+
+  it('keeps monitoring the bot when leaving fails', async () => {
+    const bot = new RecallAI();
+    const botId = await bot.joinMeeting('https://meet.google.com/abc-defg-hij');
+    recall.failures.add('DELETE /bot');
+
+    await expect(bot.leaveMeeting()).rejects.toThrow();
+
+    expect(bot.isActiveBot()).toBe(true);
+    expect(RecallAI.findByBotId(botId)).toBe(bot);
+
+    // 監視が続いているため、会議の終了を検出できる
+    const ended = new Promise((resolve) => bot.once('ended', resolve));
+    recall.bots.set(botId, 'call_ended');
+    await ended;
+    expect(bot.isActiveBot()).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config';
+import {
+  TTSOutputTranscoder,
+  TTSSegmentChunk,
+} from '../services/TTSOutputTranscoder';
+import { PCM16_16K_MONO } from '../utils/audioFormat';
+
+function chunk(
+  sequence: number,
+  text: string,
+  isFinal: boolean
+): TTSSegmentChunk {
+  return {
+    segment: 1,
+    language: 'fr',
+    sequence,
+    audioData: Buffer.from(text),
+    isFinal,
+    timestamp: Date.now(),
+  };
+}
+
+describe('TTSOutputTranscoder', () => {
+  const originalPath = config.audio.ffmpegPath;
+  let dir: string;
+
+  beforeAll(() => {
+    // 入力をそのまま出力する ffmpeg の代わり
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tts-transcoder-'));
+    config.audio.ffmpegPath = path.join(dir, 'ffmpeg');
+    fs.writeFileSync(config.audio.ffmpegPath, '#!/bin/sh\nexec cat\n', {
+      mode: 0o755,
+    });
+  });
+
+  afterAll(() => {
+    config.audio.ffmpegPath = originalPath;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('converts each streamed chunk once for viewers sharing a format', async () => {
+    const transcoder = new TTSOutputTranscoder();
+    const viewers: Buffer[][] = [[], []];
+
+    for (const [i, text] of ['AAAA', 'BBBB', 'CCCC'].entries()) {
+      const source = chunk(i, text, i === 2);
+      const converted = await Promise.all(
+        viewers.map(() => transcoder.convertChunk(source, PCM16_16K_MONO))
+      );
+      converted.forEach((c, viewer) => viewers[viewer].push(c.audioData));
+    }
+
+    for (const received of viewers) {
+      expect(Buffer.concat(received).toString()).toBe('AAAABBBBCCCC');
+    }
+    transcoder.close();
+  });
+});
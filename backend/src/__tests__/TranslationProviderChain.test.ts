@@ -0,0 +1,216 @@
+import { GlossaryService } from '../services/GlossaryService';
+import { GlossaryTranslationProvider } from '../services/GlossaryTranslationProvider';
+import { TranslationProviderChain } from '../services/TranslationProviderChain';
+import { InMemoryGlossaryRepository } from '../repositories/GlossaryRepository';
+import {
+  SupportedLanguage,
+  TranslationError,
+  TranslationProvider,
+  TranslationResult,
+} from '../types';
+
+/**
+ * テスト用の翻訳プロバイダー (受け取った引数を記録する)
+ */
+class StubProvider implements TranslationProvider {
+  readonly calls: Array<{ text: string; glossaryId?: string }> = [];
+  failure: Error | null = null;
+  delayMs: number = 0;
+
+  constructor(
+    readonly name: string,
+    readonly supportsNativeGlossary: boolean = false
+  ) {}
+
+  async translate(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    glossaryId?: string
+  ): Promise<TranslationResult> {
+    this.calls.push({ text, glossaryId });
+    if (this.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+    }
+    if (this.failure) {
+      throw this.failure;
+    }
+
+    return {
+      originalText: text,
+      // プレースホルダーはそのまま残す
+      translatedText: `${this.name}(${text})`,
+      sourceLang,
+      targetLang,
+      confidence: 1,
+      timestamp: Date.now(),
+    };
+  }
+
+  async translateMultiple(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLangs: SupportedLanguage[],
+    glossaryId?: string
+  ): Promise<TranslationResult[]> {
+    return Promise.all(
+      targetLangs.map((lang) =>
+        this.translate(text, sourceLang, lang, glossaryId)
+      )
+    );
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.failure === null;
+  }
+}
+
+describe('TranslationProviderChain', () => {
+  it('uses the providers in order and fails over on errors', async () => {
+    const google = new StubProvider('google');
+    const deepl = new StubProvider('deepl');
+    google.failure = new Error('quota exceeded');
+
+    const result = await new TranslationProviderChain(
+      [google, deepl],
+      1000
+    ).translate('Bonjour', 'fr', 'ja');
+
+    expect(google.calls).toHaveLength(1);
+    expect(deepl.calls).toHaveLength(1);
+    expect(result).toMatchObject({
+      translatedText: 'deepl(Bonjour)',
+      provider: 'deepl',
+    });
+  });
+
+  it('does not call later providers once one succeeds', async () => {
+    const google = new StubProvider('google');
+    const deepl = new StubProvider('deepl');
+
+    const result = await new TranslationProviderChain(
+      [google, deepl],
+      1000
+    ).translate('Bonjour', 'fr', 'ja');
+
+    expect(result.provider).toBe('google');
+    expect(deepl.calls).toHaveLength(0);
+  });
+
+  it('fails over when a provider times out', async () => {
+    const google = new StubProvider('google');
+    const deepl = new StubProvider('deepl');
+    google.delayMs = 200;
+
+    const result = await new TranslationProviderChain(
+      [google, deepl],
+      20
+    ).translate('Bonjour', 'fr', 'ja');
+
+    expect(result.provider).toBe('deepl');
+  });
+
+  it('reports every failure when all providers fail', async () => {
+    const google = new StubProvider('google');
+    const deepl = new StubProvider('deepl');
+    google.failure = new Error('quota exceeded');
+    deepl.failure = new Error('unavailable');
+
+    const error = await new TranslationProviderChain([google, deepl], 1000)
+      .translate('Bonjour', 'fr', 'ja')
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TranslationError);
+    expect(error.code).toBe('TRANSLATION_FAILED');
+    expect(error.details.failures).toEqual([
+      { provider: 'google', error: 'quota exceeded' },
+      { provider: 'deepl', error: 'unavailable' },
+    ]);
+  });
+
+  it('is healthy while any provider is healthy', async () => {
+    const google = new StubProvider('google');
+    const deepl = new StubProvider('deepl');
+    google.failure = new Error('down');
+
+    const chain = new TranslationProviderChain([google, deepl], 1000);
+
+    expect(await chain.healthCheck()).toBe(true);
+    deepl.failure = new Error('down');
+    expect(await chain.healthCheck()).toBe(false);
+  });
+
+  describe('with a glossary', () => {
+    let glossaries: GlossaryService;
+    let google: StubProvider;
+    let deepl: StubProvider;
+    let chain: TranslationProviderChain;
+
+    beforeEach(async () => {
+      glossaries = new GlossaryService(new InMemoryGlossaryRepository());
+      await glossaries.create(
+        {
+          id: 'g1',
+          languages: ['fr', 'ja'],
+          entries: [{ terms: { fr: 'Gemini', ja: 'ジェミニ' } }],
+          nativeGlossaries: { google: 'google-g1' },
+        },
+        'a'
+      );
+      google = new StubProvider('google', true);
+      deepl = new StubProvider('deepl');
+      chain = new TranslationProviderChain(
+        [google, deepl].map(
+          (provider) => new GlossaryTranslationProvider(provider, glossaries)
+        ),
+        1000
+      );
+    });
+
+    it('uses the native glossary of the provider', async () => {
+      const result = await chain.translate('Gemini arrive', 'fr', 'ja', 'g1');
+
+      expect(google.calls).toEqual([
+        { text: 'Gemini arrive', glossaryId: 'google-g1' },
+      ]);
+      expect(result.translatedText).toBe('google(Gemini arrive)');
+    });
+
+    it('substitutes the terms locally on a fallback provider', async () => {
+      google.failure = new Error('quota exceeded');
+
+      const result = await chain.translate('Gemini arrive', 'fr', 'ja', 'g1');
+
+      expect(deepl.calls).toEqual([
+        { text: '__G0__ arrive', glossaryId: undefined },
+      ]);
+      expect(result).toMatchObject({
+        originalText: 'Gemini arrive',
+        translatedText: 'deepl(ジェミニ arrive)',
+        provider: 'deepl',
+      });
+    });
+
+    it('skips the glossary when no glossary id is given', async () => {
+      google.failure = new Error('quota exceeded');
+
+      await chain.translate('Gemini arrive', 'fr', 'ja');
+
+      expect(google.calls).toEqual([
+        { text: 'Gemini arrive', glossaryId: undefined },
+      ]);
+      expect(deepl.calls).toEqual([
+        { text: 'Gemini arrive', glossaryId: undefined },
+      ]);
+    });
+
+    it('passes an unknown glossary id only to providers with native glossaries', async () => {
+      google.failure = new Error('quota exceeded');
+
+      await chain.translate('Gemini arrive', 'fr', 'ja', 'external-id');
+
+      expect(google.calls[0].glossaryId).toBe('external-id');
+      expect(deepl.calls[0].glossaryId).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { VoiceActivityDetector } from '../services/VoiceActivityDetector';
+import { PCM16_16K_MONO } from '../utils/audioFormat';
+import { noise, silence } from './helpers';
+
+const options = {
+  enabled: true,
+  thresholdDb: -45,
+  minSpeechMs: 60,
+  preRollMs: 100,
+  pauseMs: 200,
+  finalizeTimeoutMs: 1500,
+};
+
+describe('VoiceActivityDetector', () => {
+  it('drops silence outside of utterances', () => {
+    const vad = new VoiceActivityDetector(PCM16_16K_MONO, options);
+
+    const result = vad.process(silence(500));
+
+    expect(result.audio.length).toBe(0);
+    expect(result.utteranceStart).toBe(false);
+    expect(result.droppedBytes).toBeGreaterThan(0);
+    expect(vad.isSpeaking()).toBe(false);
+  });
+
+  it('detects the start of speech and includes the pre-roll', () => {
+    const vad = new VoiceActivityDetector(PCM16_16K_MONO, options);
+    vad.process(silence(500));
+
+    const result = vad.process(noise(100));
+
+    expect(result.utteranceStart).toBe(true);
+    expect(vad.isSpeaking()).toBe(true);
+    // 発話の 100ms + 直前の無音 (preRollMs 分)
+    expect(result.audio.length).toBeGreaterThan(noise(100).length);
+  });
+
+  it('ends the utterance after the pause and keeps the rest for the next call', () => {
+    const vad = new VoiceActivityDetector(PCM16_16K_MONO, options);
+    vad.process(noise(100));
+
+    const end = vad.process(Buffer.concat([silence(300), noise(100)]));
+    expect(end.utteranceEnd).toBe(true);
+    expect(end.utteranceStart).toBe(false);
+
+    const next = vad.process(Buffer.alloc(0));
+    expect(next.utteranceStart).toBe(true);
+  });
+
+  it('ignores short noise', () => {
+    const vad = new VoiceActivityDetector(PCM16_16K_MONO, options);
+
+    const result = vad.process(Buffer.concat([noise(20), silence(200)]));
+
+    expect(result.utteranceStart).toBe(false);
+    expect(result.audio.length).toBe(0);
+  });
+
+  it('reports whether an utterance was in progress on reset', () => {
+    const vad = new VoiceActivityDetector(PCM16_16K_MONO, options);
+    vad.process(noise(100));
+
+    expect(vad.reset()).toBe(true);
+    expect(vad.reset()).toBe(false);
+  });
+});
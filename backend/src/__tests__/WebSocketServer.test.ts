@@ -0,0 +1,363 @@
+import { config } from '../config';
+import WebSocket from 'ws';
+import { FakeRecallServer } from './fakeRecall';
+import { noise } from './helpers';
+import { TestClient, TestServer } from './wsHarness';
+import { getGlossaryService } from '../services/GlossaryService';
+import { RecallAI } from '../services/RecallAI';
+
+describe('WebSocketServer start_meeting', () => {
+  const recall = new FakeRecallServer();
+  const server = new TestServer();
+  const original = {
+    apiUrl: config.recall.apiUrl,
+    useMockProviders: config.useMockProviders,
+    realtimeAudioUrl: config.recall.realtimeAudioUrl,
+    startMeeting: { ...config.rateLimit.startMeeting },
+  };
+
+  beforeAll(async () => {
+    config.recall.apiUrl = await recall.start();
+    config.useMockProviders = true;
+    config.rateLimit.startMeeting.burst = 100;
+    await server.start();
+    config.recall.realtimeAudioUrl = `${server.url}/ws/recall-audio`;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await recall.stop();
+    config.recall.apiUrl = original.apiUrl;
+    config.useMockProviders = original.useMockProviders;
+    config.recall.realtimeAudioUrl = original.realtimeAudioUrl;
+    Object.assign(config.rateLimit.startMeeting, original.startMeeting);
+  });
+
+  const meetingConfig = {
+    targetLanguages: ['fr'],
+    enableVoice: true,
+    enableSubtitles: true,
+  };
+
+  it('starts a meeting without a bot when no meeting URL is given', async () => {
+    const client = await server.connect();
+    const requests = recall.find('POST', '/bot').length;
+
+    client.send({ type: 'start_meeting', config: meetingConfig });
+
+    const started = await client.next('meeting_started');
+    expect(started.botId).toBeNull();
+    expect(recall.find('POST', '/bot')).toHaveLength(requests);
+
+    client.send({ type: 'stop_meeting' });
+    await client.next('meeting_stopped');
+  });
+
+  it('joins a bot when a meeting URL is given', async () => {
+    const client = await server.connect();
+
+    client.send({
+      type: 'start_meeting',
+      config: {
+        ...meetingConfig,
+        meetingUrl: 'https://meet.google.com/abc-defg-hij',
+      },
+    });
+
+    const started = await client.next('meeting_started');
+    expect(started.botId).toMatch(/^bot-/);
+
+    client.send({ type: 'stop_meeting' });
+    await client.next('meeting_stopped');
+    expect(recall.find('DELETE', `/bot/${started.botId}`)).toHaveLength(1);
+  });
+
+  it('stops the meeting when the bot fails', async () => {
+    const client = await server.connect();
+    client.send({
+      type: 'start_meeting',
+      config: {
+        ...meetingConfig,
+        meetingUrl: 'https://meet.google.com/abc-defg-hij',
+      },
+    });
+    const { botId, meetingId } = await client.next('meeting_started');
+
+    RecallAI.findByBotId(botId)!.handleStatusChange(
+      { code: 'fatal', message: 'Bot was removed' },
+      'webhook'
+    );
+
+    expect((await client.next('bot_error')).error).toBe('Bot was removed');
+    expect((await client.next('meeting_stopped')).meetingId).toBe(meetingId);
+    expect(recall.find('DELETE', `/bot/${botId}`)).toHaveLength(0);
+
+    // 会議は終了しているため新しい会議を開始できる
+    client.send({ type: 'start_meeting', config: meetingConfig });
+    await client.next('meeting_started');
+    client.send({ type: 'stop_meeting' });
+    await client.next('meeting_stopped');
+  });
+
+  it('translates the meeting audio that Recall sends to the realtime endpoint', async () => {
+    const client = await server.connect();
+
+    client.send({
+      type: 'start_meeting',
+      config: {
+        ...meetingConfig,
+        meetingUrl: 'https://meet.google.com/abc-defg-hij',
+      },
+    });
+
+    const started = await client.next('meeting_started');
+    const join = recall.find('POST', '/bot').pop()!;
+    expect(join.body.recording_config.realtime_endpoints).toEqual([
+      expect.objectContaining({
+        type: 'websocket',
+        events: ['audio_separate_raw.data'],
+      }),
+    ]);
+
+    const audio = await recall.connectAudio(started.botId);
+    audio.send({ id: 100, name: 'Alice' }, noise(200));
+
+    const stt = await client.next('stt_result');
+    expect(stt.data.speakerId).toBe('100');
+    await client.next('translations');
+
+    audio.close();
+    client.send({ type: 'stop_meeting' });
+    await client.next('meeting_stopped');
+  });
+
+  it('rejects realtime audio connections with an unknown token', async () => {
+    const ws = new WebSocket(
+      `${server.url}/ws/recall-audio?token=not-a-meeting`
+    );
+
+    const status = await new Promise<number | undefined>((resolve) => {
+      ws.once('unexpected-response', (_req, res) => resolve(res.statusCode));
+      ws.once('open', () => resolve(undefined));
+      ws.once('error', () => resolve(undefined));
+    });
+    expect(status).toBe(401);
+  });
+
+  it('requires a meeting URL to output to the meeting', async () => {
+    const client = await server.connect();
+
+    client.send({
+      type: 'start_meeting',
+      config: { ...meetingConfig, voiceOutput: 'meeting' },
+    });
+
+    const error = await client.next('error');
+    expect(error.code).toBe('MEETING_URL_REQUIRED');
+  });
+});
+
+describe('WebSocketServer join_session', () => {
+  const server = new TestServer();
+  const original = {
+    auth: { ...config.auth },
+    startMeeting: { ...config.rateLimit.startMeeting },
+    useMockProviders: config.useMockProviders,
+  };
+
+  beforeAll(async () => {
+    Object.assign(config.auth, {
+      enabled: true,
+      apiKeys: [
+        { userId: 'alice', role: 'host', key: 'alice-key', tenantId: 'a' },
+        { userId: 'amy', role: 'viewer', key: 'amy-key', tenantId: 'a' },
+        { userId: 'bob', role: 'viewer', key: 'bob-key', tenantId: 'b' },
+        { userId: 'root', role: 'admin', key: 'admin-key', tenantId: 'ops' },
+        { userId: 'carol', role: 'host', key: 'carol-key', tenantId: 'c' },
+      ],
+    });
+    config.useMockProviders = true;
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    Object.assign(config.auth, original.auth);
+    Object.assign(config.rateLimit.startMeeting, original.startMeeting);
+    config.useMockProviders = original.useMockProviders;
+  });
+
+  it('only lets members of the host tenant and admins join', async () => {
+    const host = await server.connect({ 'x-api-key': 'alice-key' });
+    host.send({
+      type: 'start_meeting',
+      config: {
+        targetLanguages: ['fr'],
+        enableVoice: false,
+        enableSubtitles: true,
+      },
+    });
+    const { meetingId } = await host.next('meeting_started');
+
+    const outsider = await server.connect({ 'x-api-key': 'bob-key' });
+    outsider.send({ type: 'join_session', meetingId });
+    const error = await outsider.next('error');
+    expect(error.code).toBe('MEETING_NOT_FOUND');
+
+    for (const key of ['amy-key', 'admin-key']) {
+      const viewer = await server.connect({ 'x-api-key': key });
+      viewer.send({ type: 'join_session', meetingId });
+      expect((await viewer.next('session_joined')).meetingId).toBe(meetingId);
+    }
+
+    host.send({ type: 'stop_meeting' });
+    await host.next('meeting_stopped');
+  });
+
+  it('rejects a glossary of another tenant', async () => {
+    await getGlossaryService().create(
+      { id: 'terms-c', languages: ['ja', 'fr'], entries: [] },
+      'c'
+    );
+    const start = (key: string) =>
+      server.connect({ 'x-api-key': key }).then((host) => {
+        host.send({
+          type: 'start_meeting',
+          config: {
+            targetLanguages: ['fr'],
+            enableVoice: false,
+            enableSubtitles: true,
+            glossaryId: 'terms-c',
+          },
+        });
+        return host;
+      });
+
+    const outsider = await start('alice-key');
+    expect((await outsider.next('error')).code).toBe('GLOSSARY_NOT_FOUND');
+
+    const host = await start('carol-key');
+    await host.next('meeting_started');
+    host.send({ type: 'stop_meeting' });
+    await host.next('meeting_stopped');
+  });
+
+  it('limits how often a tenant can start meetings', async () => {
+    Object.assign(config.rateLimit.startMeeting, { perMinute: 1, burst: 1 });
+    const host = await server.connect({ 'x-api-key': 'carol-key' });
+    const start = () =>
+      host.send({
+        type: 'start_meeting',
+        config: {
+          targetLanguages: ['fr'],
+          enableVoice: false,
+          enableSubtitles: true,
+        },
+      });
+
+    start();
+    await host.next('meeting_started');
+    host.send({ type: 'stop_meeting' });
+    await host.next('meeting_stopped');
+
+    start();
+    const error = await host.next('error');
+    expect(error.code).toBe('RATE_LIMITED');
+  });
+});
+
+describe('WebSocketServer resume_session', () => {
+  const server = new TestServer();
+  const original = {
+    session: { ...config.session },
+    useMockProviders: config.useMockProviders,
+  };
+
+  beforeAll(async () => {
+    config.useMockProviders = true;
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    Object.assign(config.session, original.session);
+    config.useMockProviders = original.useMockProviders;
+  });
+
+  afterEach(() => {
+    Object.assign(config.session, original.session);
+  });
+
+  // ping を送り、pong の seq を返す
+  const ping = async (client: TestClient): Promise<number> => {
+    client.send({ type: 'ping' });
+    return (await client.next('pong')).seq;
+  };
+
+  it('replays every message after a stale sequence with the original seq', async () => {
+    const client = await server.connect();
+    const { sessionToken } = client.connected;
+    const seqs = [await ping(client), await ping(client), await ping(client)];
+    client.close();
+
+    const resumed = await server.connect();
+    resumed.send({
+      type: 'resume_session',
+      sessionToken,
+      lastSequence: seqs[0],
+    });
+    const result = await resumed.next('session_resumed');
+
+    expect(result).toMatchObject({ replayed: 2, missed: 0 });
+    expect(result.seq).toBe(seqs[2] + 1);
+    const replayed = resumed.messages.filter(
+      (message) => message.type === 'pong'
+    );
+    expect(replayed.map((message) => message.seq)).toEqual(seqs.slice(1));
+  });
+
+  it('reports the messages that were dropped from the replay buffer', async () => {
+    config.session.replayBufferSize = 2;
+    const client = await server.connect();
+    const { sessionToken, seq } = client.connected;
+    for (let i = 0; i < 4; i++) {
+      await ping(client);
+    }
+    client.close();
+
+    const resumed = await server.connect();
+    resumed.send({ type: 'resume_session', sessionToken, lastSequence: seq });
+    const result = await resumed.next('session_resumed');
+
+    expect(result).toMatchObject({ replayed: 2, missed: 2 });
+    const replayed = resumed.messages.filter(
+      (message) => message.type === 'pong'
+    );
+    expect(replayed.map((message) => message.seq)).toEqual([seq + 3, seq + 4]);
+  });
+
+  it('ends the meeting and forgets the session after the grace period', async () => {
+    config.session.resumeGraceMs = 50;
+    const host = await server.connect();
+    const { sessionToken } = host.connected;
+    host.send({
+      type: 'start_meeting',
+      config: {
+        targetLanguages: ['fr'],
+        enableVoice: false,
+        enableSubtitles: true,
+      },
+    });
+    const { meetingId } = await host.next('meeting_started');
+    const viewer = await server.connect();
+    viewer.send({ type: 'join_session', meetingId });
+    await viewer.next('session_joined');
+
+    host.close();
+    await viewer.next('meeting_stopped');
+
+    const resumed = await server.connect();
+    resumed.send({ type: 'resume_session', sessionToken, lastSequence: 0 });
+    expect((await resumed.next('error')).code).toBe('SESSION_NOT_FOUND');
+  });
+});
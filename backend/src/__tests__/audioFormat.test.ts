@@ -0,0 +1,29 @@
+import { isAudioEncoding, parseAudioFormat } from '../utils/audioFormat';
+
+describe('audioFormat', () => {
+  it('accepts supported encodings', () => {
+    expect(isAudioEncoding('pcm16')).toBe(true);
+    expect(isAudioEncoding('mp3')).toBe(true);
+  });
+
+  it.each(['toString', 'constructor', '__proto__', 'wav', 1])(
+    'rejects the encoding %s',
+    (encoding) => {
+      expect(isAudioEncoding(encoding)).toBe(false);
+      expect(parseAudioFormat({ encoding })).toBeNull();
+    }
+  );
+
+  it('fills in the default sample rate and channels', () => {
+    expect(parseAudioFormat({ encoding: 'pcm16' })).toEqual({
+      encoding: 'pcm16',
+      sampleRate: 16000,
+      channels: 1,
+    });
+  });
+
+  it('rejects unsupported sample rates and channels', () => {
+    expect(parseAudioFormat({ encoding: 'pcm16', sampleRate: 1 })).toBeNull();
+    expect(parseAudioFormat({ encoding: 'pcm16', channels: 6 })).toBeNull();
+  });
+});
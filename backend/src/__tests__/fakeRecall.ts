@@ -0,0 +1,165 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import WebSocket from 'ws';
+
+/**
+ * 受信したリクエスト
+ */
+export interface FakeRecallRequest {
+  method: string;
+  path: string;
+  body: any;
+}
+
+/**
+ * テスト用の疑似 Recall.ai API サーバー
+ */
+export class FakeRecallServer {
+  readonly requests: FakeRecallRequest[] = [];
+  // ボットID -> 最新のステータスコード
+  readonly bots: Map<string, string> = new Map();
+  // 失敗させる操作 (例: "POST /bot", "DELETE /bot")
+  readonly failures: Set<string> = new Set();
+  // 参加に失敗させるボットの名前
+  readonly failingBotNames: Set<string> = new Set();
+  // ボットID -> 参加時に指定されたリアルタイム音声エンドポイント
+  readonly audioEndpoints: Map<string, string> = new Map();
+  // 作成したボットの最初のステータス
+  initialStatus: string = 'joining_call';
+  private server: http.Server | null = null;
+  private nextId: number = 1;
+
+  /**
+   * サーバーを起動し、APIのURLを返す
+   */
+  async start(): Promise<string> {
+    const app = express();
+    app.use(express.json());
+
+    app.use((req, _res, next) => {
+      this.requests.push({
+        method: req.method,
+        path: req.path,
+        body: req.body,
+      });
+      next();
+    });
+
+    app.post('/bot', (req, res) => {
+      if (
+        this.failures.has('POST /bot') ||
+        this.failingBotNames.has(req.body?.bot_name)
+      ) {
+        res.status(500).json({ detail: 'join failed' });
+        return;
+      }
+
+      const id = `bot-${this.nextId++}`;
+      this.bots.set(id, this.initialStatus);
+      const endpoint = req.body?.recording_config?.realtime_endpoints?.[0];
+      if (endpoint?.url) {
+        this.audioEndpoints.set(id, endpoint.url);
+      }
+      res.status(201).json({ id, status_changes: [] });
+    });
+
+    app.get('/bot/:id', (req, res) => {
+      const code = this.bots.get(req.params.id);
+      if (!code) {
+        res.status(404).end();
+        return;
+      }
+
+      res.json({
+        id: req.params.id,
+        status_changes: [{ code, created_at: new Date(0).toISOString() }],
+      });
+    });
+
+    app.delete('/bot/:id', (req, res) => {
+      if (this.failures.has('DELETE /bot')) {
+        res.status(500).json({ detail: 'leave failed' });
+        return;
+      }
+
+      this.bots.delete(req.params.id);
+      res.status(204).end();
+    });
+
+    this.server = http.createServer(app);
+    await new Promise<void>((resolve) => this.server!.listen(0, resolve));
+
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * 指定したメソッド・パスのリクエストを取得
+   */
+  find(method: string, path: string | RegExp): FakeRecallRequest[] {
+    return this.requests.filter(
+      (request) =>
+        request.method === method &&
+        (typeof path === 'string'
+          ? request.path === path
+          : path.test(request.path))
+    );
+  }
+
+  /**
+   * ボットの音声エンドポイントに Recall.ai として接続
+   */
+  async connectAudio(botId: string): Promise<FakeRecallAudio> {
+    const url = this.audioEndpoints.get(botId);
+    if (!url) {
+      throw new Error(`No realtime audio endpoint for ${botId}`);
+    }
+
+    const ws = new WebSocket(url);
+    await new Promise<void>((resolve, reject) => {
+      ws.once('open', () => resolve());
+      ws.once('error', reject);
+    });
+    return new FakeRecallAudio(ws);
+  }
+
+  /**
+   * サーバーを停止
+   */
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server?.close(resolve));
+  }
+}
+
+/**
+ * Recall.ai からリアルタイム音声エンドポイントへの接続
+ */
+export class FakeRecallAudio {
+  private ws: WebSocket;
+
+  constructor(ws: WebSocket) {
+    this.ws = ws;
+  }
+
+  /**
+   * 参加者の音声を audio_separate_raw.data として送信
+   */
+  send(participant: { id: number; name: string }, audio: Buffer): void {
+    this.ws.send(
+      JSON.stringify({
+        event: 'audio_separate_raw.data',
+        data: {
+          data: {
+            buffer: audio.toString('base64'),
+            timestamp: { relative: 0, absolute: new Date().toISOString() },
+            participant,
+          },
+        },
+      })
+    );
+  }
+
+  close(): void {
+    this.ws.close();
+  }
+}
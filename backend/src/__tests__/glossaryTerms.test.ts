@@ -0,0 +1,140 @@
+import { maskTerms, restoreTerms } from '../utils/glossaryTerms';
+import { Glossary, GlossaryEntry } from '../types';
+
+function glossary(entries: GlossaryEntry[]): Glossary {
+  return {
+    id: 'g1',
+    tenantId: 'team-a',
+    name: 'test',
+    languages: ['ja', 'fr'],
+    entries,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+describe('maskTerms', () => {
+  it('does not match shorter terms inside earlier placeholders', () => {
+    // "G" と "0" は先に置き換えた "__G0__" に含まれる
+    const masked = maskTerms(
+      'Gemini 2.0 と G と 0',
+      'ja',
+      'fr',
+      glossary([
+        { terms: { ja: 'Gemini 2.0', fr: 'Gemini deux' } },
+        { terms: { ja: 'G', fr: 'Gé' } },
+        { terms: { ja: '0', fr: 'zéro' } },
+      ])
+    );
+
+    expect(masked.text).toBe('__G0__ と __G1__ と __G2__');
+    expect(masked.terms.map((term) => term.target)).toEqual([
+      'Gemini deux',
+      'Gé',
+      'zéro',
+    ]);
+    expect(restoreTerms(masked.text, masked, 'fr').text).toBe(
+      'Gemini deux と Gé と zéro'
+    );
+  });
+
+  it('prefers the longest term and ignores case', () => {
+    const masked = maskTerms(
+      'meet translator と Meet',
+      'ja',
+      'fr',
+      glossary([
+        { terms: { ja: 'Meet', fr: 'Rencontre' } },
+        { terms: { ja: 'Meet Translator', fr: 'Traducteur Meet' } },
+      ])
+    );
+
+    expect(masked.text).toBe('__G0__ と __G1__');
+    expect(masked.terms.map((term) => term.source)).toEqual([
+      'Meet Translator',
+      'Meet',
+    ]);
+  });
+
+  it('uses one placeholder per term', () => {
+    const masked = maskTerms(
+      '会議の後に会議',
+      'ja',
+      'fr',
+      glossary([{ terms: { ja: '会議', fr: 'réunion' } }])
+    );
+
+    expect(masked.text).toBe('__G0__の後に__G0__');
+    expect(masked.terms).toHaveLength(1);
+  });
+
+  it('matches whole words only in a space-delimited source language', () => {
+    const masked = maskTerms(
+      "L'IA médiatique et initiale, ia",
+      'fr',
+      'ja',
+      glossary([{ terms: { fr: 'IA', ja: '人工知能' } }])
+    );
+
+    expect(masked.text).toBe("L'__G0__ médiatique et initiale, __G0__");
+    expect(restoreTerms('__G0__と__G0__', masked, 'ja').text).toBe(
+      '人工知能と人工知能'
+    );
+  });
+
+  it('skips entries without both languages', () => {
+    const masked = maskTerms(
+      '会議',
+      'ja',
+      'fr',
+      glossary([{ terms: { ja: '会議' } }])
+    );
+
+    expect(masked).toEqual({ text: '会議', terms: [] });
+  });
+});
+
+describe('restoreTerms', () => {
+  it('replaces only whole words left in a space-delimited translation', () => {
+    const masked = maskTerms(
+      'IAの話',
+      'ja',
+      'fr',
+      glossary([{ terms: { ja: 'IA', fr: 'intelligence artificielle' } }])
+    );
+
+    expect(restoreTerms("L'IA médiatique", masked, 'fr')).toEqual({
+      text: "L'intelligence artificielle médiatique",
+      missing: [],
+    });
+    expect(restoreTerms('Une initiale', masked, 'fr')).toEqual({
+      text: 'Une initiale',
+      missing: ['IA'],
+    });
+  });
+
+  it('replaces terms inside words of a language without spaces', () => {
+    const masked = maskTerms(
+      "L'IA",
+      'fr',
+      'ja',
+      glossary([{ terms: { fr: 'IA', ja: '人工知能' } }])
+    );
+
+    expect(restoreTerms('IAの話', masked, 'ja').text).toBe('人工知能の話');
+  });
+
+  it('restores placeholders changed by the translation engine', () => {
+    const masked = maskTerms(
+      '会議',
+      'ja',
+      'fr',
+      glossary([{ terms: { ja: '会議', fr: 'réunion' } }])
+    );
+
+    expect(restoreTerms('la _ G0 _', masked, 'fr')).toEqual({
+      text: 'la réunion',
+      missing: [],
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { bytesPerSecond, PCM16_16K_MONO } from '../utils/audioFormat';
+
+/**
+ * 16kHz / モノラルの pcm16 のノイズ (VADで発話と判定される音量)
+ */
+export function noise(durationMs: number): Buffer {
+  const samples = Math.floor(
+    (bytesPerSecond(PCM16_16K_MONO) * durationMs) / 2000
+  );
+  const data = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    data.writeInt16LE(Math.round((Math.random() * 2 - 1) * 8000), i * 2);
+  }
+  return data;
+}
+
+/**
+ * 16kHz / モノラルの pcm16 の無音
+ */
+export function silence(durationMs: number): Buffer {
+  const samples = Math.floor(
+    (bytesPerSecond(PCM16_16K_MONO) * durationMs) / 2000
+  );
+  return Buffer.alloc(samples * 2);
+}
+
+/**
+ * 条件を満たすまで待機
+ */
+export async function waitFor(
+  condition: () => boolean,
+  timeoutMs: number = 2000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
@@ -0,0 +1,61 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { config } from '../config';
+import { requireMetricsAccess } from '../routes/auth';
+
+describe('GET /metrics access', () => {
+  let server: http.Server;
+  let url: string;
+  const original = { ...config.auth };
+
+  beforeAll(async () => {
+    Object.assign(config.auth, {
+      enabled: true,
+      metricsToken: 'scrape-token',
+      apiKeys: [
+        { userId: 'alice', role: 'host', key: 'host-key', tenantId: 'a' },
+        { userId: 'root', role: 'admin', key: 'admin-key', tenantId: 'a' },
+      ],
+    });
+    const app = express();
+    app.get('/metrics', requireMetricsAccess(), (req, res) => {
+      res.send('metrics');
+    });
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/metrics`;
+  });
+
+  afterAll(async () => {
+    Object.assign(config.auth, original);
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const get = (credential?: string) =>
+    fetch(url, {
+      headers: credential ? { authorization: `Bearer ${credential}` } : {},
+    });
+
+  it('rejects requests without credentials', async () => {
+    expect((await get()).status).toBe(401);
+  });
+
+  it('accepts the metrics token', async () => {
+    expect((await get('scrape-token')).status).toBe(200);
+  });
+
+  it('accepts admins only', async () => {
+    expect((await get('admin-key')).status).toBe(200);
+    expect((await get('host-key')).status).toBe(403);
+  });
+
+  it('requires an admin when no metrics token is configured', async () => {
+    config.auth.metricsToken = '';
+    try {
+      expect((await get('scrape-token')).status).toBe(401);
+    } finally {
+      config.auth.metricsToken = 'scrape-token';
+    }
+  });
+});
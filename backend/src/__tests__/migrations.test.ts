@@ -0,0 +1,63 @@
+import { Pool } from 'pg';
+import { runMigrations } from '../db/migrations';
+
+/**
+ * 実行したSQLを記録する疑似接続プール
+ */
+function createPool(options: { applied?: string[]; failOn?: string } = {}) {
+  const queries: string[] = [];
+  let released = false;
+
+  const client = {
+    query: async (sql: string) => {
+      const text = sql.replace(/\s+/g, ' ').trim();
+      queries.push(text);
+      if (options.failOn && text.includes(options.failOn)) {
+        throw new Error('migration failed');
+      }
+      if (text.startsWith('SELECT id FROM schema_migrations')) {
+        return { rows: (options.applied ?? []).map((id) => ({ id })) };
+      }
+      return { rows: [] };
+    },
+    release: () => {
+      released = true;
+    },
+  };
+  const pool = { connect: async () => client } as unknown as Pool;
+
+  return { pool, queries, isReleased: () => released };
+}
+
+describe('runMigrations', () => {
+  it('applies pending migrations in one transaction holding the advisory lock', async () => {
+    const { pool, queries, isReleased } = createPool({
+      applied: ['001_glossaries'],
+    });
+
+    await runMigrations(pool);
+
+    expect(queries[0]).toBe('BEGIN');
+    expect(queries[1]).toMatch(/^SELECT pg_advisory_xact_lock\(/);
+    expect(queries[queries.length - 1]).toBe('COMMIT');
+    expect(queries.some((sql) => sql.includes('CREATE TABLE glossaries'))).toBe(
+      false
+    );
+    expect(queries.some((sql) => sql.includes('CREATE TABLE meetings'))).toBe(
+      true
+    );
+    expect(isReleased()).toBe(true);
+  });
+
+  it('rolls back every migration of the run when one fails', async () => {
+    const { pool, queries, isReleased } = createPool({
+      failOn: 'CREATE TABLE meetings',
+    });
+
+    await expect(runMigrations(pool)).rejects.toThrow('migration failed');
+
+    expect(queries).toContain('ROLLBACK');
+    expect(queries).not.toContain('COMMIT');
+    expect(isReleased()).toBe(true);
+  });
+});
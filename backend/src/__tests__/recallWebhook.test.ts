@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { config } from '../config';
+import { createRecallWebhookRouter } from '../routes/recallWebhook';
+
+const secretKey = crypto.randomBytes(24);
+const secret = `whsec_${secretKey.toString('base64')}`;
+
+/**
+ * Svix形式の署名ヘッダーを作成
+ */
+function sign(
+  body: string,
+  id: string = 'msg_1',
+  timestamp: number = Math.floor(Date.now() / 1000),
+  key: Buffer = secretKey
+): Record<string, string> {
+  const signature = crypto
+    .createHmac('sha256', key)
+    .update(`${id}.${timestamp}.${body}`)
+    .digest('base64');
+
+  return {
+    'webhook-id': id,
+    'webhook-timestamp': String(timestamp),
+    'webhook-signature': `v1,${signature}`,
+  };
+}
+
+describe('Recall webhook signature', () => {
+  let server: http.Server;
+  let url: string;
+  const originalSecret = config.recall.webhookSecret;
+
+  beforeAll(async () => {
+    config.recall.webhookSecret = secret;
+    const app = express();
+    app.use('/webhooks/recall', createRecallWebhookRouter());
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/recall`;
+  });
+
+  afterAll(async () => {
+    config.recall.webhookSecret = originalSecret;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const body = JSON.stringify({
+    event: 'bot.status_change',
+    data: { bot_id: 'unknown-bot', status: { code: 'in_call_recording' } },
+  });
+
+  const post = (headers: Record<string, string>, payload: string = body) =>
+    fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: payload,
+    });
+
+  it('accepts a valid signature', async () => {
+    const response = await post(sign(body));
+    expect(response.status).toBe(204);
+  });
+
+  it('accepts any valid signature in a space-separated list', async () => {
+    const headers = sign(body);
+    headers['webhook-signature'] = `v1,invalid ${headers['webhook-signature']}`;
+
+    const response = await post(headers);
+    expect(response.status).toBe(204);
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const response = await post(
+      sign(body, 'msg_1', undefined, crypto.randomBytes(24))
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects a modified body', async () => {
+    const response = await post(sign(body), body.replace('unknown', 'other'));
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects an expired timestamp', async () => {
+    const response = await post(
+      sign(body, 'msg_1', Math.floor(Date.now() / 1000) - 10 * 60)
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects missing signature headers', async () => {
+    const response = await post({});
+    expect(response.status).toBe(401);
+  });
+});
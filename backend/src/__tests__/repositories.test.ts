@@ -0,0 +1,155 @@
+import { InMemoryGlossaryRepository } from '../repositories/GlossaryRepository';
+import { InMemoryTranscriptRepository } from '../repositories/TranscriptRepository';
+import { InMemoryUsageRepository } from '../repositories/UsageRepository';
+
+describe('InMemoryGlossaryRepository', () => {
+  it('creates, updates and deletes glossaries', async () => {
+    const repository = new InMemoryGlossaryRepository();
+
+    const created = await repository.create({
+      id: 'g1',
+      tenantId: 'team-a',
+      name: 'Product',
+      languages: ['ja', 'fr'],
+      entries: [{ terms: { ja: '翻訳', fr: 'traduction' } }],
+    });
+    expect(created.nativeGlossaries).toEqual({});
+
+    await expect(
+      repository.create({ ...created, name: 'Duplicate' })
+    ).rejects.toThrow('already exists');
+
+    const updated = await repository.addEntries('g1', [
+      { terms: { ja: '会議', fr: 'réunion' } },
+    ]);
+    expect(updated?.entries).toHaveLength(2);
+    expect(updated!.updatedAt).toBeGreaterThanOrEqual(created.updatedAt);
+
+    const renamed = await repository.update('g1', {
+      name: 'Renamed',
+      languages: undefined,
+      entries: undefined,
+    });
+    expect(renamed).toMatchObject({ name: 'Renamed', languages: ['ja', 'fr'] });
+    expect(renamed?.entries).toHaveLength(2);
+
+    expect(await repository.update('missing', { name: 'x' })).toBeNull();
+    expect(await repository.delete('g1')).toBe(true);
+    expect(await repository.get('g1')).toBeNull();
+  });
+
+  it('returns copies that do not change the stored glossary', async () => {
+    const repository = new InMemoryGlossaryRepository();
+    await repository.create({
+      id: 'g1',
+      tenantId: 'team-a',
+      name: 'Product',
+      languages: ['ja'],
+      entries: [],
+    });
+
+    const glossary = await repository.get('g1');
+    glossary!.entries.push({ terms: { ja: '変更' } });
+
+    expect((await repository.get('g1'))!.entries).toHaveLength(0);
+  });
+});
+
+describe('InMemoryTranscriptRepository', () => {
+  const transcript = (meetingId: string, startedAt: number) => ({
+    meetingId,
+    tenantId: 'team-a',
+    meetingUrl: 'https://meet.google.com/abc-defg-hij',
+    targetLanguages: ['fr' as const],
+    startedAt,
+  });
+
+  it('numbers segments and finishes meetings', async () => {
+    const repository = new InMemoryTranscriptRepository();
+    await repository.create(transcript('m1', 1));
+
+    const first = await repository.addSegment('m1', {
+      text: 'こんにちは',
+      language: 'ja',
+      startedAt: 1,
+      endedAt: 2,
+      translations: [{ language: 'fr', text: 'Bonjour' }],
+    });
+    const second = await repository.addSegment('m1', {
+      text: 'さようなら',
+      language: 'ja',
+      startedAt: 3,
+      endedAt: 4,
+      translations: [],
+    });
+    expect([first?.sequence, second?.sequence]).toEqual([1, 2]);
+    expect(
+      await repository.addSegment('missing', { ...second!, translations: [] })
+    ).toBeNull();
+
+    expect(await repository.finish('m1', 10)).toBe(true);
+    const stored = await repository.get('m1');
+    expect(stored).toMatchObject({ status: 'ended', endedAt: 10 });
+    expect(stored!.segments).toHaveLength(2);
+  });
+
+  it('marks active meetings as interrupted', async () => {
+    const repository = new InMemoryTranscriptRepository();
+    await repository.create(transcript('m1', 1));
+    await repository.create(transcript('m2', 2));
+    await repository.finish('m1', 5);
+
+    expect(await repository.interruptActive(10)).toBe(1);
+    expect((await repository.get('m2'))!.status).toBe('interrupted');
+  });
+
+  it('evicts the oldest finished transcript when full', async () => {
+    const repository = new InMemoryTranscriptRepository(2);
+    await repository.create(transcript('m1', 1));
+    await repository.create(transcript('m2', 2));
+    await repository.finish('m1', 3);
+
+    await repository.create(transcript('m3', 4));
+
+    const ids = (await repository.list()).map((summary) => summary.meetingId);
+    expect(ids.sort()).toEqual(['m2', 'm3']);
+  });
+});
+
+describe('InMemoryUsageRepository', () => {
+  it('adds usage for the same period and summarizes by tenant', async () => {
+    const repository = new InMemoryUsageRepository();
+    await repository.add([
+      {
+        tenantId: 'a',
+        userId: 'alice',
+        metric: 'sttSeconds',
+        periodStart: 0,
+        amount: 10,
+      },
+      {
+        tenantId: 'a',
+        userId: 'alice',
+        metric: 'sttSeconds',
+        periodStart: 0,
+        amount: 5,
+      },
+      {
+        tenantId: 'b',
+        userId: 'bob',
+        metric: 'ttsChars',
+        periodStart: 3600000,
+        amount: 100,
+      },
+    ]);
+
+    expect(await repository.summarize(0, 7200000, 'a')).toEqual([
+      {
+        tenantId: 'a',
+        userId: 'alice',
+        usage: { sttSeconds: 15, translationChars: 0, ttsChars: 0 },
+      },
+    ]);
+    expect(await repository.summarize(3600000, 7200000)).toHaveLength(1);
+  });
+});
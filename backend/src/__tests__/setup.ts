@@ -0,0 +1,4 @@
+import { logger } from '../utils/logger';
+
+// テスト中はログを出力しない (失敗を検証するテストのエラーログを含む)
+logger.silent = true;
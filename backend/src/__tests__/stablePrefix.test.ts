@@ -0,0 +1,32 @@
+import { getStablePrefix } from '../utils/stablePrefix';
+
+describe('getStablePrefix', () => {
+  it('stops at the last word boundary in space-delimited languages', () => {
+    expect(
+      getStablePrefix('Bonjour à tous les', 'Bonjour à tous les amis')
+    ).toBe('Bonjour à tous');
+  });
+
+  it('keeps a result that ends with punctuation and did not change', () => {
+    expect(getStablePrefix('Bonjour.', 'Bonjour.')).toBe('Bonjour.');
+  });
+
+  it('returns nothing when the results differ within the first word', () => {
+    expect(getStablePrefix('Bonjour à tous', 'Bon jour à tous')).toBe('');
+    expect(getStablePrefix('', 'Bonjour')).toBe('');
+  });
+
+  it('stops at the last punctuation mark in Japanese', () => {
+    expect(getStablePrefix('今日は、いい天', '今日は、いい天気です')).toBe(
+      '今日は、'
+    );
+  });
+
+  it('keeps the whole common prefix without punctuation in Chinese', () => {
+    expect(getStablePrefix('大家好我們', '大家好我們開始')).toBe('大家好我們');
+  });
+
+  it('only keeps the prefix both results share', () => {
+    expect(getStablePrefix('今日は晴れ', '今日は雨')).toBe('今日は');
+  });
+});
@@ -0,0 +1,128 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { config } from '../config';
+import { requireRole } from '../routes/auth';
+import { createTranscriptRouter } from '../routes/transcripts';
+import { createGlossaryRouter } from '../routes/glossaries';
+import { TranscriptService } from '../services/TranscriptService';
+import { GlossaryService } from '../services/GlossaryService';
+import { InMemoryTranscriptRepository } from '../repositories/TranscriptRepository';
+import { InMemoryGlossaryRepository } from '../repositories/GlossaryRepository';
+
+describe('tenant isolation of transcripts and glossaries', () => {
+  let server: http.Server;
+  let url: string;
+  const original = { ...config.auth };
+  const transcripts = new TranscriptService(new InMemoryTranscriptRepository());
+  const glossaries = new GlossaryService(new InMemoryGlossaryRepository());
+
+  beforeAll(async () => {
+    Object.assign(config.auth, {
+      enabled: true,
+      apiKeys: [
+        { userId: 'alice', role: 'host', key: 'alice-key', tenantId: 'a' },
+        { userId: 'bob', role: 'host', key: 'bob-key', tenantId: 'b' },
+        { userId: 'root', role: 'admin', key: 'admin-key', tenantId: 'ops' },
+        { userId: 'ann', role: 'admin', key: 'ann-key', tenantId: 'a' },
+      ],
+    });
+
+    await transcripts.startMeeting(
+      'meeting-a',
+      'a',
+      'https://meet.google.com/abc-defg-hij',
+      ['fr']
+    );
+    await glossaries.create(
+      { id: 'glossary-a', languages: ['ja', 'fr'], entries: [] },
+      'a'
+    );
+
+    const app = express();
+    app.use(express.json());
+    app.use(
+      '/api/transcripts',
+      requireRole('host'),
+      createTranscriptRouter(transcripts)
+    );
+    app.use(
+      '/api/glossaries',
+      requireRole('host', 'admin'),
+      createGlossaryRouter(glossaries)
+    );
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    Object.assign(config.auth, original);
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const get = (path: string, key: string) =>
+    fetch(`${url}${path}`, { headers: { 'x-api-key': key } });
+  const getJson = async (path: string, key: string): Promise<any> =>
+    (await get(path, key)).json();
+
+  it('returns 404 for a meeting of another tenant', async () => {
+    for (const path of [
+      '/api/transcripts/meeting-a',
+      '/api/transcripts/meeting-a/latency',
+      '/api/transcripts/meeting-a/export?format=srt',
+    ]) {
+      expect((await get(path, 'bob-key')).status).toBe(404);
+      expect((await get(path, 'alice-key')).status).toBe(200);
+    }
+  });
+
+  it('lists only the meetings of the tenant', async () => {
+    const list = async (key: string) =>
+      (await getJson('/api/transcripts', key)).transcripts.map(
+        (transcript: { meetingId: string }) => transcript.meetingId
+      );
+
+    expect(await list('alice-key')).toEqual(['meeting-a']);
+    expect(await list('bob-key')).toEqual([]);
+  });
+
+  it('returns 404 for a glossary of another tenant', async () => {
+    expect((await get('/api/glossaries/glossary-a', 'bob-key')).status).toBe(
+      404
+    );
+    expect(
+      (await get('/api/glossaries/glossary-a?format=csv', 'bob-key')).status
+    ).toBe(404);
+    expect((await getJson('/api/glossaries', 'bob-key')).glossaries).toEqual(
+      []
+    );
+    expect((await get('/api/glossaries/glossary-a', 'alice-key')).status).toBe(
+      200
+    );
+  });
+
+  it('rejects a glossary id of another tenant like one of its own', async () => {
+    const create = async (key: string) => {
+      const res = await fetch(`${url}/api/glossaries`, {
+        method: 'POST',
+        headers: { 'x-api-key': key, 'content-type': 'application/json' },
+        body: JSON.stringify({ id: 'glossary-a', languages: ['ja', 'fr'] }),
+      });
+      return { status: res.status, body: await res.json() };
+    };
+
+    const own = await create('ann-key');
+    expect(own.status).toBe(409);
+    expect(await create('admin-key')).toEqual(own);
+  });
+
+  it('lets admins read every tenant', async () => {
+    expect((await get('/api/transcripts/meeting-a', 'admin-key')).status).toBe(
+      200
+    );
+    expect((await get('/api/glossaries/glossary-a', 'admin-key')).status).toBe(
+      200
+    );
+  });
+});
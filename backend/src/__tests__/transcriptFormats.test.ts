@@ -0,0 +1,140 @@
+import { toMarkdown, toSRT, toWebVTT } from '../utils/transcriptFormats';
+import { Transcript, TranscriptSegment } from '../types';
+
+const STARTED_AT = Date.UTC(2026, 0, 15, 9, 0, 0);
+
+function segment(
+  sequence: number,
+  startMs: number,
+  endMs: number,
+  text: string,
+  translations: TranscriptSegment['translations'],
+  speakerLabel?: string
+): TranscriptSegment {
+  return {
+    sequence,
+    text,
+    language: 'fr',
+    speakerLabel,
+    startedAt: STARTED_AT + startMs,
+    endedAt: STARTED_AT + endMs,
+    translations,
+  };
+}
+
+function transcript(segments: TranscriptSegment[]): Transcript {
+  return {
+    meetingId: 'meeting-1',
+    tenantId: 'a',
+    meetingUrl: 'https://meet.google.com/abc-defg-hij',
+    status: 'ended',
+    targetLanguages: ['fr', 'ja', 'zh-Hant-TW'],
+    startedAt: STARTED_AT,
+    endedAt: STARTED_AT + 3723004,
+    participants: [],
+    segments,
+  };
+}
+
+describe('transcript formats', () => {
+  const meeting = transcript([
+    segment(
+      1,
+      1234.4,
+      2500.6,
+      'Bonjour à tous',
+      [
+        { language: 'ja', text: '皆さん、こんにちは' },
+        { language: 'zh-Hant-TW', text: '大家好' },
+      ],
+      'Alice'
+    ),
+    // 1時間2分3秒後、翻訳は日本語のみ
+    segment(2, 3723004, 3723100, 'Merci', [
+      { language: 'ja', text: 'ありがとう' },
+    ]),
+  ]);
+
+  describe('toSRT', () => {
+    it('formats hours and rounds to milliseconds', () => {
+      expect(toSRT(meeting, 'original')).toBe(
+        '1\n' +
+          '00:00:01,234 --> 00:00:02,501\n' +
+          'Alice: Bonjour à tous\n' +
+          '\n' +
+          '2\n' +
+          // 最短表示時間 (500ms) まで延ばす
+          '01:02:03,004 --> 01:02:03,504\n' +
+          'Merci\n'
+      );
+    });
+
+    it('writes one track per language and skips untranslated segments', () => {
+      expect(toSRT(meeting, 'ja')).toContain('Alice: 皆さん、こんにちは\n');
+      expect(toSRT(meeting, 'ja')).toContain('2\n01:02:03,004');
+      expect(toSRT(meeting, 'zh-Hant-TW')).toBe(
+        '1\n00:00:01,234 --> 00:00:02,501\nAlice: 大家好\n'
+      );
+      expect(toSRT(meeting, 'fr')).toBe('');
+    });
+  });
+
+  describe('toWebVTT', () => {
+    it('writes the header, dotted timestamps and voice tags', () => {
+      expect(toWebVTT(meeting, 'ja')).toBe(
+        'WEBVTT\n' +
+          '\n' +
+          '00:00:01.234 --> 00:00:02.501\n' +
+          '<v Alice>皆さん、こんにちは\n' +
+          '\n' +
+          '01:02:03.004 --> 01:02:03.504\n' +
+          'ありがとう\n'
+      );
+    });
+
+    it('escapes markup in the text and the speaker', () => {
+      const vtt = toWebVTT(
+        transcript([segment(1, 0, 1000, 'a < b && c --> d', [], 'R&D <team>')]),
+        'original'
+      );
+
+      expect(vtt).toContain(
+        '<v R&amp;D &lt;team&gt;>a &lt; b &amp;&amp; c --&gt; d\n'
+      );
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('lists every translation under its original text', () => {
+      const markdown = toMarkdown(meeting);
+
+      expect(markdown).toContain(
+        '- Languages: French, Japanese, Chinese (Traditional, Taiwan)\n' +
+          '- Participants: Alice\n'
+      );
+      expect(markdown).toContain(
+        '### 00:00:01 — Alice\n' +
+          '\n' +
+          '> Bonjour à tous\n' +
+          '\n' +
+          '- **Japanese**: 皆さん、こんにちは\n' +
+          '\n' +
+          '- **Chinese (Traditional, Taiwan)**: 大家好\n'
+      );
+      expect(markdown).toContain(
+        '### 01:02:03 — Unknown speaker\n' +
+          '\n' +
+          '> Merci\n' +
+          '\n' +
+          '- **Japanese**: ありがとう\n'
+      );
+    });
+
+    it('writes the meeting times in ISO format', () => {
+      const markdown = toMarkdown(meeting);
+
+      expect(markdown).toContain('- Started: 2026-01-15T09:00:00.000Z\n');
+      expect(markdown).toContain('- Ended: 2026-01-15T10:02:03.004Z\n');
+    });
+  });
+});
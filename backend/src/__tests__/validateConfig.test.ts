@@ -0,0 +1,57 @@
+import { config, validateConfig } from '../config';
+
+describe('validateConfig usage quotas', () => {
+  const original = {
+    env: process.env.RECALL_API_KEY,
+    useMockProviders: config.useMockProviders,
+    auth: config.auth.enabled,
+    quotas: { ...config.usage.quotas },
+    tenantQuotas: config.usage.tenantQuotas,
+  };
+
+  beforeEach(() => {
+    process.env.RECALL_API_KEY = 'test';
+    config.useMockProviders = true;
+    config.auth.enabled = false;
+  });
+
+  afterEach(() => {
+    if (original.env === undefined) {
+      delete process.env.RECALL_API_KEY;
+    } else {
+      process.env.RECALL_API_KEY = original.env;
+    }
+    config.useMockProviders = original.useMockProviders;
+    config.auth.enabled = original.auth;
+    Object.assign(config.usage.quotas, original.quotas);
+    config.usage.tenantQuotas = original.tenantQuotas;
+  });
+
+  it('accepts zero and positive quotas', () => {
+    config.usage.quotas.sttSeconds = 0;
+    config.usage.tenantQuotas = { a: { ttsChars: 500000 } };
+
+    expect(() => validateConfig()).not.toThrow();
+  });
+
+  it.each(['toString', 'constructor', 'minutes'])(
+    'rejects the tenant quota metric %s',
+    (metric) => {
+      config.usage.tenantQuotas = { a: { [metric]: 1 } };
+
+      expect(() => validateConfig()).toThrow('Invalid metric in TENANT_QUOTAS');
+    }
+  );
+
+  it.each([NaN, Infinity, -1])('rejects the quota %s', (limit) => {
+    config.usage.quotas.translationChars = limit;
+
+    expect(() => validateConfig()).toThrow('Invalid quota');
+  });
+
+  it.each([NaN, -1])('rejects the tenant quota %s', (limit) => {
+    config.usage.tenantQuotas = { a: { sttSeconds: limit } };
+
+    expect(() => validateConfig()).toThrow('Invalid quota in TENANT_QUOTAS');
+  });
+});
@@ -0,0 +1,116 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { WebSocketServer } from '../services/WebSocketServer';
+
+/**
+ * テスト用のWebSocketクライアント (受信したメッセージを種類ごとに待てる)
+ */
+export class TestClient {
+  readonly messages: any[] = [];
+  // 接続時に受信した 'connected' メッセージ
+  connected: any = null;
+  private ws: WebSocket;
+  private waiters: Array<{
+    type: string;
+    resolve: (message: any) => void;
+  }> = [];
+
+  constructor(ws: WebSocket) {
+    this.ws = ws;
+    ws.on('message', (data, isBinary) => {
+      if (isBinary) {
+        return;
+      }
+
+      const message = JSON.parse(data.toString());
+      this.messages.push(message);
+      this.waiters = this.waiters.filter((waiter) => {
+        if (waiter.type !== message.type) {
+          return true;
+        }
+        waiter.resolve(message);
+        return false;
+      });
+    });
+  }
+
+  /**
+   * JSONメッセージを送信
+   */
+  send(message: object): void {
+    this.ws.send(JSON.stringify(message));
+  }
+
+  /**
+   * 音声チャンクを送信
+   */
+  sendAudio(data: Buffer): void {
+    this.ws.send(data);
+  }
+
+  /**
+   * 指定した種類のメッセージを待つ (受信済みの場合はそれを返す)
+   */
+  next(type: string, timeoutMs: number = 3000): Promise<any> {
+    const received = this.messages.find((message) => message.type === type);
+    if (received) {
+      this.messages.splice(this.messages.indexOf(received), 1);
+      return Promise.resolve(received);
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`Timed out waiting for ${type}`)),
+        timeoutMs
+      );
+      this.waiters.push({
+        type,
+        resolve: (message) => {
+          clearTimeout(timer);
+          this.messages.splice(this.messages.indexOf(message), 1);
+          resolve(message);
+        },
+      });
+    });
+  }
+
+  close(): void {
+    this.ws.close();
+  }
+}
+
+/**
+ * テスト用のWebSocketサーバー
+ */
+export class TestServer {
+  private server: http.Server | null = null;
+  private wsServer: WebSocketServer | null = null;
+  private clients: TestClient[] = [];
+  // 起動したサーバーのURL (ws://127.0.0.1:<port>)
+  url: string = '';
+
+  async start(): Promise<void> {
+    this.server = http.createServer();
+    this.wsServer = new WebSocketServer(this.server);
+    await new Promise<void>((resolve) => this.server!.listen(0, resolve));
+    this.url = `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * クライアントを接続し、'connected' を受信するまで待つ
+   */
+  async connect(headers: Record<string, string> = {}): Promise<TestClient> {
+    const ws = new WebSocket(this.url, { headers });
+    const client = new TestClient(ws);
+    this.clients.push(client);
+    client.connected = await client.next('connected');
+    return client;
+  }
+
+  async stop(): Promise<void> {
+    this.clients.forEach((client) => client.close());
+    this.wsServer?.close();
+    await new Promise((resolve) => this.server?.close(resolve));
+  }
+}
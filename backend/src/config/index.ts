@@ -4,23 +4,115 @@ import path from 'path';
 // 環境変数を読み込み
 dotenv.config();
 
+/**
+ * 言語ごとのボイスプールを読み込む (例: "fr=voiceA,voiceB;ja=voiceC")
+ */
+function parseVoicePools(value?: string): Record<string, string[]> {
+  const pools: Record<string, string[]> = {};
+  (value || '').split(';').forEach((entry) => {
+    const [language, voices] = entry.split('=');
+    if (language?.trim() && voices) {
+      pools[language.trim()] = voices
+        .split(',')
+        .map((voice) => voice.trim())
+        .filter(Boolean);
+    }
+  });
+  return pools;
+}
+
+/**
+ * APIキーを読み込む (例: "alice:host:key1:teamA;kiosk:viewer:key2")
+ * テナントを省略した場合はユーザーIDをテナントとする
+ */
+function parseApiKeys(
+  value?: string
+): Array<{ userId: string; role: string; key: string; tenantId: string }> {
+  return (value || '')
+    .split(';')
+    .map((entry) => entry.split(':').map((part) => part.trim()))
+    .filter(([userId, role, key]) => userId && role && key)
+    .map(([userId, role, key, tenantId]) => ({
+      userId,
+      role,
+      key,
+      tenantId: tenantId || userId,
+    }));
+}
+
+/**
+ * テナントごとのクォータを読み込む (例: "teamA=sttSeconds:36000,ttsChars:500000;teamB=...")
+ */
+function parseTenantQuotas(
+  value?: string
+): Record<string, Record<string, number>> {
+  const quotas: Record<string, Record<string, number>> = {};
+  (value || '').split(';').forEach((entry) => {
+    const [tenantId, limits] = entry.split('=');
+    if (!tenantId?.trim() || !limits) {
+      return;
+    }
+    quotas[tenantId.trim()] = {};
+    limits.split(',').forEach((limit) => {
+      const [metric, amount] = limit.split(':').map((part) => part.trim());
+      if (metric && amount) {
+        quotas[tenantId.trim()][metric] = parseFloat(amount);
+      }
+    });
+  });
+  return quotas;
+}
+
+/**
+ * カンマ区切りのリストを読み込む
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 export const config = {
   // サーバー設定
   port: parseInt(process.env.PORT || '3001', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
 
+  // 外部APIを使わずモックのSTT/翻訳/TTSプロバイダーを使用する
+  useMockProviders: process.env.USE_MOCK_PROVIDERS === 'true',
+
   // Recall.ai API
   recall: {
     apiKey: process.env.RECALL_API_KEY || '',
-    apiUrl: 'https://api.recall.ai/api/v1',
+    apiUrl: process.env.RECALL_API_URL || 'https://api.recall.ai/api/v1',
+    webhookSecret: process.env.RECALL_WEBHOOK_SECRET || '', // ステータス変更Webhookの署名シークレット (whsec_...)
+    botName: process.env.RECALL_BOT_NAME || 'Translator', // 会議に表示されるボットの名前 (再生ボットは "Translator (fr)" など)
+    // ステータスのポーリング (Webhookのフォールバック)
+    statusPoll: {
+      intervalMs: 5000, // Webhook未設定時の間隔
+      webhookFallbackIntervalMs: 30000, // Webhook設定時の間隔
+      maxBackoffMs: 60000, // エラー時のバックオフ上限
+    },
+    realtimeAudioUrl: process.env.RECALL_REALTIME_AUDIO_URL || '', // Recall.ai が参加者別の音声を送るWebSocketのURL (wss://<domain>/ws/recall-audio)
+    audioFrameMs: parseInt(process.env.RECALL_AUDIO_FRAME_MS || '100', 10), // 取り込み音声のフレーム長
+    playbackBitrateKbps: 128, // 再生するTTS音声 (MP3) のビットレート
+    maxPlaybackQueue: parseInt(process.env.RECALL_MAX_PLAYBACK_QUEUE || '10', 10),
+    // 会議チャットへの字幕投稿
+    chat: {
+      batchWindowMs: 2000, // 短いセグメントをまとめる待機時間
+      minBatchChars: 80, // この文字数に達したら待機せず投稿
+      maxMessageLength: 500,
+      minIntervalMs: parseInt(process.env.RECALL_CHAT_MIN_INTERVAL_MS || '1500', 10), // 投稿の最小間隔
+    },
   },
 
   // ElevenLabs API
   elevenlabs: {
     apiKey: process.env.ELEVENLABS_API_KEY || '',
     sttWsUrl: 'wss://api.elevenlabs.io/v1/scribe/realtime',
-    ttsWsUrl: 'wss://api.elevenlabs.io/v1/text-to-speech/stream',
+    ttsWsUrl: 'wss://api.elevenlabs.io/v1/text-to-speech', // /{voice_id}/stream-input
     apiUrl: 'https://api.elevenlabs.io/v1',
+    ttsStreamTimeoutMs: 10000, // ストリーミング合成の最大待ち時間
   },
 
   // Google Cloud Translation
@@ -32,11 +124,36 @@ export const config = {
   // DeepL API (フォールバック)
   deepl: {
     apiKey: process.env.DEEPL_API_KEY || '',
-    apiUrl: 'https://api-free.deepl.com/v2',
+    apiUrl: process.env.DEEPL_API_URL || 'https://api-free.deepl.com/v2',
+  },
+
+  // 翻訳プロバイダーのフェイルオーバー設定
+  translation: {
+    providerTimeoutMs: parseInt(
+      process.env.TRANSLATION_PROVIDER_TIMEOUT_MS || '1500',
+      10
+    ), // この時間内に応答がなければ次のプロバイダーへ
+  },
+
+  // 翻訳・TTS音声のキャッシュ
+  cache: {
+    enabled: process.env.CACHE_ENABLED !== 'false',
+    persistent: process.env.CACHE_PERSISTENT === 'true', // データベースにも保存 (DB_ENABLED=true でない場合はメモリのみ)
+    cleanupIntervalMs: 60 * 60 * 1000, // 期限切れのエントリをデータベースから削除する間隔
+    translation: {
+      maxEntries: parseInt(process.env.TRANSLATION_CACHE_MAX_ENTRIES || '10000', 10),
+      ttlMs: parseInt(process.env.TRANSLATION_CACHE_TTL_MS || '604800000', 10), // デフォルト7日
+    },
+    tts: {
+      maxEntries: 2000,
+      maxBytes: parseInt(process.env.TTS_CACHE_MAX_BYTES || '104857600', 10), // メモリ上の音声の合計 (デフォルト100MB)
+      ttlMs: parseInt(process.env.TTS_CACHE_TTL_MS || '86400000', 10), // デフォルト1日
+    },
   },
 
   // データベース設定
   database: {
+    enabled: process.env.DB_ENABLED === 'true', // true の場合のみPostgreSQLに保存 (未指定の場合はメモリ上に保存)
     host: process.env.DB_HOST || 'localhost',
     port: parseInt(process.env.DB_PORT || '5432', 10),
     name: process.env.DB_NAME || 'meet_translator',
@@ -44,6 +161,120 @@ export const config = {
     password: process.env.DB_PASSWORD || '',
   },
 
+  // 用語集
+  glossary: {
+    cacheTtlMs: 60000, // 翻訳時に使用する用語集のキャッシュ時間
+  },
+
+  // 話者ごとの処理
+  speakers: {
+    maxStreams: parseInt(process.env.MAX_SPEAKER_STREAMS || '6', 10), // 話者ごとのSTT接続数の上限
+  },
+
+  // TTSのボイス
+  tts: {
+    // 話者ごとに割り当てるボイスのプール (言語レジストリの voicePool を上書き)
+    voicePools: parseVoicePools(process.env.TTS_VOICE_POOLS),
+  },
+
+  // 逐次翻訳 (部分認識結果の翻訳)
+  interimTranslation: {
+    debounceMs: parseInt(process.env.INTERIM_TRANSLATION_DEBOUNCE_MS || '400', 10), // 翻訳をまとめる待機時間
+    minGrowthChars: 4, // 前回の逐次翻訳からこの文字数以上増えたら翻訳する
+  },
+
+  // 音声フォーマットの変換 (Opus / MP3 の変換には ffmpeg を使用)
+  audio: {
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    transcodeTimeoutMs: 10000, // 変換の完了を待つ最大時間
+  },
+
+  // 受信した音声チャンクの取り込みキュー
+  audioIngest: {
+    maxQueueDepth: parseInt(process.env.AUDIO_QUEUE_MAX_DEPTH || '50', 10), // 処理待ちの音声チャンク数の上限
+    overflowPolicy: process.env.AUDIO_QUEUE_OVERFLOW_POLICY || 'coalesce', // coalesce / drop_oldest / drop_newest
+    maxCoalescedBytes: 64 * 1024, // 結合後のチャンクの最大サイズ (16kHz PCMで約2秒)
+    highWatermark: 0.8, // 上限に対してこの割合に達したら backpressure を通知
+    lowWatermark: 0.25, // この割合まで減ったら backpressure の解除を通知
+  },
+
+  // 音声区間検出 (無音をSTTに送らず、発話の区切りを検出する)
+  vad: {
+    enabled: process.env.VAD_ENABLED !== 'false',
+    thresholdDb: parseFloat(process.env.VAD_THRESHOLD_DB || '-45'), // この音量 (dBFS) 以上を音声とみなす
+    minSpeechMs: 60, // 発話の開始とみなす音声の長さ
+    preRollMs: 200, // 発話の開始前に含める音声の長さ
+    pauseMs: parseInt(process.env.VAD_PAUSE_MS || '700', 10), // 発話の終了とみなす無音の長さ
+    finalizeTimeoutMs: parseInt(process.env.VAD_FINALIZE_TIMEOUT_MS || '1500', 10), // 発話の終了後に確定結果を待つ時間 (過ぎたら部分結果を確定)
+  },
+
+  // 自身のTTS音声の再認識 (エコー) の抑制
+  echoSuppression: {
+    enabled: process.env.ECHO_SUPPRESSION_ENABLED !== 'false',
+    windowMs: parseInt(process.env.ECHO_WINDOW_MS || '30000', 10), // 照合するTTS出力の期間
+    similarity: parseFloat(process.env.ECHO_SIMILARITY || '0.8'), // 認識結果がTTS出力と一致する割合がこれ以上ならエコーとみなす
+    minChars: 4, // これより短い認識結果は照合しない (相づちなど)
+    maxEntries: 100, // 保持するTTS出力の数
+  },
+
+  // クライアントのセッション (切断からの再開)
+  session: {
+    resumeGraceMs: parseInt(process.env.SESSION_RESUME_GRACE_MS || '30000', 10), // 切断後に会議を維持する時間
+    replayBufferSize: 500, // 再送用に保持するメッセージ数
+    replayBufferBytes: 5 * 1024 * 1024, // 再送用に保持するメッセージの合計サイズ
+  },
+
+  // 認証 (WebSocket接続とREST API)
+  auth: {
+    // 未指定の場合は本番環境でのみ有効
+    enabled: process.env.AUTH_ENABLED
+      ? process.env.AUTH_ENABLED === 'true'
+      : process.env.NODE_ENV === 'production',
+    jwtSecret: process.env.AUTH_JWT_SECRET || '', // JWT (HS256) の署名シークレット
+    jwtIssuer: process.env.AUTH_JWT_ISSUER || '', // 指定した場合は iss を検証
+    jwtAudience: process.env.AUTH_JWT_AUDIENCE || '', // 指定した場合は aud を検証
+    clockToleranceSeconds: 30, // exp / nbf の許容誤差
+    apiKeys: parseApiKeys(process.env.AUTH_API_KEYS),
+    metricsToken: process.env.METRICS_TOKEN || '', // /metrics 用のBearerトークン (未設定の場合は管理者のみ)
+  },
+
+  // CORS・WebSocketで許可するオリジン ("*" はすべて許可)
+  cors: {
+    origins: parseList(
+      process.env.CORS_ORIGINS ||
+        (process.env.NODE_ENV === 'production' ? '' : '*')
+    ),
+  },
+
+  // 利用量の計測とクォータ
+  usage: {
+    flushIntervalMs: 10000, // 利用量をまとめて保存する間隔
+    // 月間のクォータ (0 は無制限)
+    quotas: {
+      sttSeconds: parseFloat(process.env.QUOTA_STT_SECONDS || '0'),
+      translationChars: parseFloat(process.env.QUOTA_TRANSLATION_CHARS || '0'),
+      ttsChars: parseFloat(process.env.QUOTA_TTS_CHARS || '0'),
+    },
+    tenantQuotas: parseTenantQuotas(process.env.TENANT_QUOTAS), // テナントごとの上書き
+  },
+
+  // テナントごとのレート制限 (トークンバケット、perMinute が 0 の場合は無制限)
+  rateLimit: {
+    // REST API のリクエスト
+    http: {
+      perMinute: parseInt(process.env.RATE_LIMIT_HTTP_PER_MINUTE || '300', 10),
+      burst: parseInt(process.env.RATE_LIMIT_HTTP_BURST || '60', 10),
+    },
+    // WebSocket の start_meeting
+    startMeeting: {
+      perMinute: parseInt(
+        process.env.RATE_LIMIT_START_MEETING_PER_MINUTE || '10',
+        10
+      ),
+      burst: parseInt(process.env.RATE_LIMIT_START_MEETING_BURST || '5', 10),
+    },
+  },
+
   // ログ設定
   logging: {
     level: process.env.LOG_LEVEL || 'info',
@@ -60,11 +291,9 @@ export const config = {
 
 // 必須の環境変数チェック
 export function validateConfig(): void {
-  const requiredVars = [
-    'RECALL_API_KEY',
-    'ELEVENLABS_API_KEY',
-    'GOOGLE_PROJECT_ID',
-  ];
+  const requiredVars = config.useMockProviders
+    ? ['RECALL_API_KEY']
+    : ['RECALL_API_KEY', 'ELEVENLABS_API_KEY', 'GOOGLE_PROJECT_ID'];
 
   const missing = requiredVars.filter((varName) => !process.env[varName]);
 
@@ -73,4 +302,85 @@ export function validateConfig(): void {
       `Missing required environment variables: ${missing.join(', ')}`
     );
   }
+
+  if (config.auth.enabled) {
+    if (!config.auth.jwtSecret && config.auth.apiKeys.length === 0) {
+      throw new Error(
+        'Authentication is enabled but neither AUTH_JWT_SECRET nor AUTH_API_KEYS is set'
+      );
+    }
+
+    const invalidRoles = config.auth.apiKeys
+      .map((apiKey) => apiKey.role)
+      .filter((role) => !['host', 'viewer', 'admin'].includes(role));
+    if (invalidRoles.length > 0) {
+      throw new Error(
+        `Invalid role in AUTH_API_KEYS: ${invalidRoles.join(', ')}`
+      );
+    }
+  }
+
+  if (
+    config.recall.realtimeAudioUrl &&
+    !/^wss?:\/\/[^/]+/.test(config.recall.realtimeAudioUrl)
+  ) {
+    throw new Error(
+      `Invalid RECALL_REALTIME_AUDIO_URL: ${config.recall.realtimeAudioUrl}`
+    );
+  }
+
+  for (const [name, limit] of Object.entries(config.rateLimit)) {
+    if (
+      !Number.isInteger(limit.perMinute) ||
+      limit.perMinute < 0 ||
+      !Number.isInteger(limit.burst) ||
+      limit.burst < 1
+    ) {
+      throw new Error(`Invalid rate limit for ${name}`);
+    }
+  }
+
+  if (
+    !['coalesce', 'drop_oldest', 'drop_newest'].includes(
+      config.audioIngest.overflowPolicy
+    )
+  ) {
+    throw new Error(
+      `Invalid AUDIO_QUEUE_OVERFLOW_POLICY: ${config.audioIngest.overflowPolicy}`
+    );
+  }
+
+  const { similarity } = config.echoSuppression;
+  if (!(similarity > 0 && similarity <= 1)) {
+    throw new Error(`Invalid ECHO_SIMILARITY: ${similarity}`);
+  }
+
+  const invalidMetrics = Object.values(config.usage.tenantQuotas)
+    .flatMap((limits) => Object.keys(limits))
+    .filter(
+      (metric) =>
+        !Object.prototype.hasOwnProperty.call(config.usage.quotas, metric)
+    );
+  if (invalidMetrics.length > 0) {
+    throw new Error(
+      `Invalid metric in TENANT_QUOTAS: ${invalidMetrics.join(', ')}`
+    );
+  }
+
+  // 数値でないクォータは無制限として扱われてしまうため起動しない
+  const isValidQuota = (limit: number) => Number.isFinite(limit) && limit >= 0;
+  for (const [metric, limit] of Object.entries(config.usage.quotas)) {
+    if (!isValidQuota(limit)) {
+      throw new Error(`Invalid quota for ${metric}: ${limit}`);
+    }
+  }
+  for (const [tenantId, limits] of Object.entries(config.usage.tenantQuotas)) {
+    for (const [metric, limit] of Object.entries(limits)) {
+      if (!isValidQuota(limit)) {
+        throw new Error(
+          `Invalid quota in TENANT_QUOTAS for ${tenantId}: ${metric}=${limit}`
+        );
+      }
+    }
+  }
 }
@@ -0,0 +1,164 @@
+/**
+ * 言語レジストリ
+ * 対応言語ごとの BCP-47 コード、表示名、各プロバイダーの言語コード、デフォルトのボイスを管理する
+ * 言語を追加する場合はここにエントリを追加する
+ */
+
+// 言語ごとのデフォルトのTTSボイス
+export interface LanguageVoice {
+  voiceId: string;
+  stability: number;
+  similarityBoost: number;
+}
+
+// 言語定義
+export interface LanguageDefinition {
+  code: string; // BCP-47 コード
+  displayName: string; // 表示名 (英語)
+  nativeName: string; // 表示名 (その言語での名称)
+  aliases: string[]; // STTなどが返す別表記 (大文字小文字は区別しない)
+  spaceDelimited: boolean; // 単語を空白で区切るか (用語集の用語を単語単位で照合する)
+  providers: {
+    google: string; // Google Cloud Translation の言語コード
+    deepl: { source: string; target: string }; // DeepL の翻訳元/翻訳先言語コード
+    elevenlabs: string; // ElevenLabs STT の言語コード (ISO 639-3)
+  };
+  voice: LanguageVoice; // ElevenLabs TTS のデフォルトボイス
+  voicePool: string[]; // 2人目以降の話者に順に割り当てるボイスID
+}
+
+export const LANGUAGES = {
+  ja: {
+    code: 'ja',
+    displayName: 'Japanese',
+    nativeName: '日本語',
+    aliases: ['ja-JP', 'jpn'],
+    spaceDelimited: false,
+    providers: {
+      google: 'ja',
+      deepl: { source: 'JA', target: 'JA' },
+      elevenlabs: 'jpn',
+    },
+    voice: {
+      voiceId: 'EXAVITQu4vr4xnSDxMaL',
+      stability: 0.5,
+      similarityBoost: 0.75,
+    },
+    voicePool: [
+      '21m00Tcm4TlvDq8ikWAM',
+      'TxGEqnHWrfWFTfGW9XjT',
+      'MF3mGyEYCl7XYWbV9V6O',
+      'ErXwobaYiN019PkySvjV',
+    ],
+  },
+  'zh-Hant-TW': {
+    code: 'zh-Hant-TW',
+    displayName: 'Chinese (Traditional, Taiwan)',
+    nativeName: '繁體中文 (台灣)',
+    aliases: ['zh-TW', 'zh-Hant', 'cmn-Hant-TW'],
+    spaceDelimited: false,
+    providers: {
+      google: 'zh-TW',
+      // 翻訳元では字体を指定できない
+      deepl: { source: 'ZH', target: 'ZH-HANT' },
+      elevenlabs: 'cmn',
+    },
+    voice: {
+      voiceId: 'pNInz6obpgDQGcFmaJgB',
+      stability: 0.5,
+      similarityBoost: 0.75,
+    },
+    voicePool: [
+      'EXAVITQu4vr4xnSDxMaL',
+      'ErXwobaYiN019PkySvjV',
+      '21m00Tcm4TlvDq8ikWAM',
+      'TxGEqnHWrfWFTfGW9XjT',
+    ],
+  },
+  fr: {
+    code: 'fr',
+    displayName: 'French',
+    nativeName: 'Français',
+    aliases: ['fr-FR', 'fra'],
+    spaceDelimited: true,
+    providers: {
+      google: 'fr',
+      deepl: { source: 'FR', target: 'FR' },
+      elevenlabs: 'fra',
+    },
+    voice: {
+      voiceId: 'ThT5KcBeYPX3keUQqHPh',
+      stability: 0.5,
+      similarityBoost: 0.75,
+    },
+    voicePool: [
+      'ErXwobaYiN019PkySvjV',
+      '21m00Tcm4TlvDq8ikWAM',
+      'TxGEqnHWrfWFTfGW9XjT',
+      'MF3mGyEYCl7XYWbV9V6O',
+    ],
+  },
+} satisfies Record<string, LanguageDefinition>;
+
+// サポートされる言語
+export type SupportedLanguage = keyof typeof LANGUAGES;
+
+// サポートされる言語の一覧
+export const SUPPORTED_LANGUAGES = Object.keys(
+  LANGUAGES
+) as SupportedLanguage[];
+
+// 別表記 (小文字) -> 言語
+const aliasIndex: Map<string, SupportedLanguage> = new Map();
+for (const language of SUPPORTED_LANGUAGES) {
+  const definition: LanguageDefinition = LANGUAGES[language];
+  const codes = [
+    definition.code,
+    definition.providers.google,
+    definition.providers.elevenlabs,
+    ...definition.aliases,
+  ];
+  codes.forEach((code) => aliasIndex.set(code.toLowerCase(), language));
+}
+
+/**
+ * サポートされる言語かどうか
+ */
+export function isSupportedLanguage(code: unknown): code is SupportedLanguage {
+  return (
+    typeof code === 'string' &&
+    Object.prototype.hasOwnProperty.call(LANGUAGES, code)
+  );
+}
+
+/**
+ * 言語定義を取得
+ */
+export function getLanguage(language: SupportedLanguage): LanguageDefinition {
+  return LANGUAGES[language];
+}
+
+/**
+ * 外部の言語コードをサポートされる言語に解決 (解決できない場合は null)
+ * 完全一致がなければ、地域指定のない言語に限り主言語サブタグで照合する (例: fr-CA -> fr)
+ */
+export function resolveLanguage(
+  code: string | null | undefined
+): SupportedLanguage | null {
+  if (!code) {
+    return null;
+  }
+
+  const normalized = code.trim().replace(/_/g, '-').toLowerCase();
+  const exact = aliasIndex.get(normalized);
+  if (exact) {
+    return exact;
+  }
+
+  const primary = normalized.split('-')[0];
+  return (
+    SUPPORTED_LANGUAGES.find(
+      (language) => LANGUAGES[language].code.toLowerCase() === primary
+    ) ?? null
+  );
+}
@@ -0,0 +1,195 @@
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+
+// マイグレーション用のアドバイザリロックのキー (他の用途のロックと重ならない任意の値)
+const MIGRATION_LOCK_ID = 4187220509;
+
+/**
+ * マイグレーション定義
+ * 適用済みのものは schema_migrations テーブルに記録される (追加のみ、既存の変更は禁止)
+ */
+interface Migration {
+  id: string;
+  up: string;
+}
+
+const migrations: Migration[] = [
+  {
+    id: '001_glossaries',
+    up: `
+      CREATE TABLE glossaries (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        languages TEXT[] NOT NULL,
+        native_glossaries JSONB NOT NULL DEFAULT '{}',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+
+      CREATE TABLE glossary_entries (
+        id SERIAL PRIMARY KEY,
+        glossary_id TEXT NOT NULL REFERENCES glossaries(id) ON DELETE CASCADE,
+        terms JSONB NOT NULL
+      );
+
+      CREATE INDEX glossary_entries_glossary_id_idx
+        ON glossary_entries (glossary_id);
+    `,
+  },
+  {
+    id: '002_meetings',
+    up: `
+      CREATE TABLE meetings (
+        id TEXT PRIMARY KEY,
+        meeting_url TEXT NOT NULL,
+        bot_id TEXT,
+        status TEXT NOT NULL DEFAULT 'active',
+        target_languages TEXT[] NOT NULL,
+        started_at TIMESTAMPTZ NOT NULL,
+        ended_at TIMESTAMPTZ
+      );
+
+      CREATE INDEX meetings_started_at_idx ON meetings (started_at);
+
+      CREATE TABLE participants (
+        meeting_id TEXT NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        speaker_id TEXT NOT NULL,
+        label TEXT NOT NULL,
+        joined_at TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (meeting_id, speaker_id)
+      );
+
+      CREATE TABLE transcript_segments (
+        id SERIAL PRIMARY KEY,
+        meeting_id TEXT NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        sequence INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        language TEXT NOT NULL,
+        speaker_id TEXT,
+        speaker_label TEXT,
+        started_at TIMESTAMPTZ NOT NULL,
+        ended_at TIMESTAMPTZ NOT NULL,
+        UNIQUE (meeting_id, sequence)
+      );
+
+      CREATE TABLE translations (
+        segment_id INTEGER NOT NULL
+          REFERENCES transcript_segments(id) ON DELETE CASCADE,
+        language TEXT NOT NULL,
+        text TEXT NOT NULL,
+        provider TEXT,
+        PRIMARY KEY (segment_id, language)
+      );
+
+      CREATE TABLE latency_samples (
+        id SERIAL PRIMARY KEY,
+        meeting_id TEXT NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+        stt_ms INTEGER NOT NULL,
+        translation_ms INTEGER NOT NULL,
+        tts_ms INTEGER NOT NULL,
+        total_ms INTEGER NOT NULL,
+        recorded_at TIMESTAMPTZ NOT NULL
+      );
+
+      CREATE INDEX latency_samples_meeting_id_idx
+        ON latency_samples (meeting_id);
+    `,
+  },
+  {
+    id: '003_usage',
+    up: `
+      CREATE TABLE usage_records (
+        tenant_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        metric TEXT NOT NULL,
+        period_start TIMESTAMPTZ NOT NULL,
+        amount DOUBLE PRECISION NOT NULL DEFAULT 0,
+        PRIMARY KEY (tenant_id, user_id, metric, period_start)
+      );
+
+      CREATE INDEX usage_records_period_start_idx
+        ON usage_records (period_start);
+    `,
+  },
+  {
+    id: '004_cache',
+    up: `
+      CREATE TABLE cache_entries (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value BYTEA NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL,
+        PRIMARY KEY (namespace, key)
+      );
+
+      CREATE INDEX cache_entries_expires_at_idx
+        ON cache_entries (expires_at);
+    `,
+  },
+  {
+    // 既存の会議・用語集は認証無効時のテナント (default) に割り当てる
+    id: '005_tenants',
+    up: `
+      ALTER TABLE meetings ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+      ALTER TABLE meetings ALTER COLUMN tenant_id DROP DEFAULT;
+
+      CREATE INDEX meetings_tenant_id_idx ON meetings (tenant_id, started_at);
+
+      ALTER TABLE glossaries ADD COLUMN tenant_id TEXT NOT NULL DEFAULT 'default';
+      ALTER TABLE glossaries ALTER COLUMN tenant_id DROP DEFAULT;
+
+      CREATE INDEX glossaries_tenant_id_idx ON glossaries (tenant_id);
+    `,
+  },
+];
+
+/**
+ * 未適用のマイグレーションを順番に適用
+ * 複数のインスタンスが同時に起動しても二重に適用しないよう、アドバイザリロックを取得した
+ * 1つのトランザクション内で確認・適用する (失敗した場合はすべて取り消す)
+ */
+export async function runMigrations(pool: Pool): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    // トランザクションの終了時に解放される
+    await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_ID]);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        id TEXT PRIMARY KEY,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+
+    const { rows } = await client.query<{ id: string }>(
+      'SELECT id FROM schema_migrations'
+    );
+    const applied = new Set(rows.map((row) => row.id));
+
+    const pending = migrations.filter(
+      (migration) => !applied.has(migration.id)
+    );
+    for (const migration of pending) {
+      try {
+        await client.query(migration.up);
+        await client.query('INSERT INTO schema_migrations (id) VALUES ($1)', [
+          migration.id,
+        ]);
+      } catch (error) {
+        logger.error('Migration failed', { id: migration.id, error });
+        throw error;
+      }
+    }
+
+    await client.query('COMMIT');
+    pending.forEach((migration) => {
+      logger.info('Applied migration', { id: migration.id });
+    });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,37 @@
+import { Pool } from 'pg';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+let pool: Pool | null = null;
+
+/**
+ * PostgreSQL接続プールを取得 (初回呼び出し時に作成)
+ */
+export function getPool(): Pool {
+  if (!pool) {
+    pool = new Pool({
+      host: config.database.host,
+      port: config.database.port,
+      database: config.database.name,
+      user: config.database.user,
+      password: config.database.password,
+    });
+
+    pool.on('error', (error) => {
+      logger.error('Unexpected PostgreSQL pool error', { error });
+    });
+  }
+
+  return pool;
+}
+
+/**
+ * 接続プールを閉じる
+ */
+export async function closePool(): Promise<void> {
+  if (pool) {
+    const current = pool;
+    pool = null;
+    await current.end();
+  }
+}
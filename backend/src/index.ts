@@ -1,8 +1,26 @@
 import express from 'express';
 import http from 'http';
 import { config, validateConfig } from './config';
+import { LANGUAGES, SUPPORTED_LANGUAGES } from './config/languages';
 import { logger } from './utils/logger';
 import { WebSocketServer } from './services/WebSocketServer';
+import { createRecallWebhookRouter } from './routes/recallWebhook';
+import { createGlossaryRouter } from './routes/glossaries';
+import { getGlossaryService } from './services/GlossaryService';
+import { createTranscriptRouter } from './routes/transcripts';
+import {
+  createCorsMiddleware,
+  requireRole,
+  requireMetricsAccess,
+  limitRequests,
+} from './routes/auth';
+import { createUsageRouter } from './routes/usage';
+import { getUsageService } from './services/UsageService';
+import { getTranscriptService } from './services/TranscriptService';
+import { getMetricsService } from './services/MetricsService';
+import { PROMETHEUS_CONTENT_TYPE } from './utils/prometheus';
+import { getPool, closePool } from './db/pool';
+import { runMigrations } from './db/migrations';
 
 /**
  * アプリケーションのメインエントリーポイント
@@ -13,22 +31,29 @@ async function main() {
     logger.info('Validating configuration...');
     validateConfig();
 
+    // データベースのマイグレーション
+    if (config.database.enabled) {
+      logger.info('Running database migrations...');
+      await runMigrations(getPool());
+
+      // 前回のプロセスで終了処理されなかった会議を中断扱いにする
+      await getTranscriptService().interruptActiveMeetings();
+    } else {
+      logger.warn('Database is disabled, data will be kept in memory only');
+    }
+
     // Expressアプリケーションの作成
     const app = express();
 
+    // Recall.ai Webhook (署名検証のため生のボディを扱うので先にマウント)
+    app.use('/webhooks/recall', createRecallWebhookRouter());
+
     // ミドルウェア設定
     app.use(express.json());
     app.use(express.urlencoded({ extended: true }));
 
-    // CORS設定
-    app.use((req, res, next) => {
-      res.header('Access-Control-Allow-Origin', '*');
-      res.header(
-        'Access-Control-Allow-Headers',
-        'Origin, X-Requested-With, Content-Type, Accept'
-      );
-      next();
-    });
+    // CORS設定 (CORS_ORIGINS で許可したオリジンのみ)
+    app.use(createCorsMiddleware());
 
     // ヘルスチェックエンドポイント
     app.get('/health', (req, res) => {
@@ -39,6 +64,11 @@ async function main() {
       });
     });
 
+    // Prometheusメトリクス (METRICS_TOKEN または管理者の認証が必要)
+    app.get('/metrics', requireMetricsAccess(), (req, res) => {
+      res.type(PROMETHEUS_CONTENT_TYPE).send(getMetricsService().render());
+    });
+
     // APIエンドポイント
     app.get('/api/status', (req, res) => {
       res.json({
@@ -48,6 +78,41 @@ async function main() {
       });
     });
 
+    // 対応言語
+    app.get('/api/languages', (req, res) => {
+      res.json({
+        languages: SUPPORTED_LANGUAGES.map((language) => ({
+          code: language,
+          displayName: LANGUAGES[language].displayName,
+          nativeName: LANGUAGES[language].nativeName,
+        })),
+      });
+    });
+
+    // 用語集管理API (参照はホスト、更新は管理者のみ)
+    app.use(
+      '/api/glossaries',
+      requireRole('host', 'admin'),
+      limitRequests(),
+      createGlossaryRouter(getGlossaryService())
+    );
+
+    // 文字起こしAPI
+    app.use(
+      '/api/transcripts',
+      requireRole('host'),
+      limitRequests(),
+      createTranscriptRouter(getTranscriptService())
+    );
+
+    // 利用量API
+    app.use(
+      '/api/usage',
+      requireRole('host'),
+      limitRequests(),
+      createUsageRouter(getUsageService())
+    );
+
     // HTTPサーバーの作成
     const server = http.createServer(app);
 
@@ -59,6 +124,11 @@ async function main() {
       logger.info(`Server started on port ${config.port}`);
       logger.info(`Environment: ${config.nodeEnv}`);
       logger.info(`WebSocket endpoint: ws://localhost:${config.port}`);
+      if (!config.auth.enabled) {
+        logger.warn(
+          'Authentication is disabled, all clients have admin access'
+        );
+      }
     });
 
     // グレースフルシャットダウン
@@ -67,8 +137,12 @@ async function main() {
 
       wsServer.close();
 
-      server.close(() => {
+      server.close(async () => {
         logger.info('Server closed');
+        await getUsageService()
+          .close()
+          .catch((error) => logger.error('Failed to save usage', { error }));
+        await closePool();
         process.exit(0);
       });
 
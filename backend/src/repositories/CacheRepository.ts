@@ -0,0 +1,25 @@
+/**
+ * 保存されたキャッシュの値
+ */
+export interface StoredCacheEntry {
+  value: Buffer;
+  expiresAt: number;
+}
+
+/**
+ * キャッシュリポジトリ (翻訳・TTS音声のキャッシュの永続化)
+ * メモリ上のキャッシュの下の層として使用する (データベース無効時は使用しない)
+ */
+export interface CacheRepository {
+  // 期限切れの値は返さない
+  get(namespace: string, key: string): Promise<StoredCacheEntry | null>;
+  // 同じキーの値は置き換える
+  set(
+    namespace: string,
+    key: string,
+    value: Buffer,
+    expiresAt: number
+  ): Promise<void>;
+  // 期限切れの値を削除し、削除した件数を返す
+  deleteExpired(): Promise<number>;
+}
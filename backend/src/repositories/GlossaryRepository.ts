@@ -0,0 +1,102 @@
+import { Glossary, GlossaryEntry } from '../types';
+
+// 用語集の作成パラメータ
+export type NewGlossary = Omit<Glossary, 'createdAt' | 'updatedAt'>;
+
+// 用語集の更新パラメータ
+export type GlossaryChanges = Partial<
+  Pick<Glossary, 'name' | 'languages' | 'entries' | 'nativeGlossaries'>
+>;
+
+/**
+ * 用語集リポジトリ
+ * 用語集IDはテナントをまたいで一意 (一覧のみテナントで絞り込める)
+ */
+export interface GlossaryRepository {
+  list(tenantId?: string): Promise<Glossary[]>;
+  get(id: string): Promise<Glossary | null>;
+  create(glossary: NewGlossary): Promise<Glossary>;
+  update(id: string, changes: GlossaryChanges): Promise<Glossary | null>;
+  addEntries(id: string, entries: GlossaryEntry[]): Promise<Glossary | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * メモリ上の用語集リポジトリ (データベース無効時・テスト用)
+ */
+export class InMemoryGlossaryRepository implements GlossaryRepository {
+  private glossaries: Map<string, Glossary> = new Map();
+
+  async list(tenantId?: string): Promise<Glossary[]> {
+    return [...this.glossaries.values()]
+      .filter(
+        (glossary) => tenantId === undefined || glossary.tenantId === tenantId
+      )
+      .map((glossary) => this.copy(glossary));
+  }
+
+  async get(id: string): Promise<Glossary | null> {
+    const glossary = this.glossaries.get(id);
+    return glossary ? this.copy(glossary) : null;
+  }
+
+  async create(glossary: NewGlossary): Promise<Glossary> {
+    if (this.glossaries.has(glossary.id)) {
+      throw new Error(`Glossary already exists: ${glossary.id}`);
+    }
+
+    const now = Date.now();
+    const created: Glossary = {
+      ...this.copy({ ...glossary, createdAt: now, updatedAt: now }),
+      nativeGlossaries: glossary.nativeGlossaries ?? {},
+    };
+    this.glossaries.set(glossary.id, created);
+
+    return this.copy(created);
+  }
+
+  async update(id: string, changes: GlossaryChanges): Promise<Glossary | null> {
+    const current = this.glossaries.get(id);
+    if (!current) {
+      return null;
+    }
+
+    // 指定されていない (undefined の) 項目は変更しない
+    const defined = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    );
+    const updated = this.copy({
+      ...current,
+      ...defined,
+      updatedAt: Date.now(),
+    });
+    this.glossaries.set(id, updated);
+
+    return this.copy(updated);
+  }
+
+  async addEntries(
+    id: string,
+    entries: GlossaryEntry[]
+  ): Promise<Glossary | null> {
+    const current = this.glossaries.get(id);
+    if (!current) {
+      return null;
+    }
+
+    return this.update(id, { entries: [...current.entries, ...entries] });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.glossaries.delete(id);
+  }
+
+  private copy(glossary: Glossary): Glossary {
+    return {
+      ...glossary,
+      languages: [...glossary.languages],
+      entries: glossary.entries.map((entry) => ({ terms: { ...entry.terms } })),
+      nativeGlossaries: { ...glossary.nativeGlossaries },
+    };
+  }
+}
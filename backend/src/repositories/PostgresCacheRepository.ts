@@ -0,0 +1,55 @@
+import { Pool } from 'pg';
+import { CacheRepository, StoredCacheEntry } from './CacheRepository';
+
+/**
+ * PostgreSQLのキャッシュリポジトリ
+ */
+export class PostgresCacheRepository implements CacheRepository {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async get(namespace: string, key: string): Promise<StoredCacheEntry | null> {
+    const { rows } = await this.pool.query<{
+      value: Buffer;
+      expires_at: Date;
+    }>(
+      `SELECT value, expires_at FROM cache_entries
+       WHERE namespace = $1 AND key = $2 AND expires_at > now()`,
+      [namespace, key]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return {
+      value: rows[0].value,
+      expiresAt: rows[0].expires_at.getTime(),
+    };
+  }
+
+  async set(
+    namespace: string,
+    key: string,
+    value: Buffer,
+    expiresAt: number
+  ): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO cache_entries (namespace, key, value, expires_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (namespace, key)
+       DO UPDATE SET value = EXCLUDED.value, expires_at = EXCLUDED.expires_at`,
+      [namespace, key, value, new Date(expiresAt)]
+    );
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await this.pool.query(
+      'DELETE FROM cache_entries WHERE expires_at <= now()'
+    );
+    return result.rowCount ?? 0;
+  }
+}
@@ -0,0 +1,208 @@
+import { Pool, PoolClient } from 'pg';
+import { Glossary, GlossaryEntry, SupportedLanguage } from '../types';
+import {
+  GlossaryRepository,
+  GlossaryChanges,
+  NewGlossary,
+} from './GlossaryRepository';
+
+interface GlossaryRow {
+  id: string;
+  tenant_id: string;
+  name: string;
+  languages: string[];
+  native_glossaries: Record<string, string>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * PostgreSQLの用語集リポジトリ
+ */
+export class PostgresGlossaryRepository implements GlossaryRepository {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async list(tenantId?: string): Promise<Glossary[]> {
+    const { rows } = await this.pool.query<GlossaryRow>(
+      `SELECT * FROM glossaries WHERE ($1::text IS NULL OR tenant_id = $1)
+       ORDER BY id`,
+      [tenantId ?? null]
+    );
+
+    const entries = await this.pool.query<{
+      glossary_id: string;
+      terms: GlossaryEntry['terms'];
+    }>(
+      `SELECT e.glossary_id, e.terms FROM glossary_entries e
+       JOIN glossaries g ON g.id = e.glossary_id
+       WHERE ($1::text IS NULL OR g.tenant_id = $1)
+       ORDER BY e.id`,
+      [tenantId ?? null]
+    );
+
+    return rows.map((row) =>
+      this.toGlossary(
+        row,
+        entries.rows
+          .filter((entry) => entry.glossary_id === row.id)
+          .map((entry) => ({ terms: entry.terms }))
+      )
+    );
+  }
+
+  async get(id: string): Promise<Glossary | null> {
+    return this.getWith(this.pool, id);
+  }
+
+  async create(glossary: NewGlossary): Promise<Glossary> {
+    return this.transaction(async (client) => {
+      await client.query(
+        `INSERT INTO glossaries (id, tenant_id, name, languages, native_glossaries)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [
+          glossary.id,
+          glossary.tenantId,
+          glossary.name,
+          glossary.languages,
+          JSON.stringify(glossary.nativeGlossaries ?? {}),
+        ]
+      );
+      await this.insertEntries(client, glossary.id, glossary.entries);
+
+      return (await this.getWith(client, glossary.id))!;
+    });
+  }
+
+  async update(id: string, changes: GlossaryChanges): Promise<Glossary | null> {
+    return this.transaction(async (client) => {
+      const { rowCount } = await client.query(
+        `UPDATE glossaries SET
+           name = COALESCE($2, name),
+           languages = COALESCE($3, languages),
+           native_glossaries = COALESCE($4, native_glossaries),
+           updated_at = now()
+         WHERE id = $1`,
+        [
+          id,
+          changes.name ?? null,
+          changes.languages ?? null,
+          changes.nativeGlossaries
+            ? JSON.stringify(changes.nativeGlossaries)
+            : null,
+        ]
+      );
+
+      if (!rowCount) {
+        return null;
+      }
+
+      if (changes.entries) {
+        await client.query(
+          'DELETE FROM glossary_entries WHERE glossary_id = $1',
+          [id]
+        );
+        await this.insertEntries(client, id, changes.entries);
+      }
+
+      return this.getWith(client, id);
+    });
+  }
+
+  async addEntries(
+    id: string,
+    entries: GlossaryEntry[]
+  ): Promise<Glossary | null> {
+    return this.transaction(async (client) => {
+      const { rowCount } = await client.query(
+        'UPDATE glossaries SET updated_at = now() WHERE id = $1',
+        [id]
+      );
+
+      if (!rowCount) {
+        return null;
+      }
+
+      await this.insertEntries(client, id, entries);
+      return this.getWith(client, id);
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { rowCount } = await this.pool.query(
+      'DELETE FROM glossaries WHERE id = $1',
+      [id]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  private async getWith(
+    client: Pool | PoolClient,
+    id: string
+  ): Promise<Glossary | null> {
+    const { rows } = await client.query<GlossaryRow>(
+      'SELECT * FROM glossaries WHERE id = $1',
+      [id]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const entries = await client.query<{ terms: GlossaryEntry['terms'] }>(
+      'SELECT terms FROM glossary_entries WHERE glossary_id = $1 ORDER BY id',
+      [id]
+    );
+
+    return this.toGlossary(
+      rows[0],
+      entries.rows.map((entry) => ({ terms: entry.terms }))
+    );
+  }
+
+  private async insertEntries(
+    client: PoolClient,
+    glossaryId: string,
+    entries: GlossaryEntry[]
+  ): Promise<void> {
+    for (const entry of entries) {
+      await client.query(
+        'INSERT INTO glossary_entries (glossary_id, terms) VALUES ($1, $2)',
+        [glossaryId, JSON.stringify(entry.terms)]
+      );
+    }
+  }
+
+  private async transaction<T>(
+    fn: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private toGlossary(row: GlossaryRow, entries: GlossaryEntry[]): Glossary {
+    return {
+      id: row.id,
+      tenantId: row.tenant_id,
+      name: row.name,
+      languages: row.languages as SupportedLanguage[],
+      entries,
+      nativeGlossaries: row.native_glossaries,
+      createdAt: row.created_at.getTime(),
+      updatedAt: row.updated_at.getTime(),
+    };
+  }
+}
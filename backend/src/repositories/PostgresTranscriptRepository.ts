@@ -0,0 +1,328 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  Transcript,
+  TranscriptSegment,
+  TranscriptSummary,
+  TranscriptParticipant,
+  LatencySample,
+  MeetingStatus,
+  SupportedLanguage,
+  DetectedLanguage,
+} from '../types';
+import {
+  TranscriptRepository,
+  NewTranscript,
+  NewTranscriptSegment,
+} from './TranscriptRepository';
+
+interface MeetingRow {
+  id: string;
+  tenant_id: string;
+  meeting_url: string;
+  bot_id: string | null;
+  status: MeetingStatus;
+  target_languages: string[];
+  started_at: Date;
+  ended_at: Date | null;
+}
+
+interface SegmentRow {
+  id: number;
+  sequence: number;
+  text: string;
+  language: string;
+  speaker_id: string | null;
+  speaker_label: string | null;
+  started_at: Date;
+  ended_at: Date;
+}
+
+interface TranslationRow {
+  segment_id: number;
+  language: string;
+  text: string;
+  provider: string | null;
+}
+
+/**
+ * PostgreSQLの文字起こしリポジトリ
+ */
+export class PostgresTranscriptRepository implements TranscriptRepository {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async list(tenantId?: string): Promise<TranscriptSummary[]> {
+    const { rows } = await this.pool.query<MeetingRow>(
+      `SELECT * FROM meetings WHERE ($1::text IS NULL OR tenant_id = $1)
+       ORDER BY started_at DESC`,
+      [tenantId ?? null]
+    );
+    return rows.map((row) => this.toSummary(row));
+  }
+
+  async get(meetingId: string, tenantId?: string): Promise<Transcript | null> {
+    return this.getWith(this.pool, meetingId, tenantId);
+  }
+
+  async create(transcript: NewTranscript): Promise<Transcript> {
+    await this.pool.query(
+      `INSERT INTO meetings
+         (id, tenant_id, meeting_url, bot_id, target_languages, started_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        transcript.meetingId,
+        transcript.tenantId,
+        transcript.meetingUrl,
+        transcript.botId ?? null,
+        transcript.targetLanguages,
+        new Date(transcript.startedAt),
+      ]
+    );
+
+    return (await this.get(transcript.meetingId))!;
+  }
+
+  async addSegment(
+    meetingId: string,
+    segment: NewTranscriptSegment
+  ): Promise<TranscriptSegment | null> {
+    return this.transaction(async (client) => {
+      // 連番を採番するため会議の行をロック
+      const meeting = await client.query(
+        'SELECT id FROM meetings WHERE id = $1 FOR UPDATE',
+        [meetingId]
+      );
+      if (meeting.rows.length === 0) {
+        return null;
+      }
+
+      const { rows } = await client.query<{ id: number; sequence: number }>(
+        `INSERT INTO transcript_segments
+           (meeting_id, sequence, text, language, speaker_id, speaker_label, started_at, ended_at)
+         SELECT $1, COALESCE(MAX(sequence), 0) + 1, $2, $3, $4, $5,
+                $6::timestamptz, $7::timestamptz
+         FROM transcript_segments WHERE meeting_id = $1
+         RETURNING id, sequence`,
+        [
+          meetingId,
+          segment.text,
+          segment.language,
+          segment.speakerId ?? null,
+          segment.speakerLabel ?? null,
+          new Date(segment.startedAt),
+          new Date(segment.endedAt),
+        ]
+      );
+
+      for (const translation of segment.translations) {
+        await client.query(
+          `INSERT INTO translations (segment_id, language, text, provider)
+           VALUES ($1, $2, $3, $4)`,
+          [
+            rows[0].id,
+            translation.language,
+            translation.text,
+            translation.provider ?? null,
+          ]
+        );
+      }
+
+      return {
+        ...segment,
+        sequence: rows[0].sequence,
+        translations: segment.translations.map((t) => ({ ...t })),
+      };
+    });
+  }
+
+  async saveParticipant(
+    meetingId: string,
+    participant: TranscriptParticipant
+  ): Promise<boolean> {
+    const { rowCount } = await this.pool.query(
+      `INSERT INTO participants (meeting_id, speaker_id, label, joined_at)
+       SELECT id, $2, $3, $4::timestamptz FROM meetings WHERE id = $1
+       ON CONFLICT (meeting_id, speaker_id) DO UPDATE SET label = EXCLUDED.label`,
+      [
+        meetingId,
+        participant.speakerId,
+        participant.label,
+        new Date(participant.joinedAt),
+      ]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async addLatencySample(
+    meetingId: string,
+    sample: LatencySample
+  ): Promise<boolean> {
+    const { rowCount } = await this.pool.query(
+      `INSERT INTO latency_samples
+         (meeting_id, stt_ms, translation_ms, tts_ms, total_ms, recorded_at)
+       SELECT id, $2::integer, $3::integer, $4::integer, $5::integer,
+              $6::timestamptz
+       FROM meetings WHERE id = $1`,
+      [
+        meetingId,
+        Math.round(sample.sttLatency),
+        Math.round(sample.translationLatency),
+        Math.round(sample.ttsLatency),
+        Math.round(sample.totalLatency),
+        new Date(sample.recordedAt),
+      ]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async getLatencySamples(
+    meetingId: string,
+    tenantId?: string
+  ): Promise<LatencySample[] | null> {
+    const meeting = await this.pool.query(
+      'SELECT id FROM meetings WHERE id = $1 AND ($2::text IS NULL OR tenant_id = $2)',
+      [meetingId, tenantId ?? null]
+    );
+    if (meeting.rows.length === 0) {
+      return null;
+    }
+
+    const { rows } = await this.pool.query<{
+      stt_ms: number;
+      translation_ms: number;
+      tts_ms: number;
+      total_ms: number;
+      recorded_at: Date;
+    }>('SELECT * FROM latency_samples WHERE meeting_id = $1 ORDER BY id', [
+      meetingId,
+    ]);
+
+    return rows.map((row) => ({
+      sttLatency: row.stt_ms,
+      translationLatency: row.translation_ms,
+      ttsLatency: row.tts_ms,
+      totalLatency: row.total_ms,
+      recordedAt: row.recorded_at.getTime(),
+    }));
+  }
+
+  async finish(meetingId: string, endedAt: number): Promise<boolean> {
+    const { rowCount } = await this.pool.query(
+      `UPDATE meetings SET status = 'ended', ended_at = $2 WHERE id = $1`,
+      [meetingId, new Date(endedAt)]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+
+  async interruptActive(endedAt: number): Promise<number> {
+    const { rowCount } = await this.pool.query(
+      `UPDATE meetings SET status = 'interrupted', ended_at = $1
+       WHERE status = 'active'`,
+      [new Date(endedAt)]
+    );
+    return rowCount ?? 0;
+  }
+
+  private async getWith(
+    client: Pool | PoolClient,
+    meetingId: string,
+    tenantId?: string
+  ): Promise<Transcript | null> {
+    const { rows } = await client.query<MeetingRow>(
+      'SELECT * FROM meetings WHERE id = $1 AND ($2::text IS NULL OR tenant_id = $2)',
+      [meetingId, tenantId ?? null]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const participants = await client.query<{
+      speaker_id: string;
+      label: string;
+      joined_at: Date;
+    }>('SELECT * FROM participants WHERE meeting_id = $1 ORDER BY joined_at', [
+      meetingId,
+    ]);
+
+    const segments = await client.query<SegmentRow>(
+      'SELECT * FROM transcript_segments WHERE meeting_id = $1 ORDER BY sequence',
+      [meetingId]
+    );
+
+    const translations = await client.query<TranslationRow>(
+      `SELECT t.* FROM translations t
+       JOIN transcript_segments s ON s.id = t.segment_id
+       WHERE s.meeting_id = $1`,
+      [meetingId]
+    );
+
+    return {
+      ...this.toSummary(rows[0]),
+      participants: participants.rows.map((row) => ({
+        speakerId: row.speaker_id,
+        label: row.label,
+        joinedAt: row.joined_at.getTime(),
+      })),
+      segments: segments.rows.map((row) =>
+        this.toSegment(
+          row,
+          translations.rows.filter((t) => t.segment_id === row.id)
+        )
+      ),
+    };
+  }
+
+  private async transaction<T>(
+    fn: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private toSummary(row: MeetingRow): TranscriptSummary {
+    return {
+      meetingId: row.id,
+      tenantId: row.tenant_id,
+      meetingUrl: row.meeting_url,
+      botId: row.bot_id ?? undefined,
+      status: row.status,
+      targetLanguages: row.target_languages as SupportedLanguage[],
+      startedAt: row.started_at.getTime(),
+      endedAt: row.ended_at?.getTime(),
+    };
+  }
+
+  private toSegment(
+    row: SegmentRow,
+    translations: TranslationRow[]
+  ): TranscriptSegment {
+    return {
+      sequence: row.sequence,
+      text: row.text,
+      language: row.language as DetectedLanguage,
+      speakerId: row.speaker_id ?? undefined,
+      speakerLabel: row.speaker_label ?? undefined,
+      startedAt: row.started_at.getTime(),
+      endedAt: row.ended_at.getTime(),
+      translations: translations.map((t) => ({
+        language: t.language as SupportedLanguage,
+        text: t.text,
+        provider: t.provider ?? undefined,
+      })),
+    };
+  }
+}
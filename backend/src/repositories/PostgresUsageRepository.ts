@@ -0,0 +1,72 @@
+import { Pool } from 'pg';
+import { UsageMetric } from '../types';
+import {
+  UsageRepository,
+  UsageEntry,
+  UsageSummaryRow,
+  emptyUsage,
+} from './UsageRepository';
+
+/**
+ * PostgreSQLの利用量リポジトリ
+ */
+export class PostgresUsageRepository implements UsageRepository {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async add(entries: UsageEntry[]): Promise<void> {
+    for (const entry of entries) {
+      await this.pool.query(
+        `INSERT INTO usage_records (tenant_id, user_id, metric, period_start, amount)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (tenant_id, user_id, metric, period_start)
+         DO UPDATE SET amount = usage_records.amount + EXCLUDED.amount`,
+        [
+          entry.tenantId,
+          entry.userId,
+          entry.metric,
+          new Date(entry.periodStart),
+          entry.amount,
+        ]
+      );
+    }
+  }
+
+  async summarize(
+    from: number,
+    to: number,
+    tenantId?: string
+  ): Promise<UsageSummaryRow[]> {
+    const { rows } = await this.pool.query<{
+      tenant_id: string;
+      user_id: string;
+      metric: UsageMetric;
+      amount: number;
+    }>(
+      `SELECT tenant_id, user_id, metric, SUM(amount)::float8 AS amount
+       FROM usage_records
+       WHERE period_start >= $1 AND period_start < $2
+         AND ($3::text IS NULL OR tenant_id = $3)
+       GROUP BY tenant_id, user_id, metric
+       ORDER BY tenant_id, user_id`,
+      [new Date(from), new Date(to), tenantId ?? null]
+    );
+
+    const summaries: Map<string, UsageSummaryRow> = new Map();
+    rows.forEach((row) => {
+      const key = `${row.tenant_id}\u0000${row.user_id}`;
+      const summary = summaries.get(key) ?? {
+        tenantId: row.tenant_id,
+        userId: row.user_id,
+        usage: emptyUsage(),
+      };
+      summary.usage[row.metric] = row.amount;
+      summaries.set(key, summary);
+    });
+
+    return [...summaries.values()];
+  }
+}
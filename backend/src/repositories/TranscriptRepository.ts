@@ -0,0 +1,215 @@
+import {
+  Transcript,
+  TranscriptSegment,
+  TranscriptSummary,
+  TranscriptParticipant,
+  LatencySample,
+} from '../types';
+
+// 文字起こしの作成パラメータ
+export type NewTranscript = Omit<TranscriptSummary, 'status' | 'endedAt'>;
+
+// セグメントの追加パラメータ (連番はリポジトリが採番)
+export type NewTranscriptSegment = Omit<TranscriptSegment, 'sequence'>;
+
+/**
+ * 文字起こしリポジトリ
+ * 会議・参加者・発話セグメント・翻訳・レイテンシを保存する
+ * 参照時に tenantId を指定した場合は、そのテナントの会議のみを対象とする
+ */
+export interface TranscriptRepository {
+  list(tenantId?: string): Promise<TranscriptSummary[]>;
+  get(meetingId: string, tenantId?: string): Promise<Transcript | null>;
+  create(transcript: NewTranscript): Promise<Transcript>;
+  addSegment(
+    meetingId: string,
+    segment: NewTranscriptSegment
+  ): Promise<TranscriptSegment | null>;
+  saveParticipant(
+    meetingId: string,
+    participant: TranscriptParticipant
+  ): Promise<boolean>;
+  addLatencySample(meetingId: string, sample: LatencySample): Promise<boolean>;
+  getLatencySamples(
+    meetingId: string,
+    tenantId?: string
+  ): Promise<LatencySample[] | null>;
+  finish(meetingId: string, endedAt: number): Promise<boolean>;
+  // 進行中のまま残っている会議を中断扱いにする (件数を返す)
+  interruptActive(endedAt: number): Promise<number>;
+}
+
+interface StoredTranscript {
+  transcript: Transcript;
+  latency: LatencySample[];
+}
+
+/**
+ * メモリ上の文字起こしリポジトリ (データベース無効時・テスト用)
+ * 上限を超えた場合は終了済みの古い会議から削除する
+ */
+export class InMemoryTranscriptRepository implements TranscriptRepository {
+  private transcripts: Map<string, StoredTranscript> = new Map();
+  private maxTranscripts: number;
+
+  constructor(maxTranscripts: number = 100) {
+    this.maxTranscripts = maxTranscripts;
+  }
+
+  async list(tenantId?: string): Promise<TranscriptSummary[]> {
+    return [...this.transcripts.values()]
+      .filter(({ transcript }) => this.isVisible(transcript, tenantId))
+      .map(({ transcript: { participants, segments, ...summary } }) => ({
+        ...summary,
+        targetLanguages: [...summary.targetLanguages],
+      }));
+  }
+
+  async get(meetingId: string, tenantId?: string): Promise<Transcript | null> {
+    const stored = this.transcripts.get(meetingId);
+    return stored && this.isVisible(stored.transcript, tenantId)
+      ? this.copy(stored.transcript)
+      : null;
+  }
+
+  async create(transcript: NewTranscript): Promise<Transcript> {
+    if (this.transcripts.has(transcript.meetingId)) {
+      throw new Error(`Transcript already exists: ${transcript.meetingId}`);
+    }
+
+    this.evict();
+
+    const created: Transcript = {
+      ...transcript,
+      status: 'active',
+      targetLanguages: [...transcript.targetLanguages],
+      participants: [],
+      segments: [],
+    };
+    this.transcripts.set(transcript.meetingId, {
+      transcript: created,
+      latency: [],
+    });
+
+    return this.copy(created);
+  }
+
+  async addSegment(
+    meetingId: string,
+    segment: NewTranscriptSegment
+  ): Promise<TranscriptSegment | null> {
+    const transcript = this.transcripts.get(meetingId)?.transcript;
+    if (!transcript) {
+      return null;
+    }
+
+    const added: TranscriptSegment = {
+      ...segment,
+      sequence: transcript.segments.length + 1,
+      translations: segment.translations.map((t) => ({ ...t })),
+    };
+    transcript.segments.push(added);
+
+    return { ...added };
+  }
+
+  async saveParticipant(
+    meetingId: string,
+    participant: TranscriptParticipant
+  ): Promise<boolean> {
+    const transcript = this.transcripts.get(meetingId)?.transcript;
+    if (!transcript) {
+      return false;
+    }
+
+    const existing = transcript.participants.find(
+      (p) => p.speakerId === participant.speakerId
+    );
+    if (existing) {
+      existing.label = participant.label;
+    } else {
+      transcript.participants.push({ ...participant });
+    }
+
+    return true;
+  }
+
+  async addLatencySample(
+    meetingId: string,
+    sample: LatencySample
+  ): Promise<boolean> {
+    const stored = this.transcripts.get(meetingId);
+    if (!stored) {
+      return false;
+    }
+
+    stored.latency.push({ ...sample });
+    return true;
+  }
+
+  async getLatencySamples(
+    meetingId: string,
+    tenantId?: string
+  ): Promise<LatencySample[] | null> {
+    const stored = this.transcripts.get(meetingId);
+    return stored && this.isVisible(stored.transcript, tenantId)
+      ? stored.latency.map((sample) => ({ ...sample }))
+      : null;
+  }
+
+  async finish(meetingId: string, endedAt: number): Promise<boolean> {
+    const transcript = this.transcripts.get(meetingId)?.transcript;
+    if (!transcript) {
+      return false;
+    }
+
+    transcript.status = 'ended';
+    transcript.endedAt = endedAt;
+    return true;
+  }
+
+  async interruptActive(endedAt: number): Promise<number> {
+    let count = 0;
+    for (const { transcript } of this.transcripts.values()) {
+      if (transcript.status === 'active') {
+        transcript.status = 'interrupted';
+        transcript.endedAt = endedAt;
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 上限に達している場合、終了済みの最も古い文字起こしを削除
+   */
+  private evict(): void {
+    if (this.transcripts.size < this.maxTranscripts) {
+      return;
+    }
+
+    const oldest = [...this.transcripts.values()]
+      .map(({ transcript }) => transcript)
+      .filter((transcript) => transcript.status !== 'active')
+      .sort((a, b) => a.startedAt - b.startedAt)[0];
+    if (oldest) {
+      this.transcripts.delete(oldest.meetingId);
+    }
+  }
+
+  private isVisible(transcript: Transcript, tenantId?: string): boolean {
+    return tenantId === undefined || transcript.tenantId === tenantId;
+  }
+
+  private copy(transcript: Transcript): Transcript {
+    return {
+      ...transcript,
+      targetLanguages: [...transcript.targetLanguages],
+      participants: transcript.participants.map((p) => ({ ...p })),
+      segments: transcript.segments.map((segment) => ({
+        ...segment,
+        translations: segment.translations.map((t) => ({ ...t })),
+      })),
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import { UsageMetric, UsageTotals } from '../types';
+
+// 1時間単位に集計した利用量
+export interface UsageEntry {
+  tenantId: string;
+  userId: string;
+  metric: UsageMetric;
+  periodStart: number; // 集計期間 (1時間) の開始時刻
+  amount: number;
+}
+
+// テナント・ユーザーごとの利用量の合計
+export interface UsageSummaryRow {
+  tenantId: string;
+  userId: string;
+  usage: UsageTotals;
+}
+
+/**
+ * 利用量リポジトリ
+ */
+export interface UsageRepository {
+  // 同じテナント・ユーザー・項目・期間の利用量は加算する
+  add(entries: UsageEntry[]): Promise<void>;
+  // 期間の開始時刻が from 以上 to 未満の利用量を合計する
+  summarize(
+    from: number,
+    to: number,
+    tenantId?: string
+  ): Promise<UsageSummaryRow[]>;
+}
+
+/**
+ * 空の利用量
+ */
+export function emptyUsage(): UsageTotals {
+  return { sttSeconds: 0, translationChars: 0, ttsChars: 0 };
+}
+
+/**
+ * メモリ上の利用量リポジトリ (データベース無効時・テスト用)
+ */
+export class InMemoryUsageRepository implements UsageRepository {
+  private entries: Map<string, UsageEntry> = new Map();
+
+  async add(entries: UsageEntry[]): Promise<void> {
+    entries.forEach((entry) => {
+      const key = [
+        entry.tenantId,
+        entry.userId,
+        entry.metric,
+        entry.periodStart,
+      ].join('\u0000');
+      const existing = this.entries.get(key);
+      if (existing) {
+        existing.amount += entry.amount;
+      } else {
+        this.entries.set(key, { ...entry });
+      }
+    });
+  }
+
+  async summarize(
+    from: number,
+    to: number,
+    tenantId?: string
+  ): Promise<UsageSummaryRow[]> {
+    const rows: Map<string, UsageSummaryRow> = new Map();
+
+    for (const entry of this.entries.values()) {
+      if (
+        entry.periodStart < from ||
+        entry.periodStart >= to ||
+        (tenantId && entry.tenantId !== tenantId)
+      ) {
+        continue;
+      }
+
+      const key = `${entry.tenantId}\u0000${entry.userId}`;
+      const row = rows.get(key) ?? {
+        tenantId: entry.tenantId,
+        userId: entry.userId,
+        usage: emptyUsage(),
+      };
+      row.usage[entry.metric] += entry.amount;
+      rows.set(key, row);
+    }
+
+    return [...rows.values()];
+  }
+}
@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../config';
+import {
+  getAuthService,
+  hasRole,
+  credentialFrom,
+  isOriginAllowed,
+} from '../services/AuthService';
+import { getRateLimiter } from '../services/RateLimiter';
+import { auditRejection } from '../utils/audit';
+import { AuthUser, UserRole, TranslationError } from '../types';
+import { sendRouteError } from './httpErrors';
+
+/**
+ * CORSミドルウェアを作成
+ * 許可されたオリジンのみに Access-Control-Allow-Origin を返す
+ */
+export function createCorsMiddleware(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.headers.origin;
+
+    if (config.cors.origins.includes('*')) {
+      res.header('Access-Control-Allow-Origin', '*');
+    } else if (origin && isOriginAllowed(origin)) {
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Vary', 'Origin');
+    }
+
+    res.header(
+      'Access-Control-Allow-Headers',
+      'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-API-Key'
+    );
+    res.header(
+      'Access-Control-Allow-Methods',
+      'GET, POST, PUT, DELETE, OPTIONS'
+    );
+
+    // プリフライトリクエストは認証せずに応答
+    if (req.method === 'OPTIONS') {
+      res.status(204).end();
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * 認証と役割の確認を行うミドルウェアを作成
+ * 参照 (GET/HEAD) と更新で必要な役割を分けられる
+ * 認証されたユーザーは res.locals.user に設定する
+ */
+export function requireRole(
+  readRole: UserRole,
+  writeRole: UserRole = readRole
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const context = {
+      channel: 'http' as const,
+      ip: req.ip,
+      path: `${req.method} ${req.originalUrl.split('?')[0]}`,
+      origin: req.headers.origin,
+    };
+
+    let user;
+    try {
+      user = getAuthService().authenticate(credentialFrom(req));
+    } catch (error) {
+      if (error instanceof TranslationError) {
+        sendRouteError(res, auditRejection(error, context));
+      } else {
+        sendRouteError(res, error);
+      }
+      return;
+    }
+
+    const required =
+      req.method === 'GET' || req.method === 'HEAD' ? readRole : writeRole;
+    if (!hasRole(user, required)) {
+      sendRouteError(
+        res,
+        auditRejection(
+          new TranslationError(`Requires ${required} role`, 'FORBIDDEN'),
+          { ...context, userId: user.id, role: user.role }
+        )
+      );
+      return;
+    }
+
+    res.locals.user = user;
+    next();
+  };
+}
+
+/**
+ * テナントごとのリクエスト数を制限するミドルウェアを作成
+ * 超過した場合は 429 と Retry-After を返す (requireRole の後に使用すること)
+ */
+export function limitRequests(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user: AuthUser = res.locals.user;
+    try {
+      getRateLimiter('http').consume(user.tenantId);
+    } catch (error) {
+      if (error instanceof TranslationError) {
+        res.setHeader('Retry-After', String(error.details.retryAfterSeconds));
+      }
+      sendRouteError(res, error);
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * 認証されたユーザーが参照できるテナントを取得
+ * 管理者はすべてのテナントを参照できるため undefined (requireRole の後に使用すること)
+ */
+export function tenantScope(res: Response): string | undefined {
+  const user: AuthUser = res.locals.user;
+  return hasRole(user, 'admin') ? undefined : user.tenantId;
+}
+
+/**
+ * メトリクスの取得を認可するミドルウェアを作成
+ * METRICS_TOKEN と一致するBearerトークン、または管理者の認証情報を受け付ける
+ */
+export function requireMetricsAccess(): RequestHandler {
+  const requireAdmin = requireRole('admin');
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = config.auth.metricsToken;
+    const credential = credentialFrom(req);
+    if (token && credential && isSameSecret(credential, token)) {
+      next();
+      return;
+    }
+
+    requireAdmin(req, res, next);
+  };
+}
+
+/**
+ * シークレットを比較 (長さに依存しないようハッシュ同士を比較)
+ */
+function isSameSecret(a: string, b: string): boolean {
+  const digest = (value: string) =>
+    crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
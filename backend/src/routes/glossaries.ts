@@ -0,0 +1,112 @@
+import express, { Router, Request, Response } from 'express';
+import { GlossaryService, DelimitedFormat } from '../services/GlossaryService';
+import { AuthUser } from '../types';
+import { sendRouteError } from './httpErrors';
+import { tenantScope } from './auth';
+
+/**
+ * 用語集管理APIのルーターを作成
+ * 管理者はすべてのテナント、それ以外は自分のテナントの用語集のみ参照できる
+ * (requireRole の後にマウントすること)
+ */
+export function createGlossaryRouter(glossaries: GlossaryService): Router {
+  const router = Router();
+
+  // 一覧
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      res.json({ glossaries: await glossaries.list(tenantScope(res)) });
+    } catch (error) {
+      sendRouteError(res, error);
+    }
+  });
+
+  // 作成
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const user: AuthUser = res.locals.user;
+      res
+        .status(201)
+        .json(await glossaries.create(req.body ?? {}, user.tenantId));
+    } catch (error) {
+      sendRouteError(res, error);
+    }
+  });
+
+  // 取得 (?format=csv|tsv でエクスポート)
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const glossary = await glossaries.get(req.params.id, tenantScope(res));
+      const format = parseFormat(req.query.format);
+
+      if (format) {
+        res
+          .type(format === 'tsv' ? 'text/tab-separated-values' : 'text/csv')
+          .attachment(`${glossary.id}.${format}`)
+          .send(glossaries.exportDelimited(glossary, format));
+        return;
+      }
+
+      res.json(glossary);
+    } catch (error) {
+      sendRouteError(res, error);
+    }
+  });
+
+  // 更新
+  router.put('/:id', async (req: Request, res: Response) => {
+    try {
+      res.json(
+        await glossaries.update(req.params.id, req.body ?? {}, tenantScope(res))
+      );
+    } catch (error) {
+      sendRouteError(res, error);
+    }
+  });
+
+  // 削除
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      await glossaries.delete(req.params.id, tenantScope(res));
+      res.status(204).end();
+    } catch (error) {
+      sendRouteError(res, error);
+    }
+  });
+
+  // CSV/TSV インポート (?format=csv|tsv&mode=append|replace)
+  router.post(
+    '/:id/import',
+    express.text({
+      type: ['text/*', 'application/csv'],
+      limit: '5mb',
+    }),
+    async (req: Request, res: Response) => {
+      try {
+        const format =
+          parseFormat(req.query.format) ??
+          (req.is('text/tab-separated-values') ? 'tsv' : 'csv');
+        const mode = req.query.mode === 'replace' ? 'replace' : 'append';
+        const body = typeof req.body === 'string' ? req.body : '';
+
+        const { glossary, imported } = await glossaries.importDelimited(
+          req.params.id,
+          body,
+          format,
+          mode,
+          tenantScope(res)
+        );
+
+        res.json({ imported, glossary });
+      } catch (error) {
+        sendRouteError(res, error);
+      }
+    }
+  );
+
+  return router;
+}
+
+function parseFormat(value: unknown): DelimitedFormat | undefined {
+  return value === 'csv' || value === 'tsv' ? value : undefined;
+}
@@ -0,0 +1,44 @@
+import { Response } from 'express';
+import { logger } from '../utils/logger';
+import { getMetricsService } from '../services/MetricsService';
+import { TranslationError } from '../types';
+
+/**
+ * エラーコードからHTTPステータスを決定
+ */
+function statusFor(code: string): number {
+  if (code.endsWith('_NOT_FOUND')) return 404;
+  if (code.endsWith('_ALREADY_EXISTS')) return 409;
+  if (code.startsWith('INVALID_')) return 400;
+  if (code.startsWith('AUTH_')) return 401;
+  if (code === 'FORBIDDEN' || code === 'ORIGIN_NOT_ALLOWED') return 403;
+  if (code === 'RATE_LIMITED') return 429;
+  return 500;
+}
+
+/**
+ * ルートで発生したエラーをJSONで返す
+ */
+export function sendRouteError(res: Response, error: unknown): void {
+  if (error instanceof TranslationError) {
+    const status = statusFor(error.code);
+    getMetricsService().countError(
+      status === 401 || status === 403 ? 'auth' : 'http',
+      error.code
+    );
+    if (status >= 500) {
+      logger.error('Request failed', { error });
+    }
+    res.status(status).json({
+      error: error.message,
+      code: error.code,
+      // 認証・認可エラーは監査ログと照合するためのIDを返す
+      ...(error.details?.auditId ? { auditId: error.details.auditId } : {}),
+    });
+    return;
+  }
+
+  logger.error('Request failed', { error });
+  getMetricsService().countError('http');
+  res.status(500).json({ error: 'Internal server error' });
+}
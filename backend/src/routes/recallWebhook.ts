@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import express, { Router, Request, Response } from 'express';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { RecallAI, RecallBotStatus } from '../services/RecallAI';
+
+// 署名タイムスタンプの許容誤差 (秒)
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Recall.ai ステータス変更Webhookのルーターを作成
+ * 署名検証に生のボディが必要なため、express.json() より前にマウントすること
+ */
+export function createRecallWebhookRouter(): Router {
+  const router = Router();
+
+  router.post(
+    '/',
+    express.raw({ type: '*/*' }),
+    (req: Request, res: Response) => {
+      if (!config.recall.webhookSecret) {
+        res.status(503).json({ error: 'Recall webhooks are not configured' });
+        return;
+      }
+
+      const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+      if (!verifySignature(req, rawBody, config.recall.webhookSecret)) {
+        logger.warn('Rejected Recall webhook with invalid signature', {
+          ip: req.ip,
+        });
+        res.status(401).json({ error: 'Invalid signature' });
+        return;
+      }
+
+      let payload: any;
+      try {
+        payload = JSON.parse(rawBody.toString('utf8'));
+      } catch (error) {
+        res.status(400).json({ error: 'Invalid JSON payload' });
+        return;
+      }
+
+      const botId: string | undefined =
+        payload.data?.bot_id ?? payload.data?.bot?.id;
+      const status = extractStatus(payload);
+
+      if (!botId || !status) {
+        // ステータス変更以外のイベントは受理のみ
+        res.status(204).end();
+        return;
+      }
+
+      const bot = RecallAI.findByBotId(botId);
+      if (!bot) {
+        logger.debug('Recall webhook for unknown bot', { botId });
+        res.status(204).end();
+        return;
+      }
+
+      bot.handleStatusChange(status, 'webhook');
+      res.status(204).end();
+    }
+  );
+
+  return router;
+}
+
+/**
+ * Webhookペイロードからステータスを取り出す
+ */
+function extractStatus(payload: any): RecallBotStatus | null {
+  // 旧形式: { event: 'bot.status_change', data: { bot_id, status: {...} } }
+  if (payload.event === 'bot.status_change' && payload.data?.status?.code) {
+    return payload.data.status;
+  }
+
+  // 新形式: { event: 'bot.<code>', data: { bot: {...}, data: { code, ... } } }
+  const data = payload.data?.data;
+  if (
+    typeof payload.event === 'string' &&
+    payload.event.startsWith('bot.') &&
+    data?.code
+  ) {
+    return {
+      code: data.code,
+      sub_code: data.sub_code,
+      message: data.message,
+      created_at: data.updated_at ?? data.created_at,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Svix形式の署名を検証
+ * 署名対象は `${id}.${timestamp}.${body}`、シークレットは whsec_<base64>
+ */
+function verifySignature(
+  req: Request,
+  rawBody: Buffer,
+  secret: string
+): boolean {
+  const id = req.header('webhook-id') ?? req.header('svix-id');
+  const timestamp =
+    req.header('webhook-timestamp') ?? req.header('svix-timestamp');
+  const signatureHeader =
+    req.header('webhook-signature') ?? req.header('svix-signature');
+
+  if (!id || !timestamp || !signatureHeader) {
+    return false;
+  }
+
+  const sentAt = parseInt(timestamp, 10);
+  if (
+    isNaN(sentAt) ||
+    Math.abs(Date.now() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS
+  ) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const expected = crypto
+    .createHmac('sha256', key)
+    .update(`${id}.${timestamp}.`)
+    .update(rawBody)
+    .digest();
+
+  // 複数の署名がスペース区切りで送られる場合がある ("v1,<base64> v1,<base64>")
+  return signatureHeader.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature) {
+      return false;
+    }
+
+    const received = Buffer.from(signature, 'base64');
+    return (
+      received.length === expected.length &&
+      crypto.timingSafeEqual(received, expected)
+    );
+  });
+}
@@ -0,0 +1,124 @@
+import { Router, Request, Response } from 'express';
+import { TranscriptService } from '../services/TranscriptService';
+import {
+  TranscriptTrack,
+  toSRT,
+  toWebVTT,
+  toMarkdown,
+} from '../utils/transcriptFormats';
+import { isSupportedLanguage } from '../config/languages';
+import { TranslationError } from '../types';
+import { sendRouteError } from './httpErrors';
+import { tenantScope } from './auth';
+
+type ExportFormat = 'srt' | 'vtt' | 'json' | 'md';
+
+const EXPORT_FORMATS: ExportFormat[] = ['srt', 'vtt', 'json', 'md'];
+
+/**
+ * 文字起こしAPIのルーターを作成
+ * 管理者はすべてのテナント、それ以外は自分のテナントの会議のみ参照できる
+ * (requireRole の後にマウントすること)
+ */
+export function createTranscriptRouter(transcripts: TranscriptService): Router {
+  const router = Router();
+
+  // 一覧
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      res.json({ transcripts: await transcripts.list(tenantScope(res)) });
+    } catch (error) {
+      sendRouteError(res, error);
+    }
+  });
+
+  // 取得
+  router.get('/:meetingId', async (req: Request, res: Response) => {
+    try {
+      res.json(await transcripts.get(req.params.meetingId, tenantScope(res)));
+    } catch (error) {
+      sendRouteError(res, error);
+    }
+  });
+
+  // レイテンシの記録と集計
+  router.get('/:meetingId/latency', async (req: Request, res: Response) => {
+    try {
+      res.json(
+        await transcripts.getLatency(req.params.meetingId, tenantScope(res))
+      );
+    } catch (error) {
+      sendRouteError(res, error);
+    }
+  });
+
+  // エクスポート (?format=srt|vtt|json|md&language=<言語コード>|original)
+  router.get('/:meetingId/export', async (req: Request, res: Response) => {
+    try {
+      const format = parseExportFormat(req.query.format);
+      const transcript = await transcripts.get(
+        req.params.meetingId,
+        tenantScope(res)
+      );
+      const filename = `transcript-${transcript.meetingId}`;
+
+      if (format === 'json') {
+        res.attachment(`${filename}.json`).json(transcript);
+        return;
+      }
+
+      if (format === 'md') {
+        res
+          .type('text/markdown')
+          .attachment(`${filename}.md`)
+          .send(toMarkdown(transcript));
+        return;
+      }
+
+      const track = parseTrack(req.query.language);
+      if (format === 'srt') {
+        res
+          .type('application/x-subrip')
+          .attachment(`${filename}.${track}.srt`)
+          .send(toSRT(transcript, track));
+      } else {
+        res
+          .type('text/vtt')
+          .attachment(`${filename}.${track}.vtt`)
+          .send(toWebVTT(transcript, track));
+      }
+    } catch (error) {
+      sendRouteError(res, error);
+    }
+  });
+
+  return router;
+}
+
+function parseExportFormat(value: unknown): ExportFormat {
+  if (value === undefined) {
+    return 'json';
+  }
+
+  if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+    throw new TranslationError(
+      `Unsupported export format: ${value}`,
+      'INVALID_FORMAT'
+    );
+  }
+  return value as ExportFormat;
+}
+
+function parseTrack(value: unknown): TranscriptTrack {
+  if (value === undefined || value === 'original') {
+    return 'original';
+  }
+
+  if (!isSupportedLanguage(value)) {
+    throw new TranslationError(
+      `Unsupported language: ${value}`,
+      'INVALID_LANGUAGE'
+    );
+  }
+  return value;
+}
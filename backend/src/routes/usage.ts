@@ -0,0 +1,78 @@
+import { Router, Request, Response } from 'express';
+import { UsageService, monthStart } from '../services/UsageService';
+import { hasRole } from '../services/AuthService';
+import { auditRejection } from '../utils/audit';
+import { AuthUser, TranslationError } from '../types';
+import { sendRouteError } from './httpErrors';
+
+/**
+ * 利用量APIのルーターを作成
+ * 管理者はすべてのテナント、それ以外は自分のテナントの利用量のみ参照できる
+ * (requireRole の後にマウントすること)
+ */
+export function createUsageRouter(usage: UsageService): Router {
+  const router = Router();
+
+  // 期間内の利用量 (?from=&to=&tenantId=、デフォルトは今月)
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const user: AuthUser = res.locals.user;
+      const now = Date.now();
+      const from = parseTime(req.query.from, monthStart(now));
+      const to = parseTime(req.query.to, now);
+      if (from >= to) {
+        throw new TranslationError(
+          '"from" must be earlier than "to"',
+          'INVALID_RANGE'
+        );
+      }
+
+      const requested =
+        typeof req.query.tenantId === 'string' ? req.query.tenantId : undefined;
+      if (!hasRole(user, 'admin') && requested && requested !== user.tenantId) {
+        throw auditRejection(
+          new TranslationError(
+            'Cannot read usage of another tenant',
+            'FORBIDDEN'
+          ),
+          {
+            channel: 'http',
+            ip: req.ip,
+            path: `GET ${req.originalUrl.split('?')[0]}`,
+            userId: user.id,
+            role: user.role,
+          }
+        );
+      }
+      const tenantId = hasRole(user, 'admin') ? requested : user.tenantId;
+
+      res.json({
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        tenants: await usage.report(from, to, tenantId),
+      });
+    } catch (error) {
+      sendRouteError(res, error);
+    }
+  });
+
+  return router;
+}
+
+/**
+ * ISO 8601 またはエポックミリ秒の時刻を読み込む
+ */
+function parseTime(value: unknown, defaultValue: number): number {
+  if (value === undefined) {
+    return defaultValue;
+  }
+
+  const time =
+    typeof value === 'string' && /^\d+$/.test(value)
+      ? parseInt(value, 10)
+      : Date.parse(String(value));
+  if (Number.isNaN(time)) {
+    throw new TranslationError(`Invalid time: ${value}`, 'INVALID_RANGE');
+  }
+  return time;
+}
@@ -0,0 +1,190 @@
+import { EventEmitter } from 'events';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { getMetricsService } from './MetricsService';
+import { AudioChunk, BackpressureState } from '../types';
+
+type IngestQueueOptions = typeof config.audioIngest;
+
+/**
+ * 音声チャンクの取り込みキュー
+ * 受信したチャンクを1つずつ順番に処理し、処理が追いつかない場合は上限を超えた分を
+ * 設定に従って結合または破棄する
+ *
+ * - coalesce: 同じ話者の最後のチャンクに結合する (結合できない場合は最も古いチャンクを破棄)
+ * - drop_oldest: 最も古いチャンクを破棄する
+ * - drop_newest: 受信したチャンクを破棄する
+ *
+ * 処理待ちの数が上限の highWatermark に達すると 'backpressure' (active: true) を、
+ * lowWatermark まで減ると 'backpressure' (active: false) を通知する
+ */
+export class AudioIngestQueue extends EventEmitter {
+  private process: (chunk: AudioChunk) => Promise<void>;
+  private options: IngestQueueOptions;
+  private chunks: AudioChunk[] = [];
+  private isProcessing: boolean = false;
+  private throttled: boolean = false;
+  private dropped: number = 0; // 破棄したチャンク数
+  private coalesced: number = 0; // 結合したチャンク数
+
+  constructor(
+    process: (chunk: AudioChunk) => Promise<void>,
+    options: IngestQueueOptions = config.audioIngest
+  ) {
+    super();
+    this.process = process;
+    this.options = options;
+  }
+
+  /**
+   * チャンクをキューに追加 (破棄した場合は false)
+   */
+  push(chunk: AudioChunk): boolean {
+    let accepted = true;
+
+    if (this.chunks.length >= this.options.maxQueueDepth) {
+      accepted = this.overflow(chunk);
+    } else {
+      this.chunks.push(chunk);
+    }
+
+    this.updateBackpressure();
+    this.drain();
+
+    return accepted;
+  }
+
+  /**
+   * 処理待ちのチャンクを破棄
+   */
+  clear(): void {
+    this.chunks = [];
+    this.updateBackpressure();
+  }
+
+  /**
+   * 処理待ちのチャンク数を取得
+   */
+  getDepth(): number {
+    return this.chunks.length;
+  }
+
+  /**
+   * 破棄したチャンク数を取得
+   */
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * 現在のバックプレッシャーの状態を取得
+   */
+  getState(): BackpressureState {
+    return {
+      active: this.throttled,
+      queueDepth: this.chunks.length,
+      maxQueueDepth: this.options.maxQueueDepth,
+      dropped: this.dropped,
+      coalesced: this.coalesced,
+    };
+  }
+
+  /**
+   * キューが上限に達した場合の処理
+   */
+  private overflow(chunk: AudioChunk): boolean {
+    const policy = this.options.overflowPolicy;
+
+    if (policy === 'coalesce' && this.coalesce(chunk)) {
+      this.coalesced++;
+      getMetricsService().countIngestOverflow('coalesced');
+      return true;
+    }
+
+    this.dropped++;
+    getMetricsService().countIngestOverflow('dropped');
+    if (policy === 'drop_newest') {
+      return false;
+    }
+
+    this.chunks.shift();
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  /**
+   * 同じ話者の最後のチャンクに結合 (結合後のサイズが上限を超える場合は結合しない)
+   */
+  private coalesce(chunk: AudioChunk): boolean {
+    for (let i = this.chunks.length - 1; i >= 0; i--) {
+      const queued = this.chunks[i];
+      if (queued.speakerId !== chunk.speakerId) {
+        continue;
+      }
+
+      if (
+        queued.data.length + chunk.data.length >
+        this.options.maxCoalescedBytes
+      ) {
+        return false;
+      }
+
+      this.chunks[i] = {
+        ...queued,
+        data: Buffer.concat([queued.data, chunk.data]),
+        speakerName: chunk.speakerName ?? queued.speakerName,
+      };
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * キューのチャンクを順番に処理
+   */
+  private async drain(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      let chunk: AudioChunk | undefined;
+      while ((chunk = this.chunks.shift())) {
+        this.updateBackpressure();
+        try {
+          await this.process(chunk);
+        } catch (error) {
+          logger.error('Failed to process queued audio chunk', { error });
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * 処理待ちの数に応じてバックプレッシャーの開始・解除を通知
+   */
+  private updateBackpressure(): void {
+    const depth = this.chunks.length;
+    const max = this.options.maxQueueDepth;
+
+    if (!this.throttled && depth >= max * this.options.highWatermark) {
+      this.throttled = true;
+      logger.warn('Audio ingest queue is backing up', {
+        queueDepth: depth,
+        maxQueueDepth: max,
+      });
+      this.emit('backpressure', this.getState());
+    } else if (this.throttled && depth <= max * this.options.lowWatermark) {
+      this.throttled = false;
+      logger.info('Audio ingest queue recovered', {
+        dropped: this.dropped,
+        coalesced: this.coalesced,
+      });
+      this.emit('backpressure', this.getState());
+    }
+  }
+}
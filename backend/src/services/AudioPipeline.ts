@@ -3,30 +3,117 @@ import {
   AudioChunk,
   STTResult,
   TranslationResult,
+  TranscriptSegment,
   TTSResult,
   MeetingConfig,
   PipelineState,
+  STTProvider,
+  TranslationProvider,
+  TTSProvider,
+  PipelineProviders,
+  TranslationError,
   SupportedLanguage,
+  UsageMetric,
+  UsageRecord,
+  AudioFormat,
+  UtteranceBoundary,
+  STTStatus,
 } from '../types';
+import { config } from '../config';
 import { logger } from '../utils/logger';
+import { getStablePrefix } from '../utils/stablePrefix';
 import { LatencyTracker, MetricsAggregator } from '../utils/metrics';
+import { SpeakerDirectory, SpeakerInfo } from './SpeakerDirectory';
+import { getMetricsService } from './MetricsService';
+import { AudioIngestQueue } from './AudioIngestQueue';
+import { AudioTranscoder, createTranscoder } from './AudioTranscoder';
+import { VoiceActivityDetector, VadResult } from './VoiceActivityDetector';
+import { EchoSuppressor } from './EchoSuppressor';
+import {
+  PCM16_16K_MONO,
+  bytesPerSecond,
+  isSameFormat,
+} from '../utils/audioFormat';
+import { MockSTT } from './mock/MockSTT';
+import { MockTranslation } from './mock/MockTranslation';
+import { MockTTS } from './mock/MockTTS';
+
+/**
+ * 話者ごとのSTTストリーム
+ * 発話と逐次翻訳の状態はストリームごとに持つ
+ */
+interface SpeakerStream {
+  speakerId?: string; // 専用ストリームの話者 (共有ストリームの場合は undefined)
+  stt: STTProvider;
+  sttAvailable: boolean; // 最後に確認したSTTの接続状態 (変化した場合のみ通知する)
+  transcoder: AudioTranscoder | null; // 入力の音声をSTTのフォーマットに変換
+  vad: VoiceActivityDetector | null; // 発話区間の検出 (最初の音声で作成)
+  vadTimer: NodeJS.Timeout | null; // 発話中に音声が途切れた場合に発話を終了する
+  speechBytes: number; // 現在の発話でSTTに送った音声のバイト数
+  onResult: (result: STTResult) => void;
+  onError: (error: Error) => void;
+  lastActiveAt: number;
+  utteranceStartTime: number | null; // 現在の発話の最初のチャンク受信時刻
+  utteranceEndTime: number | null; // 現在の発話の終了時刻 (VADが検出した終了境界)
+  lastAudioTime: number | null; // STTに最後に音声を送ったチャンクの受信時刻
+  utteranceSpeakerId?: string;
+  utteranceCount: number; // 確定済みの発話数 (古い逐次翻訳の破棄に使用)
+  previousPartial: string; // 直前の部分認識結果
+  pendingPartial: STTResult | null; // 逐次翻訳待ちの部分認識結果
+  interimPrefix: string; // 最後に逐次翻訳した確定部分
+  interimTimer: NodeJS.Timeout | null;
+  lastPartial: STTResult | null; // 確定していない最新の部分結果
+  finalizeTimer: NodeJS.Timeout | null; // 発話の終了後に確定結果を待つ
+  forcedText: string | null; // 部分結果から確定したテキスト (遅れて届いた確定結果の破棄に使用)
+}
+
+/**
+ * 同じ発話の認識結果かどうか (一方が他方の先頭部分)
+ */
+function isSameUtterance(a: string, b: string): boolean {
+  const x = a.trim();
+  const y = b.trim();
+  return x.startsWith(y) || y.startsWith(x);
+}
+
+/**
+ * 閉じたSTTストリームのエラー (パイプラインには通知しない)
+ */
+function ignoreDetachedError(error: Error): void {
+  logger.debug('Ignored error from closed STT stream', { error });
+}
 
 /**
  * 音声処理パイプライン
  * 音声入力 -> STT -> 翻訳 -> TTS -> 音声出力の一連の処理を管理
+ * STTの作成関数 (createSTT) が指定された場合は話者ごとに別のSTT接続を使用する
  */
 export class AudioPipeline extends EventEmitter {
   private config: MeetingConfig;
   private state: PipelineState;
   private metricsAggregator: MetricsAggregator;
-  private sttService: any; // STTServiceのインスタンス
-  private translationService: any; // TranslationServiceのインスタンス
-  private ttsService: any; // TTSServiceのインスタンス
-  private useRealServices: boolean = false; // 実際のサービスを使用するかどうか
+  private sttService: STTProvider;
+  private createSTT?: () => STTProvider;
+  private translationService: TranslationProvider;
+  private ttsService: TTSProvider;
+  private speakers: SpeakerDirectory = new SpeakerDirectory();
+  private echo: EchoSuppressor = new EchoSuppressor();
+  private sharedStream: SpeakerStream | null = null; // 話者不明の音声用
+  private speakerStreams: Map<string, SpeakerStream> = new Map();
+  private connectingStreams: Map<string, Promise<void>> = new Map();
+  private ttsSegmentCount: number = 0; // ストリーミングTTSのセグメント番号
+  private ingestQueue: AudioIngestQueue;
 
-  constructor(config: MeetingConfig) {
+  constructor(config: MeetingConfig, providers?: Partial<PipelineProviders>) {
     super();
     this.config = config;
+
+    // プロバイダーが指定されない場合はオフラインのモックを使用
+    this.sttService = providers?.stt ?? new MockSTT();
+    this.createSTT = providers?.createSTT;
+    this.translationService = providers?.translation ?? new MockTranslation();
+    this.ttsService = providers?.tts ?? new MockTTS();
+
     this.state = {
       isActive: false,
       latencyMetrics: {
@@ -35,8 +122,17 @@ export class AudioPipeline extends EventEmitter {
         ttsLatency: 0,
         totalLatency: 0,
       },
+      queueDepth: 0,
+      droppedChunks: 0,
     };
     this.metricsAggregator = new MetricsAggregator();
+
+    this.ingestQueue = new AudioIngestQueue((chunk) =>
+      this.processAudioChunk(chunk)
+    );
+    this.ingestQueue.on('backpressure', (state) => {
+      this.emit('backpressure', state);
+    });
   }
 
   /**
@@ -48,6 +144,23 @@ export class AudioPipeline extends EventEmitter {
       targetLanguages: this.config.targetLanguages,
     });
 
+    const stream = this.createStream(this.sttService);
+
+    try {
+      if (!this.sttService.isActive()) {
+        await this.sttService.connect();
+      }
+    } catch (error) {
+      this.detachStream(stream);
+      logger.error('Failed to connect STT provider', { error });
+      throw new TranslationError(
+        'Failed to connect to STT service',
+        'STT_CONNECTION_FAILED',
+        { provider: this.sttService.name }
+      );
+    }
+
+    this.sharedStream = stream;
     this.state.isActive = true;
     this.emit('started');
   }
@@ -58,6 +171,17 @@ export class AudioPipeline extends EventEmitter {
   async stop(): Promise<void> {
     logger.info('Stopping audio pipeline');
     this.state.isActive = false;
+    this.ingestQueue.clear();
+
+    const streams = new Set(this.speakerStreams.values());
+    if (this.sharedStream) {
+      streams.add(this.sharedStream);
+    }
+    streams.forEach((stream) => this.closeStream(stream));
+
+    this.speakerStreams.clear();
+    this.sharedStream = null;
+    this.state.currentSpeaker = undefined;
 
     // 統計情報をログ出力
     this.metricsAggregator.logStats();
@@ -65,6 +189,18 @@ export class AudioPipeline extends EventEmitter {
     this.emit('stopped');
   }
 
+  /**
+   * 音声チャンクを取り込みキューに追加 (受信順に処理する)
+   * キューが上限に達している場合は設定に従って結合または破棄し、破棄した場合は false を返す
+   */
+  enqueueAudioChunk(chunk: AudioChunk): boolean {
+    if (!this.state.isActive) {
+      return false;
+    }
+
+    return this.ingestQueue.push(chunk);
+  }
+
   /**
    * 音声チャンクを処理
    */
@@ -73,198 +209,951 @@ export class AudioPipeline extends EventEmitter {
       return;
     }
 
-    const tracker = new LatencyTracker();
+    // 翻訳音声を再生するボット自身の音声はSTTに送らない
+    if (this.echo.isBotParticipant(chunk.speakerId, chunk.speakerName)) {
+      getMetricsService().countEchoSuppressed('bot_participant');
+      return;
+    }
+
+    if (chunk.speakerId) {
+      this.registerSpeaker(chunk.speakerId, chunk.speakerName);
+    }
+
+    const stream = await this.getStream(chunk.speakerId);
+    if (!stream || !this.state.isActive) {
+      return;
+    }
+
+    // STTの再接続中・再接続の上限に達した後は音声を破棄する
+    if (!this.checkSTTStatus(stream)) {
+      return;
+    }
+
+    const receivedAt = Date.now();
+    stream.lastActiveAt = receivedAt;
 
     try {
-      // 1. STT処理
-      tracker.checkpoint('stt_start');
-      const sttResult = await this.performSTT(chunk);
-      tracker.checkpoint('stt_end');
-
-      if (!sttResult.isFinal) {
-        // 部分結果の場合は翻訳をスキップ
-        this.emit('stt_partial', sttResult);
+      const format = stream.stt.inputFormat;
+      const data = await this.transcodeInput(stream, chunk);
+      const { audio, utteranceStart, utteranceEnd } = this.detectVoice(
+        stream,
+        chunk,
+        data
+      );
+      if (audio.length === 0 && !utteranceEnd) {
         return;
       }
 
-      this.emit('stt_final', sttResult);
+      // 発話の最初のチャンクの時刻を記録（セグメント単位のレイテンシ計測用）
+      if (stream.utteranceStartTime === null && audio.length > 0) {
+        stream.utteranceStartTime = receivedAt;
+        stream.utteranceEndTime = null;
+        stream.utteranceSpeakerId = chunk.speakerId;
+      }
+      if (audio.length > 0) {
+        stream.lastAudioTime = receivedAt;
+      }
 
-      // 2. 翻訳処理（複数言語に対して並列実行）
-      tracker.checkpoint('translation_start');
-      const translations = await this.performTranslation(sttResult);
-      tracker.checkpoint('translation_end');
+      // STTプロバイダーは結果を 'result' イベントで返す
+      await stream.stt.sendAudioChunk({
+        ...chunk,
+        data: audio,
+        format,
+        utteranceStart: utteranceStart || undefined,
+        utteranceEnd: utteranceEnd || undefined,
+      });
+      this.emitUsage('sttSeconds', audio.length / bytesPerSecond(format));
+      stream.speechBytes += audio.length;
 
-      this.emit('translations', translations);
+      if (utteranceEnd) {
+        this.endUtterance(stream, chunk.speakerId ?? stream.speakerId);
+      }
+    } catch (error) {
+      logger.error('Error processing audio chunk', {
+        error,
+        speakerId: chunk.speakerId,
+      });
+      this.emit('error', error);
+    }
+  }
 
-      // 3. TTS処理（音声が有効な場合）
-      if (this.config.enableVoice) {
-        tracker.checkpoint('tts_start');
-        const ttsResults = await this.performTTS(translations);
-        tracker.checkpoint('tts_end');
+  /**
+   * STTが接続しているかを確認し、接続状態が変化した場合のみ 'stt_status' を通知
+   * 切断した場合は途中の発話区間を破棄する (発話の終了をSTTに送らない)
+   */
+  private checkSTTStatus(stream: SpeakerStream): boolean {
+    const available = stream.stt.isActive();
+    if (available === stream.sttAvailable) {
+      return available;
+    }
 
-        this.emit('tts_results', ttsResults);
+    stream.sttAvailable = available;
+    if (available) {
+      logger.info('STT is connected again, resuming audio', {
+        provider: stream.stt.name,
+        speakerId: stream.speakerId,
+      });
+    } else {
+      logger.warn('STT is not connected, dropping audio', {
+        provider: stream.stt.name,
+        speakerId: stream.speakerId,
+      });
+      if (stream.vadTimer) {
+        clearTimeout(stream.vadTimer);
+        stream.vadTimer = null;
       }
+      stream.vad = null;
+      stream.speechBytes = 0;
+    }
 
-      // 4. 字幕出力（字幕が有効な場合）
-      if (this.config.enableSubtitles) {
-        this.emit('subtitles', translations);
-      }
+    const status: STTStatus = {
+      available,
+      provider: stream.stt.name,
+      speakerId: stream.speakerId,
+      timestamp: Date.now(),
+    };
+    this.emit('stt_status', status);
 
-      // レイテンシメトリクスを記録
-      const sttLatency = tracker.getDuration('stt_start', 'stt_end');
-      const translationLatency = tracker.getDuration(
-        'translation_start',
-        'translation_end'
-      );
-      const ttsLatency = this.config.enableVoice
-        ? tracker.getDuration('tts_start', 'tts_end')
-        : 0;
-      const totalLatency = tracker.getTotalDuration();
-
-      this.metricsAggregator.addMetric('stt', sttLatency);
-      this.metricsAggregator.addMetric('translation', translationLatency);
-      this.metricsAggregator.addMetric('tts', ttsLatency);
-      this.metricsAggregator.addMetric('total', totalLatency);
-
-      this.state.latencyMetrics = {
-        sttLatency,
-        translationLatency,
-        ttsLatency,
-        totalLatency,
-      };
+    return available;
+  }
 
-      logger.debug('Processing completed', this.state.latencyMetrics);
-    } catch (error) {
-      logger.error('Error processing audio chunk', { error });
-      this.emit('error', error);
+  /**
+   * 音声チャンクをSTTプロバイダーのフォーマットに変換
+   * 変換の状態 (リサンプリングの補間・ffmpeg のプロセス) はストリームごとに保持する
+   */
+  private async transcodeInput(
+    stream: SpeakerStream,
+    chunk: AudioChunk
+  ): Promise<Buffer> {
+    const from = chunk.format ?? this.getInputFormat();
+    const to = stream.stt.inputFormat;
+
+    if (!stream.transcoder || !isSameFormat(stream.transcoder.from, from)) {
+      stream.transcoder?.close();
+      stream.transcoder = createTranscoder(from, to);
     }
+
+    return stream.transcoder.write(chunk.data);
   }
 
   /**
-   * STT処理
+   * 音声区間を検出し、STTに送る音声と発話の区切りを返す
+   * VADが無効な場合や、STTの入力が16bit PCMでない場合はすべての音声を送る
    */
-  private async performSTT(chunk: AudioChunk): Promise<STTResult> {
-    if (this.useRealServices && this.sttService) {
-      // 実際のSTTサービスを使用
-      await this.sttService.sendAudioChunk(chunk);
-      // STTサービスはイベント経由で結果を返すため、ここでは待機しない
-      // モックの結果を返す
+  private detectVoice(
+    stream: SpeakerStream,
+    chunk: AudioChunk,
+    data: Buffer
+  ): VadResult {
+    const format = stream.stt.inputFormat;
+    if (!config.vad.enabled || format.encoding !== 'pcm16') {
       return {
-        text: '',
-        language: 'ja',
-        isFinal: false,
-        confidence: 0,
-        timestamp: Date.now(),
-        speakerId: chunk.speakerId,
+        audio: data,
+        utteranceStart: false,
+        utteranceEnd: false,
+        droppedBytes: 0,
       };
     }
 
-    // モック実装
-    return {
-      text: 'こんにちは、今日は良い天気ですね。',
-      language: 'ja',
-      isFinal: true,
-      confidence: 0.95,
+    if (!stream.vad) {
+      stream.vad = new VoiceActivityDetector(format);
+    }
+
+    const result = stream.vad.process(data);
+    if (result.droppedBytes > 0) {
+      getMetricsService().countVadSilence(
+        result.droppedBytes / bytesPerSecond(format)
+      );
+    }
+
+    const speakerId = chunk.speakerId ?? stream.speakerId;
+    if (result.utteranceStart) {
+      stream.speechBytes = 0;
+      this.emitBoundary('start', speakerId);
+    }
+
+    if (stream.vadTimer) {
+      clearTimeout(stream.vadTimer);
+      stream.vadTimer = null;
+    }
+    if (stream.vad.isSpeaking()) {
+      stream.vadTimer = setTimeout(() => {
+        stream.vadTimer = null;
+        this.endIdleUtterance(stream, speakerId);
+      }, config.vad.pauseMs);
+    }
+
+    return result;
+  }
+
+  /**
+   * 発話中に音声が途切れた場合、発話を終了してSTTに確定を要求
+   */
+  private endIdleUtterance(stream: SpeakerStream, speakerId?: string): void {
+    if (!stream.vad?.reset() || !this.state.isActive) {
+      return;
+    }
+
+    this.endUtterance(stream, speakerId);
+    if (!stream.stt.isActive()) {
+      return;
+    }
+    stream.stt
+      .sendAudioChunk({
+        data: Buffer.alloc(0),
+        timestamp: Date.now(),
+        speakerId,
+        format: stream.stt.inputFormat,
+        utteranceEnd: true,
+      })
+      .catch((error) => {
+        logger.error('Failed to end utterance', { error, speakerId });
+        this.emit('error', error);
+      });
+  }
+
+  /**
+   * 発話の終了を通知し、確定結果が届かない場合に備えて部分結果の確定を予約
+   */
+  private endUtterance(stream: SpeakerStream, speakerId?: string): void {
+    if (stream.vadTimer) {
+      clearTimeout(stream.vadTimer);
+      stream.vadTimer = null;
+    }
+
+    stream.utteranceEndTime = Date.now();
+    const durationMs =
+      (stream.speechBytes / bytesPerSecond(stream.stt.inputFormat)) * 1000;
+    stream.speechBytes = 0;
+    this.emitBoundary('end', speakerId, Math.round(durationMs));
+
+    if (stream.finalizeTimer) {
+      clearTimeout(stream.finalizeTimer);
+    }
+    stream.finalizeTimer = setTimeout(() => {
+      stream.finalizeTimer = null;
+      this.forceFinal(stream);
+    }, config.vad.finalizeTimeoutMs);
+  }
+
+  /**
+   * 最新の部分結果を確定結果として処理
+   */
+  private forceFinal(stream: SpeakerStream): void {
+    const partial = stream.lastPartial;
+    if (!partial || !partial.text.trim() || !this.state.isActive) {
+      return;
+    }
+
+    logger.info('Finalizing utterance from partial result', {
+      speakerId: partial.speakerId,
+    });
+    getMetricsService().countForcedFinal();
+
+    this.handleSTTResult(
+      stream,
+      { ...partial, isFinal: true, timestamp: Date.now() },
+      true
+    ).catch((error) => {
+      logger.error('Error processing STT result', { error });
+      this.emit('error', error);
+    });
+  }
+
+  /**
+   * 発話の区切りを通知 ('utterance_start' / 'utterance_end')
+   */
+  private emitBoundary(
+    boundary: UtteranceBoundary['boundary'],
+    speakerId?: string,
+    durationMs?: number
+  ): void {
+    const event: UtteranceBoundary = {
+      boundary,
+      speakerId,
+      speakerLabel: this.speakers.get(speakerId)?.label,
       timestamp: Date.now(),
-      speakerId: chunk.speakerId,
+      durationMs,
     };
+
+    this.emit(
+      boundary === 'start' ? 'utterance_start' : 'utterance_end',
+      event
+    );
   }
 
   /**
-   * 翻訳処理
+   * 話者のSTTストリームを取得 (なければ接続する)
    */
-  private async performTranslation(
-    sttResult: STTResult
-  ): Promise<TranslationResult[]> {
-    if (this.useRealServices && this.translationService) {
-      // 実際の翻訳サービスを使用
-      return await this.translationService.translateMultiple(
-        sttResult.text,
-        sttResult.language,
-        this.config.targetLanguages,
-        this.config.glossaryId
+  private async getStream(speakerId?: string): Promise<SpeakerStream | null> {
+    if (!speakerId || !this.createSTT) {
+      return this.sharedStream;
+    }
+
+    if (!this.speakerStreams.has(speakerId)) {
+      let connecting = this.connectingStreams.get(speakerId);
+      if (!connecting) {
+        connecting = this.openSpeakerStream(speakerId).finally(() => {
+          this.connectingStreams.delete(speakerId);
+        });
+        this.connectingStreams.set(speakerId, connecting);
+      }
+      await connecting;
+    }
+
+    return this.speakerStreams.get(speakerId) ?? null;
+  }
+
+  /**
+   * 話者専用のSTTストリームを接続
+   * 接続に失敗した場合、その話者の音声は共有ストリームで処理する
+   */
+  private async openSpeakerStream(speakerId: string): Promise<void> {
+    this.evictIdleStream();
+
+    const stream = this.createStream(this.createSTT!(), speakerId);
+
+    try {
+      await stream.stt.connect();
+    } catch (error) {
+      this.detachStream(stream);
+      logger.error('Failed to connect STT for speaker', { error, speakerId });
+      this.emit(
+        'error',
+        new TranslationError(
+          'Failed to connect to STT service for speaker',
+          'STT_CONNECTION_FAILED',
+          { provider: stream.stt.name, speakerId }
+        )
       );
+
+      if (this.sharedStream) {
+        this.speakerStreams.set(speakerId, this.sharedStream);
+      }
+      return;
+    }
+
+    if (!this.state.isActive) {
+      this.closeStream(stream);
+      return;
+    }
+
+    logger.info('Opened STT stream for speaker', { speakerId });
+    this.speakerStreams.set(speakerId, stream);
+  }
+
+  /**
+   * 専用ストリームが上限に達している場合、最も長く発話のない話者のストリームを閉じる
+   */
+  private evictIdleStream(): void {
+    const dedicated = [...this.speakerStreams.entries()].filter(
+      ([, stream]) => stream !== this.sharedStream
+    );
+    if (dedicated.length < config.speakers.maxStreams) {
+      return;
+    }
+
+    const [speakerId, stream] = dedicated.reduce((oldest, entry) =>
+      entry[1].lastActiveAt < oldest[1].lastActiveAt ? entry : oldest
+    );
+
+    logger.info('Closing idle STT stream for speaker', { speakerId });
+    this.closeStream(stream);
+    this.speakerStreams.delete(speakerId);
+  }
+
+  /**
+   * STTストリームを作成し、イベントを購読
+   */
+  private createStream(stt: STTProvider, speakerId?: string): SpeakerStream {
+    const stream: SpeakerStream = {
+      speakerId,
+      stt,
+      sttAvailable: true,
+      transcoder: null,
+      vad: null,
+      vadTimer: null,
+      speechBytes: 0,
+      onResult: (result) => {
+        this.handleSTTResult(stream, result).catch((error) => {
+          logger.error('Error processing STT result', { error });
+          this.emit('error', error);
+        });
+      },
+      onError: (error) => {
+        logger.error('STT service error', { error, speakerId });
+        this.emit('error', error);
+      },
+      lastActiveAt: Date.now(),
+      utteranceStartTime: null,
+      utteranceEndTime: null,
+      lastAudioTime: null,
+      utteranceCount: 0,
+      previousPartial: '',
+      pendingPartial: null,
+      interimPrefix: '',
+      interimTimer: null,
+      lastPartial: null,
+      finalizeTimer: null,
+      forcedText: null,
+    };
+
+    stt.on('result', stream.onResult);
+    stt.on('error', stream.onError);
+
+    return stream;
+  }
+
+  /**
+   * STTストリームのイベント購読を解除
+   * 接続中に切断した場合などは解除後に 'error' が届くため、リスナーのない 'error' で
+   * プロセスが終了しないよう何もしないハンドラーを残す
+   */
+  private detachStream(stream: SpeakerStream): void {
+    stream.stt.off('result', stream.onResult);
+    stream.stt.off('error', stream.onError);
+    stream.stt.on('error', ignoreDetachedError);
+  }
+
+  /**
+   * STTストリームを閉じる
+   */
+  private closeStream(stream: SpeakerStream): void {
+    this.resetInterim(stream);
+    stream.utteranceStartTime = null;
+    stream.utteranceEndTime = null;
+    stream.utteranceSpeakerId = undefined;
+    stream.transcoder?.close();
+    stream.transcoder = null;
+    this.resetVoiceActivity(stream);
+    stream.stt.disconnect();
+    this.detachStream(stream);
+  }
+
+  /**
+   * 発話区間の検出と確定待ちの状態をリセット
+   */
+  private resetVoiceActivity(stream: SpeakerStream): void {
+    if (stream.vadTimer) {
+      clearTimeout(stream.vadTimer);
+      stream.vadTimer = null;
+    }
+    if (stream.finalizeTimer) {
+      clearTimeout(stream.finalizeTimer);
+      stream.finalizeTimer = null;
+    }
+    stream.vad = null;
+    stream.speechBytes = 0;
+    stream.lastPartial = null;
+    stream.forcedText = null;
+  }
+
+  /**
+   * STT結果ハンドラー
+   * 部分結果は stt_partial として通知し、確定結果ごとに後段の処理を実行
+   * forced は確定結果が届かず、部分結果から確定した場合
+   */
+  private async handleSTTResult(
+    stream: SpeakerStream,
+    result: STTResult,
+    forced: boolean = false
+  ): Promise<void> {
+    if (!this.state.isActive) {
+      return;
     }
 
-    // モック実装
-    const translations: TranslationResult[] = [];
+    // 部分結果から確定済みの発話の結果が遅れて届いた場合は破棄
+    if (!forced && stream.forcedText !== null) {
+      const forcedText = stream.forcedText;
+      if (result.isFinal) {
+        stream.forcedText = null;
+      }
+      if (isSameUtterance(forcedText, result.text)) {
+        logger.debug('Discarding STT result of a finalized utterance');
+        return;
+      }
+    }
+
+    const speakerId =
+      result.speakerId ?? stream.utteranceSpeakerId ?? stream.speakerId;
+    const speaker = speakerId ? this.registerSpeaker(speakerId) : undefined;
 
-    for (const targetLang of this.config.targetLanguages) {
-      if (targetLang === sttResult.language) {
-        continue; // 同じ言語への翻訳はスキップ
+    const sttResult: STTResult = {
+      ...result,
+      speakerId,
+      speakerLabel: speaker?.label,
+    };
+
+    // 再生したTTS音声を再び認識した結果 (エコー)
+    const echo = this.echo.check(sttResult);
+
+    if (speakerId && sttResult.text && !echo) {
+      this.state.currentSpeaker = speakerId;
+    }
+
+    if (!sttResult.isFinal) {
+      if (echo) {
+        return;
       }
+      if (sttResult.text) {
+        stream.lastPartial = sttResult;
+      }
+      this.emit('stt_partial', sttResult);
 
-      // モック翻訳
-      let translatedText = '';
-      if (targetLang === 'zh-Hant-TW') {
-        translatedText = '你好,今天天氣真好。';
-      } else if (targetLang === 'fr') {
-        translatedText = 'Bonjour, il fait beau aujourd\'hui.';
+      // 逐次翻訳モードでは確定した先頭部分を翻訳
+      if (this.config.interimTranslation) {
+        this.scheduleInterimTranslation(stream, sttResult);
       }
+      return;
+    }
 
-      translations.push({
-        originalText: sttResult.text,
-        translatedText,
-        sourceLang: sttResult.language,
-        targetLang,
-        confidence: 0.9,
-        timestamp: Date.now(),
+    if (stream.finalizeTimer) {
+      clearTimeout(stream.finalizeTimer);
+      stream.finalizeTimer = null;
+    }
+    stream.lastPartial = null;
+    if (forced) {
+      stream.forcedText = sttResult.text;
+    }
+
+    const utteranceStartTime = stream.utteranceStartTime ?? Date.now();
+    // VADで終了を検出していない場合は最後の音声を発話の終了とする
+    const utteranceEndTime =
+      stream.utteranceEndTime ?? stream.lastAudioTime ?? Date.now();
+    stream.utteranceStartTime = null;
+    stream.utteranceEndTime = null;
+    stream.utteranceSpeakerId = undefined;
+    stream.utteranceCount++;
+    this.resetInterim(stream);
+
+    if (echo) {
+      logger.info('Suppressed echo of synthesized speech', {
+        reason: echo,
+        speakerId,
+        language: sttResult.language,
       });
+      getMetricsService().countEchoSuppressed(echo);
+      return;
     }
 
-    return translations;
+    await this.processFinalSegment(
+      sttResult,
+      utteranceStartTime,
+      utteranceEndTime
+    );
   }
 
   /**
-   * TTS処理
+   * 部分認識結果の逐次翻訳を予約
+   * 待機中に届いた部分結果はまとめ、最新の確定部分だけを翻訳する
    */
-  private async performTTS(
-    translations: TranslationResult[]
-  ): Promise<TTSResult[]> {
-    if (this.useRealServices && this.ttsService) {
-      // 実際のTTSサービスを使用
-      const ttsInputs = translations.map((t) => ({
+  private scheduleInterimTranslation(
+    stream: SpeakerStream,
+    sttResult: STTResult
+  ): void {
+    const previous = stream.previousPartial;
+    stream.previousPartial = sttResult.text;
+    stream.pendingPartial = {
+      ...sttResult,
+      text: getStablePrefix(previous, sttResult.text),
+    };
+
+    if (stream.interimTimer) {
+      return;
+    }
+
+    stream.interimTimer = setTimeout(() => {
+      stream.interimTimer = null;
+      this.translateInterim(stream).catch((error) => {
+        // 逐次翻訳の失敗は確定結果の翻訳で補われるため通知しない
+        logger.warn('Interim translation failed', { error });
+      });
+    }, config.interimTranslation.debounceMs);
+  }
+
+  /**
+   * 確定した先頭部分を翻訳し、逐次翻訳として通知
+   */
+  private async translateInterim(stream: SpeakerStream): Promise<void> {
+    const partial = stream.pendingPartial;
+    stream.pendingPartial = null;
+    if (!partial || !this.state.isActive) {
+      return;
+    }
+
+    const sourceLang =
+      partial.language === 'unknown'
+        ? this.config.sourceLanguage
+        : partial.language;
+    // 前回から少ししか伸びていない場合は翻訳しない (認識の訂正で変わった場合は翻訳し直す)
+    const growth = partial.text.length - stream.interimPrefix.length;
+    if (
+      !sourceLang ||
+      !partial.text ||
+      (partial.text.startsWith(stream.interimPrefix) &&
+        growth < config.interimTranslation.minGrowthChars)
+    ) {
+      return;
+    }
+
+    const utterance = stream.utteranceCount;
+    stream.interimPrefix = partial.text;
+
+    const translations = await this.performTranslation(
+      partial.text,
+      sourceLang
+    );
+
+    // 翻訳中に発話が確定した場合や、より新しい逐次翻訳がある場合は破棄
+    if (
+      utterance !== stream.utteranceCount ||
+      stream.interimPrefix !== partial.text ||
+      !this.state.isActive
+    ) {
+      return;
+    }
+
+    const interim = this.withSpeaker(translations, partial).map((t) => ({
+      ...t,
+      isInterim: true,
+    }));
+    this.emit('translations', interim);
+
+    if (this.config.enableSubtitles) {
+      this.emit('subtitles', interim);
+    }
+  }
+
+  /**
+   * 逐次翻訳の状態をリセット
+   */
+  private resetInterim(stream: SpeakerStream): void {
+    if (stream.interimTimer) {
+      clearTimeout(stream.interimTimer);
+      stream.interimTimer = null;
+    }
+    stream.previousPartial = '';
+    stream.pendingPartial = null;
+    stream.interimPrefix = '';
+  }
+
+  /**
+   * 確定したSTTセグメントを処理（翻訳 -> TTS -> 字幕）
+   * STTレイテンシは発話の終了から確定結果までの時間
+   */
+  private async processFinalSegment(
+    sttResult: STTResult,
+    utteranceStartTime: number,
+    utteranceEndTime: number
+  ): Promise<void> {
+    const tracker = new LatencyTracker(utteranceStartTime);
+    tracker.checkpoint('stt_end');
+    const sttLatency = Math.max(0, Date.now() - utteranceEndTime);
+
+    this.emit('stt_final', sttResult);
+
+    // 言語を判別できない場合は会議の話者言語で翻訳する
+    const sourceLang =
+      sttResult.language === 'unknown'
+        ? this.config.sourceLanguage
+        : sttResult.language;
+    if (!sourceLang) {
+      throw new TranslationError(
+        'Could not determine the spoken language',
+        'UNKNOWN_SOURCE_LANGUAGE',
+        { text: sttResult.text }
+      );
+    }
+
+    // 1. 翻訳処理（複数言語に対して並列実行）
+    tracker.checkpoint('translation_start');
+    const translations = this.withSpeaker(
+      await this.performTranslation(sttResult.text, sourceLang),
+      sttResult
+    );
+    tracker.checkpoint('translation_end');
+
+    this.emit('translations', translations);
+
+    // 文字起こしに記録するセグメント (確定した発話のみ)
+    const segment: Omit<TranscriptSegment, 'sequence'> = {
+      text: sttResult.text,
+      language: sourceLang,
+      speakerId: sttResult.speakerId,
+      speakerLabel: sttResult.speakerLabel,
+      startedAt: utteranceStartTime,
+      endedAt: sttResult.timestamp,
+      translations: translations.map((t) => ({
+        language: t.targetLang,
         text: t.translatedText,
+        provider: t.provider,
+      })),
+    };
+    this.emit('transcript_segment', segment);
+
+    // 2. TTS処理（音声が有効な場合）
+    if (this.config.enableVoice) {
+      tracker.checkpoint('tts_start');
+      const ttsResults = this.withSpeaker(
+        this.isStreamingTTS()
+          ? await this.performStreamingTTS(translations, sttResult, tracker)
+          : await this.performTTS(translations, sttResult.speakerId),
+        sttResult
+      );
+      tracker.checkpoint('tts_end');
+
+      this.emit('tts_results', ttsResults);
+    }
+
+    // 3. 字幕出力（字幕が有効な場合）
+    if (this.config.enableSubtitles) {
+      this.emit('subtitles', translations);
+    }
+
+    // レイテンシメトリクスを記録（全体は発話の最初のチャンクからTTS完了まで）
+    const translationLatency = tracker.getDuration(
+      'translation_start',
+      'translation_end'
+    );
+    // ストリーミング時は最初の音声チャンクまでの時間をTTSレイテンシとする
+    const ttsLatency = !this.config.enableVoice
+      ? 0
+      : this.isStreamingTTS()
+        ? tracker.getDuration('tts_start', 'tts_first_audio')
+        : tracker.getDuration('tts_start', 'tts_end');
+    const totalLatency = tracker.getTotalDuration();
+
+    this.metricsAggregator.addMetric('stt', sttLatency);
+    this.metricsAggregator.addMetric('translation', translationLatency);
+    this.metricsAggregator.addMetric('tts', ttsLatency);
+    this.metricsAggregator.addMetric('total', totalLatency);
+
+    this.state.latencyMetrics = {
+      sttLatency,
+      translationLatency,
+      ttsLatency,
+      totalLatency,
+    };
+
+    this.emit('latency', { ...this.state.latencyMetrics });
+
+    getMetricsService().recordUtterance(this.state.latencyMetrics, {
+      sourceLanguage: sourceLang,
+      sttProvider: this.sttService.name,
+      ttsProvider: this.config.enableVoice ? this.ttsService.name : undefined,
+      translations: translations.map((t) => ({
         language: t.targetLang,
-      }));
-      return await this.ttsService.synthesizeMultiple(ttsInputs);
+        provider: t.provider ?? this.translationService.name,
+      })),
+    });
+
+    logger.debug('Processing completed', this.state.latencyMetrics);
+  }
+
+  /**
+   * 話者を登録し、新しい話者または表示名の変更を通知
+   */
+  private registerSpeaker(id: string, name?: string): SpeakerInfo {
+    const previousLabel = this.speakers.get(id)?.label;
+    const speaker = this.speakers.register(id, name);
+
+    if (speaker.label !== previousLabel) {
+      this.emit('speaker', { ...speaker });
     }
 
-    // モック実装
-    const ttsResults: TTSResult[] = [];
+    return speaker;
+  }
 
-    for (const translation of translations) {
-      ttsResults.push({
-        audioData: Buffer.from('mock_audio_data'),
-        language: translation.targetLang,
-        timestamp: Date.now(),
-      });
+  /**
+   * 結果に話者情報を付与
+   */
+  private withSpeaker<T extends object>(results: T[], source: STTResult): T[] {
+    if (!source.speakerId) {
+      return results;
+    }
+
+    return results.map((result) => ({
+      ...result,
+      speakerId: source.speakerId,
+      speakerLabel: source.speakerLabel,
+    }));
+  }
+
+  /**
+   * 翻訳処理
+   */
+  private async performTranslation(
+    text: string,
+    sourceLang: SupportedLanguage
+  ): Promise<TranslationResult[]> {
+    const translations = await this.translationService.translateMultiple(
+      text,
+      sourceLang,
+      this.config.targetLanguages,
+      this.config.glossaryId
+    );
+    this.emitUsage('translationChars', text.length * translations.length);
+
+    return translations;
+  }
+
+  /**
+   * TTS処理 (話者ごとのボイスで合成)
+   */
+  private async performTTS(
+    translations: TranslationResult[],
+    speakerId?: string
+  ): Promise<TTSResult[]> {
+    const ttsInputs = translations.map((t) => ({
+      text: t.translatedText,
+      language: t.targetLang,
+      voiceId: this.speakers.getVoiceId(speakerId, t.targetLang),
+    }));
+    this.recordOutputs(translations);
+    const results = await this.ttsService.synthesizeMultiple(ttsInputs);
+    this.emitUsage('ttsChars', this.countChars(translations));
+
+    return results;
+  }
+
+  /**
+   * ストリーミングTTS処理
+   * 音声チャンクを受信順に tts_chunk として通知し、完了後に全体の結果を返す
+   */
+  private async performStreamingTTS(
+    translations: TranslationResult[],
+    sttResult: STTResult,
+    tracker: LatencyTracker
+  ): Promise<TTSResult[]> {
+    const segment = ++this.ttsSegmentCount;
+    const { speakerId, speakerLabel } = sttResult;
+    let firstAudio = true;
+    this.recordOutputs(translations);
+
+    const results = await Promise.all(
+      translations.map((t) =>
+        this.ttsService.synthesizeStream!(
+          t.translatedText,
+          t.targetLang,
+          (chunk) => {
+            if (firstAudio) {
+              firstAudio = false;
+              tracker.checkpoint('tts_first_audio');
+            }
+            this.emit('tts_chunk', {
+              ...chunk,
+              segment,
+              speakerId,
+              speakerLabel,
+            });
+          },
+          { voiceId: this.speakers.getVoiceId(speakerId, t.targetLang) }
+        )
+      )
+    );
+    this.emitUsage('ttsChars', this.countChars(translations));
+
+    return results;
+  }
+
+  /**
+   * 合成するテキストをエコーの照合用に記録 (再生される前に記録する)
+   */
+  private recordOutputs(translations: TranslationResult[]): void {
+    translations.forEach((t) =>
+      this.echo.recordOutput(t.translatedText, t.targetLang)
+    );
+  }
+
+  /**
+   * 翻訳結果の文字数の合計
+   */
+  private countChars(translations: TranslationResult[]): number {
+    return translations.reduce((sum, t) => sum + t.translatedText.length, 0);
+  }
+
+  /**
+   * 利用量を通知 (会議の開始ユーザーに計上される)
+   */
+  private emitUsage(metric: UsageMetric, amount: number): void {
+    if (amount > 0) {
+      const record: UsageRecord = { metric, amount };
+      this.emit('usage', record);
     }
+  }
+
+  /**
+   * ストリーミングTTSを使用するか (プロバイダーが対応していない場合は一括合成)
+   */
+  isStreamingTTS(): boolean {
+    return (
+      !!this.config.streamTts &&
+      typeof this.ttsService.synthesizeStream === 'function'
+    );
+  }
 
-    return ttsResults;
+  /**
+   * 会議の入力の音声フォーマット
+   */
+  getInputFormat(): AudioFormat {
+    return this.config.inputFormat ?? PCM16_16K_MONO;
   }
 
   /**
    * 現在の状態を取得
    */
   getState(): PipelineState {
-    return { ...this.state };
+    return {
+      ...this.state,
+      queueDepth: this.ingestQueue.getDepth(),
+      droppedChunks: this.ingestQueue.getDroppedCount(),
+    };
   }
 
   /**
-   * サービスをセット(依存性注入)
+   * 会議の話者一覧を取得
    */
-  setServices(
-    services: {
-      stt?: any;
-      translation?: any;
-      tts?: any;
-    },
-    useReal: boolean = false
-  ): void {
-    if (services.stt) this.sttService = services.stt;
+  getSpeakers(): SpeakerDirectory {
+    return this.speakers;
+  }
+
+  /**
+   * プロバイダーをセット(依存性注入)
+   * 開始後にSTTを差し替えた場合、以前のSTTを切断して新しいSTTに接続し、
+   * 話者専用でない音声は新しいSTTで処理する (接続するまでの音声は破棄される)
+   */
+  setServices(services: Partial<PipelineProviders>): void {
+    if (services.stt && services.stt !== this.sttService) {
+      const stt = services.stt;
+      const previous = this.sharedStream;
+      if (previous) {
+        this.closeStream(previous);
+        const stream = this.createStream(stt);
+        this.sharedStream = stream;
+        this.speakerStreams.forEach((s, speakerId) => {
+          if (s === previous) {
+            this.speakerStreams.set(speakerId, stream);
+          }
+        });
+
+        if (!stt.isActive()) {
+          stt.connect().catch((error) => {
+            logger.error('Failed to connect STT provider', { error });
+            this.emit(
+              'error',
+              new TranslationError(
+                'Failed to connect to STT service',
+                'STT_CONNECTION_FAILED',
+                { provider: stt.name }
+              )
+            );
+          });
+        }
+      }
+      this.sttService = stt;
+    }
+    if (services.createSTT) this.createSTT = services.createSTT;
     if (services.translation) this.translationService = services.translation;
     if (services.tts) this.ttsService = services.tts;
-    this.useRealServices = useReal;
   }
 }
@@ -0,0 +1,371 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AudioFormat, TranslationError } from '../types';
+import {
+  isSameFormat,
+  isRawEncoding,
+  formatKey,
+  readPcm16,
+  writePcm16,
+  encodeMulaw,
+  decodeMulaw,
+  convertChannels,
+} from '../utils/audioFormat';
+
+/**
+ * 音声フォーマットの変換
+ * 連続する音声を分割して write し、最後に end で残りを取り出す
+ */
+export interface AudioTranscoder {
+  readonly from: AudioFormat;
+  readonly to: AudioFormat;
+  write(data: Buffer): Promise<Buffer>; // 変換済みの音声 (まだ出力がない場合は空)
+  end(): Promise<Buffer>; // 残りの音声を出力して終了
+  close(): void; // 出力を待たずに終了
+}
+
+/**
+ * 変換が不要な場合 (同じフォーマット)
+ */
+class PassthroughTranscoder implements AudioTranscoder {
+  constructor(
+    readonly from: AudioFormat,
+    readonly to: AudioFormat
+  ) {}
+
+  async write(data: Buffer): Promise<Buffer> {
+    return data;
+  }
+
+  async end(): Promise<Buffer> {
+    return Buffer.alloc(0);
+  }
+
+  close(): void {}
+}
+
+/**
+ * 線形補間によるリサンプラー (チャンクの境界をまたいで補間する)
+ */
+class LinearResampler {
+  private ratio: number;
+  private channels: number;
+  private position: number = 0; // 次の出力フレームの入力上の位置 (-1 は前回の最後のフレーム)
+  private lastFrame: Int16Array | null = null;
+
+  constructor(fromRate: number, toRate: number, channels: number) {
+    this.ratio = fromRate / toRate;
+    this.channels = channels;
+  }
+
+  process(samples: Int16Array): Int16Array {
+    const channels = this.channels;
+    const frames = Math.floor(samples.length / channels);
+    if (frames === 0) {
+      return new Int16Array(0);
+    }
+
+    const sampleAt = (frame: number, channel: number): number =>
+      frame < 0
+        ? this.lastFrame![channel]
+        : samples[frame * channels + channel];
+
+    // 前回のフレームがない場合は最初のフレームから開始
+    let position = this.lastFrame ? this.position : Math.max(this.position, 0);
+    const output: number[] = [];
+
+    while (Math.floor(position) + 1 < frames) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      for (let channel = 0; channel < channels; channel++) {
+        const a = sampleAt(index, channel);
+        const b = sampleAt(index + 1, channel);
+        output.push(Math.round(a + (b - a) * fraction));
+      }
+      position += this.ratio;
+    }
+
+    this.position = position - frames;
+    this.lastFrame = samples.slice((frames - 1) * channels, frames * channels);
+
+    return Int16Array.from(output);
+  }
+}
+
+/**
+ * 非圧縮の音声 (pcm16 / mulaw) 同士の変換
+ * チャンネル数の変換とリサンプリングをプロセス内で行う
+ */
+class RawTranscoder implements AudioTranscoder {
+  private resampler: LinearResampler | null;
+  private remainder: Buffer = Buffer.alloc(0); // フレームに満たない端数のバイト
+
+  constructor(
+    readonly from: AudioFormat,
+    readonly to: AudioFormat
+  ) {
+    this.resampler =
+      from.sampleRate !== to.sampleRate
+        ? new LinearResampler(from.sampleRate, to.sampleRate, to.channels)
+        : null;
+  }
+
+  async write(data: Buffer): Promise<Buffer> {
+    const frameBytes =
+      (this.from.encoding === 'pcm16' ? 2 : 1) * this.from.channels;
+    const input = Buffer.concat([this.remainder, data]);
+    const usable = input.length - (input.length % frameBytes);
+    this.remainder = input.subarray(usable);
+
+    const decoded =
+      this.from.encoding === 'pcm16'
+        ? readPcm16(input.subarray(0, usable))
+        : decodeMulaw(input.subarray(0, usable));
+
+    let samples = convertChannels(
+      decoded,
+      this.from.channels,
+      this.to.channels
+    );
+    if (this.resampler) {
+      samples = this.resampler.process(samples);
+    }
+
+    return this.to.encoding === 'pcm16'
+      ? writePcm16(samples)
+      : encodeMulaw(samples);
+  }
+
+  async end(): Promise<Buffer> {
+    this.remainder = Buffer.alloc(0);
+    return Buffer.alloc(0);
+  }
+
+  close(): void {
+    this.remainder = Buffer.alloc(0);
+  }
+}
+
+/**
+ * ffmpeg による変換 (Opus / MP3 などの圧縮形式を含む場合)
+ * 1つの変換につき1つの ffmpeg プロセスを起動し、標準入出力で音声をやり取りする
+ */
+class FfmpegTranscoder implements AudioTranscoder {
+  private process: ChildProcessWithoutNullStreams;
+  private output: Buffer[] = [];
+  private stderr: string = '';
+  private error: Error | null = null;
+  private exited: Promise<number | null>;
+
+  constructor(
+    readonly from: AudioFormat,
+    readonly to: AudioFormat
+  ) {
+    this.process = spawn(config.audio.ffmpegPath, [
+      '-hide_banner',
+      '-loglevel',
+      'error',
+      ...inputArgs(from),
+      '-i',
+      'pipe:0',
+      ...outputArgs(to),
+      'pipe:1',
+    ]);
+
+    this.process.stdout.on('data', (data: Buffer) => {
+      this.output.push(data);
+    });
+    this.process.stderr.on('data', (data: Buffer) => {
+      this.stderr = (this.stderr + data.toString()).slice(-1000);
+    });
+    // 終了後の書き込みによる EPIPE は exit で扱う
+    this.process.stdin.on('error', (error) => {
+      logger.debug('ffmpeg stdin error', { error });
+    });
+
+    this.exited = new Promise((resolve) => {
+      this.process.on('error', (error) => {
+        this.error = error;
+        resolve(null);
+      });
+      this.process.on('close', (code) => resolve(code));
+    });
+  }
+
+  async write(data: Buffer): Promise<Buffer> {
+    this.assertRunning();
+    this.process.stdin.write(data);
+    return this.drain();
+  }
+
+  async end(): Promise<Buffer> {
+    this.assertRunning();
+    this.process.stdin.end();
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(
+        () => resolve('timeout'),
+        config.audio.transcodeTimeoutMs
+      );
+    });
+    const code = await Promise.race([this.exited, timeout]);
+    clearTimeout(timer);
+
+    if (code === 'timeout') {
+      this.close();
+      throw this.failure('ffmpeg timed out');
+    }
+    if (code !== 0) {
+      throw this.failure(this.error?.message ?? `ffmpeg exited with ${code}`);
+    }
+
+    return this.drain();
+  }
+
+  close(): void {
+    if (this.process.exitCode === null && !this.process.killed) {
+      this.process.kill();
+    }
+    this.output = [];
+  }
+
+  private drain(): Buffer {
+    const data = Buffer.concat(this.output);
+    this.output = [];
+    return data;
+  }
+
+  private assertRunning(): void {
+    if (this.error) {
+      throw this.failure(this.error.message);
+    }
+    if (this.process.exitCode !== null) {
+      throw this.failure(`ffmpeg exited with ${this.process.exitCode}`);
+    }
+  }
+
+  private failure(reason: string): TranslationError {
+    logger.error('Audio transcoding failed', {
+      reason,
+      stderr: this.stderr,
+      from: formatKey(this.from),
+      to: formatKey(this.to),
+    });
+
+    return new TranslationError(
+      'Audio transcoding failed',
+      'AUDIO_TRANSCODE_FAILED',
+      { from: this.from, to: this.to }
+    );
+  }
+}
+
+/**
+ * ffmpeg の入力オプション
+ */
+function inputArgs(format: AudioFormat): string[] {
+  switch (format.encoding) {
+    case 'webm_opus':
+      return ['-f', 'webm'];
+    case 'mp3':
+      return ['-f', 'mp3'];
+    default:
+      return [
+        '-f',
+        format.encoding === 'pcm16' ? 's16le' : 'mulaw',
+        '-ar',
+        String(format.sampleRate),
+        '-ac',
+        String(format.channels),
+      ];
+  }
+}
+
+/**
+ * ffmpeg の出力オプション
+ */
+function outputArgs(format: AudioFormat): string[] {
+  const common = [
+    '-ar',
+    String(format.sampleRate),
+    '-ac',
+    String(format.channels),
+  ];
+
+  switch (format.encoding) {
+    case 'webm_opus':
+      return ['-c:a', 'libopus', ...common, '-f', 'webm'];
+    case 'mp3':
+      return ['-c:a', 'libmp3lame', ...common, '-b:a', '128k', '-f', 'mp3'];
+    case 'mulaw':
+      return ['-c:a', 'pcm_mulaw', ...common, '-f', 'mulaw'];
+    default:
+      return ['-c:a', 'pcm_s16le', ...common, '-f', 's16le'];
+  }
+}
+
+/**
+ * フォーマットに応じた変換を作成
+ */
+export function createTranscoder(
+  from: AudioFormat,
+  to: AudioFormat
+): AudioTranscoder {
+  if (isSameFormat(from, to)) {
+    return new PassthroughTranscoder(from, to);
+  }
+
+  if (isRawEncoding(from.encoding) && isRawEncoding(to.encoding)) {
+    return new RawTranscoder(from, to);
+  }
+
+  return new FfmpegTranscoder(from, to);
+}
+
+/**
+ * 音声全体を変換
+ */
+export async function transcode(
+  data: Buffer,
+  from: AudioFormat,
+  to: AudioFormat
+): Promise<Buffer> {
+  const transcoder = createTranscoder(from, to);
+
+  try {
+    const head = await transcoder.write(data);
+    const tail = await transcoder.end();
+    return Buffer.concat([head, tail]);
+  } finally {
+    transcoder.close();
+  }
+}
+
+/**
+ * 変換に ffmpeg が必要かどうか
+ */
+export function requiresFfmpeg(from: AudioFormat, to: AudioFormat): boolean {
+  return (
+    !isSameFormat(from, to) &&
+    (!isRawEncoding(from.encoding) || !isRawEncoding(to.encoding))
+  );
+}
+
+let ffmpegCheck: Promise<boolean> | null = null;
+
+/**
+ * ffmpeg を実行できるかどうか (結果はプロセス内でキャッシュ)
+ */
+export function isFfmpegAvailable(): Promise<boolean> {
+  if (!ffmpegCheck) {
+    ffmpegCheck = new Promise((resolve) => {
+      const child = spawn(config.audio.ffmpegPath, ['-version']);
+      child.on('error', () => resolve(false));
+      child.on('close', (code) => resolve(code === 0));
+    });
+  }
+
+  return ffmpegCheck;
+}
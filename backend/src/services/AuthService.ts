@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { config } from '../config';
+import { AuthUser, UserRole, TranslationError } from '../types';
+
+// 役割の序列 (上位の役割は下位の役割の操作も可能)
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  host: 1,
+  admin: 2,
+};
+
+// 認証無効時のユーザー (すべての操作が可能)
+const ANONYMOUS_USER: AuthUser = {
+  id: 'anonymous',
+  role: 'admin',
+  tenantId: 'default',
+  method: 'anonymous',
+};
+
+type AuthOptions = typeof config.auth;
+
+/**
+ * 認証サービス
+ * JWT (HS256) またはAPIキーでユーザーと役割を特定する
+ */
+export class AuthService {
+  private options: AuthOptions;
+
+  constructor(options: AuthOptions = config.auth) {
+    this.options = options;
+  }
+
+  /**
+   * 認証が有効かどうか
+   */
+  isEnabled(): boolean {
+    return this.options.enabled;
+  }
+
+  /**
+   * 認証情報 (APIキーまたはJWT) を検証してユーザーを返す
+   */
+  authenticate(credential?: string): AuthUser {
+    if (!this.options.enabled) {
+      return { ...ANONYMOUS_USER };
+    }
+
+    if (!credential) {
+      throw new TranslationError('Authentication required', 'AUTH_REQUIRED');
+    }
+
+    const apiKeyUser = this.findApiKey(credential);
+    if (apiKeyUser) {
+      return apiKeyUser;
+    }
+
+    if (this.options.jwtSecret && credential.split('.').length === 3) {
+      return this.verifyJwt(credential);
+    }
+
+    throw new TranslationError('Invalid credentials', 'AUTH_INVALID_TOKEN');
+  }
+
+  /**
+   * APIキーを照合 (長さに依存しないようハッシュ同士を比較)
+   */
+  private findApiKey(credential: string): AuthUser | null {
+    const digest = sha256(credential);
+    const entry = this.options.apiKeys.find((apiKey) =>
+      crypto.timingSafeEqual(sha256(apiKey.key), digest)
+    );
+
+    return entry
+      ? {
+          id: entry.userId,
+          role: entry.role as UserRole,
+          tenantId: entry.tenantId,
+          method: 'api_key',
+        }
+      : null;
+  }
+
+  /**
+   * JWTを検証 (署名・有効期限・発行者・対象者・役割)
+   */
+  private verifyJwt(token: string): AuthUser {
+    const [header, payload, signature] = token.split('.');
+
+    if (decodeSegment(header)?.alg !== 'HS256') {
+      throw new TranslationError(
+        'Unsupported token algorithm',
+        'AUTH_INVALID_TOKEN'
+      );
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.options.jwtSecret)
+      .update(`${header}.${payload}`)
+      .digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (
+      actual.length !== expected.length ||
+      !crypto.timingSafeEqual(actual, expected)
+    ) {
+      throw new TranslationError(
+        'Invalid token signature',
+        'AUTH_INVALID_TOKEN'
+      );
+    }
+
+    const claims = decodeSegment(payload);
+    if (!claims) {
+      throw new TranslationError('Invalid token payload', 'AUTH_INVALID_TOKEN');
+    }
+
+    const now = Date.now() / 1000;
+    const tolerance = this.options.clockToleranceSeconds;
+    if (typeof claims.exp !== 'number') {
+      throw new TranslationError(
+        'Token has no expiration',
+        'AUTH_INVALID_TOKEN'
+      );
+    }
+    if (now > claims.exp + tolerance) {
+      throw new TranslationError('Token expired', 'AUTH_TOKEN_EXPIRED');
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf - tolerance) {
+      throw new TranslationError(
+        'Token is not yet valid',
+        'AUTH_INVALID_TOKEN'
+      );
+    }
+
+    if (this.options.jwtIssuer && claims.iss !== this.options.jwtIssuer) {
+      throw new TranslationError('Invalid token issuer', 'AUTH_INVALID_TOKEN');
+    }
+    if (this.options.jwtAudience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.options.jwtAudience)) {
+        throw new TranslationError(
+          'Invalid token audience',
+          'AUTH_INVALID_TOKEN'
+        );
+      }
+    }
+
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new TranslationError('Token has no subject', 'AUTH_INVALID_TOKEN');
+    }
+    // in 演算子は "toString" などのプロトタイプのキーも受け付けるため使わない
+    if (!Object.prototype.hasOwnProperty.call(ROLE_RANK, claims.role)) {
+      throw new TranslationError('Invalid token role', 'AUTH_INVALID_TOKEN');
+    }
+
+    // テナントの指定がない場合はユーザー単位で計上
+    const tenantId =
+      typeof claims.tenant === 'string' && claims.tenant
+        ? claims.tenant
+        : claims.sub;
+
+    return { id: claims.sub, role: claims.role, tenantId, method: 'jwt' };
+  }
+}
+
+/**
+ * ユーザーが指定した役割 (またはその上位の役割) を持つかどうか
+ */
+export function hasRole(user: AuthUser, role: UserRole): boolean {
+  return ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
+
+/**
+ * リクエストから認証情報を取り出す
+ * Authorization: Bearer または X-API-Key ヘッダーを使用し、
+ * allowQuery の場合は ?token= も受け付ける (ブラウザのWebSocketはヘッダーを設定できないため)
+ */
+export function credentialFrom(
+  req: IncomingMessage,
+  allowQuery: boolean = false
+): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const apiKey = req.headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey) {
+    return apiKey;
+  }
+
+  if (allowQuery && req.url) {
+    return (
+      new URL(req.url, 'http://localhost').searchParams.get('token') ??
+      undefined
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * 許可されたオリジンかどうか (Originヘッダーのないブラウザ以外のクライアントは許可)
+ */
+export function isOriginAllowed(origin?: string): boolean {
+  return (
+    !origin ||
+    config.cors.origins.includes('*') ||
+    config.cors.origins.includes(origin)
+  );
+}
+
+function sha256(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+function decodeSegment(segment: string): any | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString());
+    return decoded && typeof decoded === 'object' ? decoded : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+let authService: AuthService | null = null;
+
+/**
+ * 認証サービスを取得
+ */
+export function getAuthService(): AuthService {
+  if (!authService) {
+    authService = new AuthService();
+  }
+
+  return authService;
+}
@@ -0,0 +1,152 @@
+import {
+  TTSResult,
+  SupportedLanguage,
+  TTSProvider,
+  TTSChunk,
+  TTSOptions,
+  TTSInput,
+} from '../types';
+import { ProviderCache, normalizeCacheText } from './ProviderCache';
+
+/**
+ * 合成した音声をキャッシュするTTSプロバイダー (他のプロバイダーをラップ)
+ * キーは正規化したテキスト・言語・ボイス・モデル・ボイス設定・プロバイダー
+ */
+export class CachedTTSProvider implements TTSProvider {
+  readonly name: string;
+  // ラップするプロバイダーが対応している場合のみ
+  readonly synthesizeStream?: TTSProvider['synthesizeStream'];
+  private provider: TTSProvider;
+  private cache: ProviderCache<Buffer>;
+
+  constructor(provider: TTSProvider, cache: ProviderCache<Buffer>) {
+    this.provider = provider;
+    this.cache = cache;
+    this.name = provider.name;
+
+    if (provider.synthesizeStream) {
+      this.synthesizeStream = (text, language, onChunk, options) =>
+        this.synthesizeStreamCached(text, language, onChunk, options);
+    }
+  }
+
+  /**
+   * テキストを音声に変換 (キャッシュにあればプロバイダーを呼ばない)
+   */
+  async synthesize(
+    text: string,
+    language: SupportedLanguage,
+    options: TTSOptions = {}
+  ): Promise<TTSResult> {
+    const key = this.createKey(text, language, options);
+    const cached = await this.cache.get(key);
+    if (cached) {
+      return this.toResult(cached, language, options);
+    }
+
+    const result = await this.provider.synthesize(text, language, options);
+    this.store(key, result);
+
+    return result;
+  }
+
+  /**
+   * 複数のテキストを並列で音声に変換
+   */
+  async synthesizeMultiple(inputs: TTSInput[]): Promise<TTSResult[]> {
+    return Promise.all(
+      inputs.map((input) =>
+        this.synthesize(input.text, input.language, { voiceId: input.voiceId })
+      )
+    );
+  }
+
+  /**
+   * ヘルスチェック
+   */
+  async healthCheck(): Promise<boolean> {
+    return this.provider.healthCheck();
+  }
+
+  /**
+   * ストリーミング合成
+   * キャッシュにある場合は音声全体を1つのチャンクとして通知する
+   */
+  private async synthesizeStreamCached(
+    text: string,
+    language: SupportedLanguage,
+    onChunk: (chunk: TTSChunk) => void,
+    options: TTSOptions = {}
+  ): Promise<TTSResult> {
+    const key = this.createKey(text, language, options);
+    const cached = await this.cache.get(key);
+    if (cached) {
+      const result = this.toResult(cached, language, options);
+      onChunk({
+        language,
+        sequence: 0,
+        audioData: cached,
+        isFinal: true,
+        timestamp: result.timestamp,
+      });
+      return result;
+    }
+
+    const result = await this.provider.synthesizeStream!(
+      text,
+      language,
+      onChunk,
+      options
+    );
+    this.store(key, result);
+
+    return result;
+  }
+
+  /**
+   * 合成した音声を保存 (空の音声は保存しない)
+   */
+  private store(key: string, result: TTSResult): void {
+    if (result.audioData.length > 0) {
+      this.cache.set(key, result.audioData);
+    }
+  }
+
+  /**
+   * キャッシュの音声から結果を作成
+   */
+  private toResult(
+    audioData: Buffer,
+    language: SupportedLanguage,
+    options: TTSOptions
+  ): TTSResult {
+    return {
+      audioData,
+      language,
+      timestamp: Date.now(),
+      voiceId: options.voiceId,
+    };
+  }
+
+  /**
+   * キャッシュキーを作成
+   * ボイス・モデル・ボイス設定はプロバイダーのデフォルトを補ったものを使い、
+   * デフォルトや設定を変更した後に以前の音声を使わないようにする
+   */
+  private createKey(
+    text: string,
+    language: SupportedLanguage,
+    options: TTSOptions
+  ): string {
+    const voice = this.provider.resolveVoice?.(language, options);
+
+    return ProviderCache.createKey([
+      normalizeCacheText(text),
+      language,
+      voice?.voiceId ?? options.voiceId,
+      voice?.modelId ?? options.modelId,
+      voice && JSON.stringify(voice.settings),
+      this.provider.name,
+    ]);
+  }
+}
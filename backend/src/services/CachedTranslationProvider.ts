@@ -0,0 +1,122 @@
+import { logger } from '../utils/logger';
+import {
+  TranslationResult,
+  SupportedLanguage,
+  TranslationProvider,
+} from '../types';
+import { GlossaryService } from './GlossaryService';
+import { ProviderCache, normalizeCacheText } from './ProviderCache';
+
+/**
+ * 翻訳結果をキャッシュする翻訳プロバイダー (他のプロバイダーをラップ)
+ * キーは正規化したテキスト・翻訳元・翻訳先・プロバイダー・用語集 (更新日時を含む)
+ */
+export class CachedTranslationProvider implements TranslationProvider {
+  readonly name: string;
+  readonly supportsNativeGlossary?: boolean;
+  private provider: TranslationProvider;
+  private cache: ProviderCache<TranslationResult>;
+  private glossaries: GlossaryService;
+
+  constructor(
+    provider: TranslationProvider,
+    cache: ProviderCache<TranslationResult>,
+    glossaries: GlossaryService
+  ) {
+    this.provider = provider;
+    this.cache = cache;
+    this.glossaries = glossaries;
+    this.name = provider.name;
+    this.supportsNativeGlossary = provider.supportsNativeGlossary;
+  }
+
+  /**
+   * テキストを翻訳 (キャッシュにあればプロバイダーを呼ばない)
+   */
+  async translate(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    glossaryId?: string
+  ): Promise<TranslationResult> {
+    const key = await this.createKey(text, sourceLang, targetLang, glossaryId);
+    if (!key) {
+      return this.provider.translate(text, sourceLang, targetLang, glossaryId);
+    }
+
+    const cached = await this.cache.get(key);
+    if (cached) {
+      return { ...cached, originalText: text, timestamp: Date.now() };
+    }
+
+    const result = await this.provider.translate(
+      text,
+      sourceLang,
+      targetLang,
+      glossaryId
+    );
+    this.cache.set(key, result);
+
+    return result;
+  }
+
+  /**
+   * 複数の言語に一括翻訳
+   */
+  async translateMultiple(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLangs: SupportedLanguage[],
+    glossaryId?: string
+  ): Promise<TranslationResult[]> {
+    const promises = targetLangs
+      .filter((lang) => lang !== sourceLang)
+      .map((targetLang) =>
+        this.translate(text, sourceLang, targetLang, glossaryId)
+      );
+
+    return Promise.all(promises);
+  }
+
+  /**
+   * ヘルスチェック
+   */
+  async healthCheck(): Promise<boolean> {
+    return this.provider.healthCheck();
+  }
+
+  /**
+   * キャッシュキーを作成
+   * 用語集は更新日時を含め、更新前の翻訳を使わないようにする (取得できない場合は null = キャッシュしない)
+   */
+  private async createKey(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    glossaryId?: string
+  ): Promise<string | null> {
+    let glossaryVersion: string | undefined;
+
+    if (glossaryId) {
+      try {
+        const glossary = await this.glossaries.getForTranslation(glossaryId);
+        glossaryVersion = glossary ? String(glossary.updatedAt) : 'external';
+      } catch (error) {
+        logger.warn('Failed to load glossary for translation cache', {
+          error,
+          glossaryId,
+        });
+        return null;
+      }
+    }
+
+    return ProviderCache.createKey([
+      normalizeCacheText(text),
+      sourceLang,
+      targetLang,
+      this.provider.name,
+      glossaryId,
+      glossaryVersion,
+    ]);
+  }
+}
@@ -0,0 +1,136 @@
+import WebSocket from 'ws';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { AuthUser } from '../types';
+
+interface SentMessage {
+  seq: number;
+  payload: string; // 送信済みのJSON
+}
+
+/**
+ * クライアントのセッション
+ * WebSocket接続とは独立しており、切断後も猶予期間内であれば別の接続で再開できる
+ * サーバーからのメッセージには連番 (seq) を付与し、再開時の再送用に保持する
+ */
+export class ClientSession {
+  readonly id: string;
+  readonly token: string; // 再開用のトークン (クライアントのみに通知)
+  readonly user: AuthUser; // 接続時に認証したユーザー
+  private ws: WebSocket | null;
+  private sequence: number = 0;
+  private history: SentMessage[] = [];
+  private historyBytes: number = 0;
+  private graceTimer: NodeJS.Timeout | null = null;
+
+  constructor(ws: WebSocket, user: AuthUser) {
+    this.id = uuidv4();
+    this.token = crypto.randomBytes(24).toString('base64url');
+    this.user = user;
+    this.ws = ws;
+  }
+
+  /**
+   * 連番を付与してメッセージを送信 (切断中は再送用に保持のみ)
+   */
+  send(message: object): number {
+    const seq = ++this.sequence;
+    const payload = JSON.stringify({ ...message, seq });
+
+    this.history.push({ seq, payload });
+    this.historyBytes += payload.length;
+    this.trimHistory();
+
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(payload);
+    }
+
+    return seq;
+  }
+
+  /**
+   * 接続を割り当て、lastSequence より後のメッセージを再送
+   * 以前の接続が残っている場合はそれを返す
+   */
+  attach(
+    ws: WebSocket,
+    lastSequence: number
+  ): { previous: WebSocket | null; replayed: number; missed: number } {
+    this.clearGraceTimer();
+
+    const previous = this.ws && this.ws !== ws ? this.ws : null;
+    this.ws = ws;
+
+    const pending = this.history.filter(
+      (message) => message.seq > lastSequence
+    );
+    const firstAvailable = pending[0]?.seq ?? this.sequence + 1;
+    const missed = Math.max(0, firstAvailable - lastSequence - 1);
+
+    pending.forEach((message) => ws.send(message.payload));
+
+    return { previous, replayed: pending.length, missed };
+  }
+
+  /**
+   * 接続を切り離し、猶予期間が過ぎたら onExpire を呼び出す
+   * (既に別の接続に置き換わっている場合は何もしない)
+   */
+  detach(ws: WebSocket, onExpire: () => void): void {
+    if (this.ws !== ws) {
+      return;
+    }
+
+    this.ws = null;
+    this.clearGraceTimer();
+    this.graceTimer = setTimeout(() => {
+      this.graceTimer = null;
+      onExpire();
+    }, config.session.resumeGraceMs);
+  }
+
+  /**
+   * 接続中かどうか
+   */
+  isConnected(): boolean {
+    return this.ws !== null;
+  }
+
+  /**
+   * 最後に送信したメッセージの連番
+   */
+  getLastSequence(): number {
+    return this.sequence;
+  }
+
+  /**
+   * セッションを破棄
+   */
+  close(): void {
+    this.clearGraceTimer();
+    this.ws = null;
+    this.history = [];
+    this.historyBytes = 0;
+  }
+
+  /**
+   * 再送用の履歴を上限 (件数・サイズ) まで古い順に削除
+   */
+  private trimHistory(): void {
+    while (
+      this.history.length > 1 &&
+      (this.history.length > config.session.replayBufferSize ||
+        this.historyBytes > config.session.replayBufferBytes)
+    ) {
+      this.historyBytes -= this.history.shift()!.payload.length;
+    }
+  }
+
+  private clearGraceTimer(): void {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+  }
+}
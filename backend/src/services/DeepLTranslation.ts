@@ -0,0 +1,125 @@
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import {
+  TranslationResult,
+  SupportedLanguage,
+  TranslationProvider,
+} from '../types';
+import { getLanguage } from '../config/languages';
+
+/**
+ * DeepL 翻訳サービス (Google Cloud Translation のフォールバック)
+ */
+export class DeepLTranslation implements TranslationProvider {
+  readonly name = 'deepl';
+  private client: AxiosInstance;
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: config.deepl.apiUrl,
+      headers: {
+        Authorization: `DeepL-Auth-Key ${config.deepl.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * テキストを翻訳
+   */
+  async translate(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    glossaryId?: string
+  ): Promise<TranslationResult> {
+    try {
+      const startTime = Date.now();
+
+      if (glossaryId) {
+        // Google の用語集IDは DeepL では使用できない
+        logger.debug('Glossary is not applied for DeepL', { glossaryId });
+      }
+
+      const response = await this.client.post('/translate', {
+        text: [text],
+        source_lang: this.mapSourceLanguageCode(sourceLang),
+        target_lang: this.mapTargetLanguageCode(targetLang),
+      });
+
+      const translatedText = response.data.translations?.[0]?.text || '';
+      const latency = Date.now() - startTime;
+
+      logger.debug('DeepL translation completed', {
+        sourceLang,
+        targetLang,
+        latency,
+        textLength: text.length,
+      });
+
+      return {
+        originalText: text,
+        translatedText,
+        sourceLang,
+        targetLang,
+        confidence: 0.9, // DeepL APIは信頼度を返さないため固定値
+        timestamp: Date.now(),
+        provider: this.name,
+      };
+    } catch (error: any) {
+      logger.error('DeepL translation failed', {
+        error: error.response?.data || error.message,
+        sourceLang,
+        targetLang,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 複数の言語に一括翻訳
+   */
+  async translateMultiple(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLangs: SupportedLanguage[],
+    glossaryId?: string
+  ): Promise<TranslationResult[]> {
+    const promises = targetLangs
+      .filter((lang) => lang !== sourceLang)
+      .map((targetLang) =>
+        this.translate(text, sourceLang, targetLang, glossaryId)
+      );
+
+    return Promise.all(promises);
+  }
+
+  /**
+   * 言語コードをDeepLの翻訳元言語コードにマッピング
+   */
+  private mapSourceLanguageCode(lang: SupportedLanguage): string {
+    return getLanguage(lang).providers.deepl.source;
+  }
+
+  /**
+   * 言語コードをDeepLの翻訳先言語コードにマッピング
+   */
+  private mapTargetLanguageCode(lang: SupportedLanguage): string {
+    return getLanguage(lang).providers.deepl.target;
+  }
+
+  /**
+   * ヘルスチェック
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      // 使用量の取得でヘルスチェック
+      await this.client.get('/usage');
+      return true;
+    } catch (error) {
+      logger.error('DeepL service health check failed', { error });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { config } from '../config';
+import { STTResult, SupportedLanguage } from '../types';
+
+type EchoOptions = typeof config.echoSuppression;
+
+// 抑制した理由 (ボット自身の音声 / 直近のTTS出力と一致)
+export type EchoReason = 'bot_participant' | 'tts_match';
+
+/**
+ * 照合用に保持するTTS出力
+ */
+interface RecentOutput {
+  language: SupportedLanguage;
+  bigrams: Set<string>;
+  timestamp: number;
+}
+
+/**
+ * 照合用にテキストを正規化 (全角・半角、大文字・小文字、空白・記号の違いを無視)
+ */
+function normalize(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+/**
+ * 文字の2-gram (空白で区切らない言語も同じ方法で比較する)
+ */
+function bigrams(text: string): Set<string> {
+  const chars = [...text];
+  if (chars.length < 2) {
+    return new Set(chars);
+  }
+
+  const result = new Set<string>();
+  for (let i = 0; i < chars.length - 1; i++) {
+    result.add(chars[i] + chars[i + 1]);
+  }
+  return result;
+}
+
+/**
+ * エコーの抑制
+ * 会議やスピーカーで再生したTTS音声が再び入力され、翻訳が繰り返されるのを防ぐ
+ *
+ * - 会議に参加しているボット (名前が RECALL_BOT_NAME のもの) の音声
+ * - 直近に合成したTTSのテキストと一致する認識結果
+ */
+export class EchoSuppressor {
+  private options: EchoOptions;
+  private botName: string;
+  private outputs: RecentOutput[] = [];
+  private botParticipants: Set<string> = new Set();
+
+  constructor(
+    options: EchoOptions = config.echoSuppression,
+    botName: string = config.recall.botName
+  ) {
+    this.options = options;
+    this.botName = botName;
+  }
+
+  /**
+   * 合成したTTSのテキストを記録
+   */
+  recordOutput(text: string, language: SupportedLanguage): void {
+    if (!this.options.enabled) {
+      return;
+    }
+
+    const normalized = normalize(text);
+    if (!normalized) {
+      return;
+    }
+
+    this.prune();
+    this.outputs.push({
+      language,
+      bigrams: bigrams(normalized),
+      timestamp: Date.now(),
+    });
+    if (this.outputs.length > this.options.maxEntries) {
+      this.outputs.shift();
+    }
+  }
+
+  /**
+   * 参加者がボット自身かどうか (表示名がボットの名前の参加者を記録する)
+   */
+  isBotParticipant(id?: string, name?: string): boolean {
+    if (!this.options.enabled || !id) {
+      return false;
+    }
+
+    if (
+      name &&
+      (name === this.botName || name.startsWith(`${this.botName} (`))
+    ) {
+      this.botParticipants.add(id);
+    }
+
+    return this.botParticipants.has(id);
+  }
+
+  /**
+   * 認識結果がエコーかどうかを判定 (エコーでない場合は null)
+   */
+  check(result: STTResult): EchoReason | null {
+    if (!this.options.enabled) {
+      return null;
+    }
+
+    if (this.isBotParticipant(result.speakerId)) {
+      return 'bot_participant';
+    }
+
+    return this.matchesOutput(result) ? 'tts_match' : null;
+  }
+
+  /**
+   * 直近のTTS出力のいずれかと一致するか
+   * 認識結果の2-gramのうち、TTS出力に含まれる割合で判定する (発話の一部だけを認識した場合も一致とする)
+   */
+  private matchesOutput(result: STTResult): boolean {
+    const normalized = normalize(result.text);
+    if ([...normalized].length < this.options.minChars) {
+      return false;
+    }
+
+    this.prune();
+    const target = bigrams(normalized);
+
+    return this.outputs.some((output) => {
+      if (
+        result.language !== 'unknown' &&
+        result.language !== output.language
+      ) {
+        return false;
+      }
+
+      let shared = 0;
+      target.forEach((bigram) => {
+        if (output.bigrams.has(bigram)) {
+          shared++;
+        }
+      });
+      return shared / target.size >= this.options.similarity;
+    });
+  }
+
+  /**
+   * 照合期間を過ぎたTTS出力を削除
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.options.windowMs;
+    while (this.outputs.length > 0 && this.outputs[0].timestamp < cutoff) {
+      this.outputs.shift();
+    }
+  }
+}
@@ -2,14 +2,21 @@ import WebSocket from 'ws';
 import { EventEmitter } from 'events';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { STTResult, AudioChunk, SupportedLanguage } from '../types';
+import { STTResult, AudioChunk, DetectedLanguage, STTProvider } from '../types';
+import { resolveLanguage } from '../config/languages';
+import { PCM16_16K_MONO } from '../utils/audioFormat';
+import { getMetricsService } from './MetricsService';
 
 /**
  * ElevenLabs Scribe v2 Realtime STTサービス
  */
-export class ElevenLabsSTT extends EventEmitter {
+export class ElevenLabsSTT extends EventEmitter implements STTProvider {
+  readonly name = 'elevenlabs';
+  readonly inputFormat = PCM16_16K_MONO;
   private ws: WebSocket | null = null;
   private isConnected: boolean = false;
+  private closedByClient: boolean = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
 
@@ -19,9 +26,15 @@ export class ElevenLabsSTT extends EventEmitter {
 
   /**
    * WebSocket接続を確立
+   * disconnect() で閉じた後は接続しない (再接続の予約が残っていた場合も含む)
    */
   async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
+      if (this.closedByClient) {
+        reject(new Error('STT client has been disconnected'));
+        return;
+      }
+
       try {
         const wsUrl = `${config.elevenlabs.sttWsUrl}?api_key=${config.elevenlabs.apiKey}`;
 
@@ -40,16 +53,27 @@ export class ElevenLabsSTT extends EventEmitter {
         });
 
         this.ws.on('error', (error) => {
+          reject(error);
+
+          // 接続中に閉じた場合のエラーは通知しない
+          if (this.closedByClient) {
+            logger.debug('ElevenLabs STT WebSocket closed while connecting');
+            return;
+          }
+
           logger.error('ElevenLabs STT WebSocket error', { error });
           this.emit('error', error);
-          reject(error);
         });
 
         this.ws.on('close', () => {
           logger.info('ElevenLabs STT WebSocket closed');
           this.isConnected = false;
           this.emit('disconnected');
-          this.handleReconnect();
+
+          // 明示的に切断した場合は再接続しない
+          if (!this.closedByClient) {
+            this.handleReconnect();
+          }
         });
       } catch (error) {
         logger.error('Failed to connect to ElevenLabs STT', { error });
@@ -107,6 +131,8 @@ export class ElevenLabsSTT extends EventEmitter {
         type: 'audio',
         audio: audioBase64,
         timestamp: chunk.timestamp,
+        // 発話の終了 (VADが検出) では認識結果の確定を要求
+        ...(chunk.utteranceEnd && { commit: true }),
       };
 
       this.ws.send(JSON.stringify(message));
@@ -127,13 +153,15 @@ export class ElevenLabsSTT extends EventEmitter {
     }
 
     this.reconnectAttempts++;
+    getMetricsService().countReconnect('stt');
     const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
 
     logger.info(`Attempting to reconnect STT in ${delay}ms`, {
       attempt: this.reconnectAttempts,
     });
 
-    setTimeout(() => {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       this.connect().catch((error) => {
         logger.error('Reconnect failed', { error });
       });
@@ -141,30 +169,34 @@ export class ElevenLabsSTT extends EventEmitter {
   }
 
   /**
-   * 言語コードをマッピング
+   * 言語コードをマッピング (レジストリにない言語は 'unknown')
    */
-  private mapLanguageCode(code: string): SupportedLanguage {
-    const mapping: Record<string, SupportedLanguage> = {
-      ja: 'ja',
-      'ja-JP': 'ja',
-      'zh-TW': 'zh-Hant-TW',
-      'zh-Hant': 'zh-Hant-TW',
-      fr: 'fr',
-      'fr-FR': 'fr',
-    };
-
-    return mapping[code] || 'ja';
+  private mapLanguageCode(code: string): DetectedLanguage {
+    const language = resolveLanguage(code);
+    if (!language) {
+      logger.warn('Unsupported language detected by STT', { code });
+      return 'unknown';
+    }
+
+    return language;
   }
 
   /**
-   * 接続を閉じる
+   * 接続を閉じる (予約済みの再接続も取り消す)
    */
   disconnect(): void {
+    this.closedByClient = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     if (this.ws) {
       this.ws.close();
       this.ws = null;
-      this.isConnected = false;
     }
+    this.isConnected = false;
   }
 
   /**
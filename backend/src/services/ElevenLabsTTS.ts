@@ -1,45 +1,42 @@
 import axios from 'axios';
+import WebSocket from 'ws';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { TTSResult, SupportedLanguage } from '../types';
+import {
+  TTSResult,
+  SupportedLanguage,
+  SUPPORTED_LANGUAGES,
+  TTSProvider,
+  TTSChunk,
+  TTSOptions,
+  TTSInput,
+  TTSVoice,
+} from '../types';
+import { getLanguage, LanguageVoice } from '../config/languages';
+
+// 低遅延のモデル
+const DEFAULT_MODEL_ID = 'eleven_flash_v2_5';
 
 /**
  * ElevenLabs TTS サービス
  */
-export class ElevenLabsTTS {
+export class ElevenLabsTTS implements TTSProvider {
+  readonly name = 'elevenlabs';
   private apiKey: string;
   private apiUrl: string;
-  private voiceSettings: Record<
-    SupportedLanguage,
-    {
-      voiceId: string;
-      stability: number;
-      similarityBoost: number;
-    }
-  >;
+  private voiceSettings: Record<SupportedLanguage, LanguageVoice>;
 
   constructor() {
     this.apiKey = config.elevenlabs.apiKey;
     this.apiUrl = config.elevenlabs.apiUrl;
 
-    // デフォルトのボイス設定
-    this.voiceSettings = {
-      ja: {
-        voiceId: 'EXAVITQu4vr4xnSDxMaL', // デフォルトの日本語ボイス
-        stability: 0.5,
-        similarityBoost: 0.75,
-      },
-      'zh-Hant-TW': {
-        voiceId: 'pNInz6obpgDQGcFmaJgB', // デフォルトの中国語ボイス
-        stability: 0.5,
-        similarityBoost: 0.75,
-      },
-      fr: {
-        voiceId: 'ThT5KcBeYPX3keUQqHPh', // デフォルトのフランス語ボイス
-        stability: 0.5,
-        similarityBoost: 0.75,
-      },
-    };
+    // デフォルトのボイス設定 (言語レジストリから)
+    this.voiceSettings = Object.fromEntries(
+      SUPPORTED_LANGUAGES.map((language) => [
+        language,
+        { ...getLanguage(language).voice },
+      ])
+    ) as Record<SupportedLanguage, LanguageVoice>;
   }
 
   /**
@@ -48,27 +45,23 @@ export class ElevenLabsTTS {
   async synthesize(
     text: string,
     language: SupportedLanguage,
-    modelId: string = 'eleven_flash_v2_5'
+    options: TTSOptions = {}
   ): Promise<TTSResult> {
     try {
       const startTime = Date.now();
 
-      const voiceSetting = this.voiceSettings[language];
-      if (!voiceSetting) {
-        throw new Error(`Unsupported language for TTS: ${language}`);
-      }
-
-      const url = `${this.apiUrl}/text-to-speech/${voiceSetting.voiceId}/stream`;
+      const { voiceId, modelId, settings } = this.resolveVoice(
+        language,
+        options
+      );
+      const url = `${this.apiUrl}/text-to-speech/${voiceId}/stream`;
 
       const response = await axios.post(
         url,
         {
           text,
           model_id: modelId,
-          voice_settings: {
-            stability: voiceSetting.stability,
-            similarity_boost: voiceSetting.similarityBoost,
-          },
+          voice_settings: settings,
         },
         {
           headers: {
@@ -94,6 +87,7 @@ export class ElevenLabsTTS {
         audioData,
         language,
         timestamp: Date.now(),
+        voiceId,
       };
     } catch (error) {
       logger.error('TTS synthesis failed', {
@@ -105,19 +99,163 @@ export class ElevenLabsTTS {
     }
   }
 
+  /**
+   * テキストをストリーミングで音声に変換
+   * WebSocket にテキストを送り、受信した音声チャンクを順に onChunk で通知する
+   */
+  async synthesizeStream(
+    text: string,
+    language: SupportedLanguage,
+    onChunk: (chunk: TTSChunk) => void,
+    options: TTSOptions = {}
+  ): Promise<TTSResult> {
+    const { voiceId, modelId, settings } = this.resolveVoice(language, options);
+    const startTime = Date.now();
+    const url =
+      `${config.elevenlabs.ttsWsUrl}/${voiceId}/stream-input` +
+      `?model_id=${modelId}&output_format=mp3_44100_128&auto_mode=true`;
+
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url, {
+        headers: { 'xi-api-key': this.apiKey },
+      });
+      const chunks: Buffer[] = [];
+      let sequence = 0;
+      let settled = false;
+
+      const finish = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        ws.removeAllListeners();
+        ws.on('error', () => {});
+        ws.close();
+
+        if (error) {
+          logger.error('TTS stream failed', {
+            error,
+            language,
+            text: text.substring(0, 50),
+          });
+          reject(error);
+          return;
+        }
+
+        const audioData = Buffer.concat(chunks);
+        logger.debug('TTS stream completed', {
+          language,
+          latency: Date.now() - startTime,
+          chunks: sequence,
+          audioSize: audioData.length,
+        });
+        resolve({ audioData, language, timestamp: Date.now(), voiceId });
+      };
+
+      const emitChunk = (audioData: Buffer, isFinal: boolean) => {
+        if (sequence === 0) {
+          logger.debug('TTS first audio received', {
+            language,
+            latency: Date.now() - startTime,
+          });
+        }
+        chunks.push(audioData);
+        onChunk({
+          language,
+          sequence: sequence++,
+          audioData,
+          isFinal,
+          timestamp: Date.now(),
+        });
+      };
+
+      const timer = setTimeout(
+        () => finish(new Error('TTS stream timed out')),
+        config.elevenlabs.ttsStreamTimeoutMs
+      );
+
+      ws.on('open', () => {
+        // 最初のメッセージでボイス設定を送り、テキストを送った後に空文字で終了を通知
+        ws.send(
+          JSON.stringify({
+            text: ' ',
+            voice_settings: settings,
+          })
+        );
+        ws.send(JSON.stringify({ text: `${text} `, flush: true }));
+        ws.send(JSON.stringify({ text: '' }));
+      });
+
+      ws.on('message', (data: WebSocket.Data) => {
+        try {
+          const message = JSON.parse(data.toString());
+
+          if (message.error) {
+            finish(new Error(message.message || message.error));
+            return;
+          }
+
+          if (message.audio) {
+            emitChunk(Buffer.from(message.audio, 'base64'), false);
+          }
+
+          if (message.isFinal) {
+            // 最後のチャンクを示す空のチャンクを送る
+            emitChunk(Buffer.alloc(0), true);
+            finish();
+          }
+        } catch (error) {
+          finish(error as Error);
+        }
+      });
+
+      ws.on('error', (error) => finish(error));
+
+      ws.on('close', () => {
+        if (!settled && sequence > 0) {
+          emitChunk(Buffer.alloc(0), true);
+          finish();
+        } else {
+          finish(new Error('TTS stream closed before audio was received'));
+        }
+      });
+    });
+  }
+
   /**
    * 複数の言語で音声合成
    */
-  async synthesizeMultiple(
-    translations: Array<{ text: string; language: SupportedLanguage }>
-  ): Promise<TTSResult[]> {
+  async synthesizeMultiple(translations: TTSInput[]): Promise<TTSResult[]> {
     const promises = translations.map((t) =>
-      this.synthesize(t.text, t.language)
+      this.synthesize(t.text, t.language, { voiceId: t.voiceId })
     );
 
     return Promise.all(promises);
   }
 
+  /**
+   * 合成に使用するボイス・モデル・ボイス設定 (省略時は言語のデフォルト)
+   */
+  resolveVoice(
+    language: SupportedLanguage,
+    options: TTSOptions = {}
+  ): TTSVoice {
+    const voiceSetting = this.voiceSettings[language];
+    if (!voiceSetting) {
+      throw new Error(`Unsupported language for TTS: ${language}`);
+    }
+
+    return {
+      voiceId: options.voiceId ?? voiceSetting.voiceId,
+      modelId: options.modelId ?? DEFAULT_MODEL_ID,
+      settings: {
+        stability: voiceSetting.stability,
+        similarity_boost: voiceSetting.similarityBoost,
+      },
+    };
+  }
+
   /**
    * ボイス設定を更新
    */
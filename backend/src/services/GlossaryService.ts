@@ -0,0 +1,355 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { parseDelimited, formatDelimited } from '../utils/delimited';
+import { getPool } from '../db/pool';
+import {
+  Glossary,
+  GlossaryEntry,
+  SupportedLanguage,
+  TranslationError,
+} from '../types';
+import { isSupportedLanguage } from '../config/languages';
+import {
+  GlossaryRepository,
+  InMemoryGlossaryRepository,
+} from '../repositories/GlossaryRepository';
+import { PostgresGlossaryRepository } from '../repositories/PostgresGlossaryRepository';
+
+// 用語集IDの形式 (Google Cloud Translation の用語集IDと同じ制約)
+const GLOSSARY_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/i;
+
+export type DelimitedFormat = 'csv' | 'tsv';
+
+/**
+ * 用語集の入力データ
+ */
+export interface GlossaryInput {
+  id?: string;
+  name?: string;
+  languages?: SupportedLanguage[];
+  entries?: GlossaryEntry[];
+  nativeGlossaries?: Record<string, string>;
+}
+
+/**
+ * 用語集管理サービス
+ * 参照・更新時に tenantId を指定した場合、他のテナントの用語集は存在しないものとする
+ */
+export class GlossaryService {
+  private repository: GlossaryRepository;
+  private cache: Map<string, { glossary: Glossary | null; expiresAt: number }> =
+    new Map();
+
+  constructor(repository: GlossaryRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * 用語集の一覧を取得
+   */
+  async list(tenantId?: string): Promise<Glossary[]> {
+    return this.repository.list(tenantId);
+  }
+
+  /**
+   * 用語集を取得
+   */
+  async get(id: string, tenantId?: string): Promise<Glossary> {
+    const glossary = await this.repository.get(id);
+    if (
+      !glossary ||
+      (tenantId !== undefined && glossary.tenantId !== tenantId)
+    ) {
+      throw this.notFound(id);
+    }
+    return glossary;
+  }
+
+  /**
+   * 用語集を作成
+   */
+  async create(input: GlossaryInput, tenantId: string): Promise<Glossary> {
+    if (!input.id || !GLOSSARY_ID_PATTERN.test(input.id)) {
+      throw new TranslationError(
+        'Glossary id must be 1-63 letters, digits, "-" or "_"',
+        'INVALID_GLOSSARY'
+      );
+    }
+
+    // 用語集IDはテナントをまたいで一意のため、他のテナントのIDと重複した場合も
+    // 自分のテナントの場合と同じエラーにする (どのテナントが使用しているかは返さない)
+    if (await this.repository.get(input.id)) {
+      throw this.alreadyExists(input.id);
+    }
+
+    const languages = this.validateLanguages(input.languages);
+    const entries = this.validateEntries(input.entries ?? [], languages);
+
+    let glossary: Glossary;
+    try {
+      glossary = await this.repository.create({
+        id: input.id,
+        tenantId,
+        name: input.name || input.id,
+        languages,
+        entries,
+        nativeGlossaries: input.nativeGlossaries ?? {},
+      });
+    } catch (error) {
+      // 同時に作成された場合 (一意制約違反) も同じエラーにする
+      if (await this.repository.get(input.id)) {
+        throw this.alreadyExists(input.id);
+      }
+      throw error;
+    }
+
+    logger.info('Glossary created', {
+      glossaryId: glossary.id,
+      entries: entries.length,
+    });
+    this.invalidate(glossary.id);
+
+    return glossary;
+  }
+
+  /**
+   * 用語集を更新 (指定された項目のみ置き換え)
+   */
+  async update(
+    id: string,
+    input: GlossaryInput,
+    tenantId?: string
+  ): Promise<Glossary> {
+    const current = await this.get(id, tenantId);
+
+    const languages = input.languages
+      ? this.validateLanguages(input.languages)
+      : current.languages;
+    const entries = input.entries
+      ? this.validateEntries(input.entries, languages)
+      : undefined;
+
+    const glossary = await this.repository.update(id, {
+      name: input.name,
+      languages: input.languages ? languages : undefined,
+      entries,
+      nativeGlossaries: input.nativeGlossaries,
+    });
+
+    if (!glossary) {
+      throw this.notFound(id);
+    }
+
+    logger.info('Glossary updated', { glossaryId: id });
+    this.invalidate(id);
+
+    return glossary;
+  }
+
+  /**
+   * 用語集を削除
+   */
+  async delete(id: string, tenantId?: string): Promise<void> {
+    await this.get(id, tenantId);
+    const deleted = await this.repository.delete(id);
+    if (!deleted) {
+      throw this.notFound(id);
+    }
+
+    logger.info('Glossary deleted', { glossaryId: id });
+    this.invalidate(id);
+  }
+
+  /**
+   * CSV/TSV から用語をインポート
+   * 1行目は言語コードのヘッダー (例: ja,zh-Hant-TW,fr)、2行目以降が各言語の用語
+   */
+  async importDelimited(
+    id: string,
+    text: string,
+    format: DelimitedFormat,
+    mode: 'append' | 'replace' = 'append',
+    tenantId?: string
+  ): Promise<{ glossary: Glossary; imported: number }> {
+    const current = await this.get(id, tenantId);
+    const rows = parseDelimited(text, format === 'tsv' ? '\t' : ',');
+
+    if (rows.length < 2) {
+      throw new TranslationError(
+        'Import data must have a header row and at least one entry',
+        'INVALID_GLOSSARY'
+      );
+    }
+
+    const header = rows[0].map((value) => value.trim());
+    const languages = this.validateLanguages(header);
+    const entries: GlossaryEntry[] = rows.slice(1).map((row) => {
+      const terms: GlossaryEntry['terms'] = {};
+      languages.forEach((language, index) => {
+        const term = row[index]?.trim();
+        if (term) {
+          terms[language] = term;
+        }
+      });
+      return { terms };
+    });
+
+    const mergedLanguages = [...new Set([...current.languages, ...languages])];
+    const validEntries = this.validateEntries(entries, mergedLanguages, true);
+
+    const glossary = await this.repository.update(id, {
+      languages: mergedLanguages,
+      entries:
+        mode === 'replace'
+          ? validEntries
+          : [...current.entries, ...validEntries],
+    });
+
+    if (!glossary) {
+      throw this.notFound(id);
+    }
+
+    logger.info('Glossary entries imported', {
+      glossaryId: id,
+      format,
+      mode,
+      imported: validEntries.length,
+      skipped: entries.length - validEntries.length,
+    });
+    this.invalidate(id);
+
+    return { glossary, imported: validEntries.length };
+  }
+
+  /**
+   * CSV/TSV にエクスポート (Google Cloud Translation の同義語セット形式)
+   */
+  exportDelimited(glossary: Glossary, format: DelimitedFormat): string {
+    const rows = [
+      [...glossary.languages],
+      ...glossary.entries.map((entry) =>
+        glossary.languages.map((language) => entry.terms[language] ?? '')
+      ),
+    ];
+    return formatDelimited(rows, format === 'tsv' ? '\t' : ',');
+  }
+
+  /**
+   * 翻訳時に使用する用語集を取得 (キャッシュあり、存在しない場合は null)
+   */
+  async getForTranslation(id: string): Promise<Glossary | null> {
+    const cached = this.cache.get(id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.glossary;
+    }
+
+    const glossary = await this.repository.get(id);
+    this.cache.set(id, {
+      glossary,
+      expiresAt: Date.now() + config.glossary.cacheTtlMs,
+    });
+
+    return glossary;
+  }
+
+  /**
+   * キャッシュを破棄
+   */
+  private invalidate(id: string): void {
+    this.cache.delete(id);
+  }
+
+  /**
+   * 言語コードを検証
+   */
+  private validateLanguages(languages?: string[]): SupportedLanguage[] {
+    if (!languages || languages.length < 2) {
+      throw new TranslationError(
+        'A glossary needs at least two languages',
+        'INVALID_GLOSSARY'
+      );
+    }
+
+    const invalid = languages.filter(
+      (language) => !isSupportedLanguage(language)
+    );
+    if (invalid.length > 0) {
+      throw new TranslationError(
+        `Unsupported language: ${invalid.join(', ')}`,
+        'INVALID_LANGUAGE'
+      );
+    }
+
+    return [...new Set(languages)] as SupportedLanguage[];
+  }
+
+  /**
+   * エントリを検証 (skipInvalid が true の場合は不正なエントリを除外)
+   */
+  private validateEntries(
+    entries: GlossaryEntry[],
+    languages: SupportedLanguage[],
+    skipInvalid: boolean = false
+  ): GlossaryEntry[] {
+    const valid: GlossaryEntry[] = [];
+
+    for (const entry of entries) {
+      const terms = Object.entries(entry?.terms ?? {}).filter(
+        ([language, term]) =>
+          languages.includes(language as SupportedLanguage) &&
+          typeof term === 'string' &&
+          term.trim() !== ''
+      );
+
+      // 少なくとも2言語の用語がないと翻訳に使えない
+      if (terms.length < 2) {
+        if (skipInvalid) {
+          continue;
+        }
+        throw new TranslationError(
+          'Each glossary entry needs terms in at least two of its languages',
+          'INVALID_GLOSSARY',
+          { entry }
+        );
+      }
+
+      valid.push({
+        terms: Object.fromEntries(
+          terms.map(([language, term]) => [language, term.trim()])
+        ),
+      });
+    }
+
+    return valid;
+  }
+
+  private alreadyExists(id: string): TranslationError {
+    return new TranslationError(
+      `Glossary already exists: ${id}`,
+      'GLOSSARY_ALREADY_EXISTS'
+    );
+  }
+
+  private notFound(id: string): TranslationError {
+    return new TranslationError(
+      `Glossary not found: ${id}`,
+      'GLOSSARY_NOT_FOUND'
+    );
+  }
+}
+
+let glossaryService: GlossaryService | null = null;
+
+/**
+ * 用語集サービスを取得 (データベース無効時はメモリ上に保存)
+ */
+export function getGlossaryService(): GlossaryService {
+  if (!glossaryService) {
+    const repository = config.database.enabled
+      ? new PostgresGlossaryRepository(getPool())
+      : new InMemoryGlossaryRepository();
+    glossaryService = new GlossaryService(repository);
+  }
+
+  return glossaryService;
+}
@@ -0,0 +1,141 @@
+import { logger } from '../utils/logger';
+import { maskTerms, restoreTerms } from '../utils/glossaryTerms';
+import {
+  TranslationResult,
+  SupportedLanguage,
+  TranslationProvider,
+  Glossary,
+} from '../types';
+import { GlossaryService } from './GlossaryService';
+
+/**
+ * 用語集を適用する翻訳プロバイダー (他のプロバイダーをラップ)
+ * プロバイダー側の用語集が登録されていればそれを使い、
+ * なければ用語をプレースホルダーに置き換えて翻訳し、翻訳後に訳語へ置き換える
+ */
+export class GlossaryTranslationProvider implements TranslationProvider {
+  readonly name: string;
+  readonly supportsNativeGlossary?: boolean;
+  private provider: TranslationProvider;
+  private glossaries: GlossaryService;
+
+  constructor(provider: TranslationProvider, glossaries: GlossaryService) {
+    this.provider = provider;
+    this.glossaries = glossaries;
+    this.name = provider.name;
+    this.supportsNativeGlossary = provider.supportsNativeGlossary;
+  }
+
+  /**
+   * テキストを翻訳
+   */
+  async translate(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    glossaryId?: string
+  ): Promise<TranslationResult> {
+    if (!glossaryId) {
+      return this.provider.translate(text, sourceLang, targetLang);
+    }
+
+    const glossary = await this.loadGlossary(glossaryId);
+
+    if (!glossary) {
+      // 未登録のIDはプロバイダー側の用語集IDとして扱う
+      return this.provider.translate(
+        text,
+        sourceLang,
+        targetLang,
+        this.provider.supportsNativeGlossary ? glossaryId : undefined
+      );
+    }
+
+    const nativeId = glossary.nativeGlossaries?.[this.provider.name];
+    if (nativeId && this.provider.supportsNativeGlossary) {
+      return this.provider.translate(text, sourceLang, targetLang, nativeId);
+    }
+
+    return this.translateWithSubstitution(
+      text,
+      sourceLang,
+      targetLang,
+      glossary
+    );
+  }
+
+  /**
+   * 複数の言語に一括翻訳
+   */
+  async translateMultiple(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLangs: SupportedLanguage[],
+    glossaryId?: string
+  ): Promise<TranslationResult[]> {
+    const promises = targetLangs
+      .filter((lang) => lang !== sourceLang)
+      .map((targetLang) =>
+        this.translate(text, sourceLang, targetLang, glossaryId)
+      );
+
+    return Promise.all(promises);
+  }
+
+  /**
+   * ヘルスチェック
+   */
+  async healthCheck(): Promise<boolean> {
+    return this.provider.healthCheck();
+  }
+
+  /**
+   * ローカルの置き換えで用語を適用して翻訳
+   */
+  private async translateWithSubstitution(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    glossary: Glossary
+  ): Promise<TranslationResult> {
+    const masked = maskTerms(text, sourceLang, targetLang, glossary);
+
+    if (masked.terms.length === 0) {
+      return this.provider.translate(text, sourceLang, targetLang);
+    }
+
+    const result = await this.provider.translate(
+      masked.text,
+      sourceLang,
+      targetLang
+    );
+    const restored = restoreTerms(result.translatedText, masked, targetLang);
+
+    if (restored.missing.length > 0) {
+      logger.warn('Glossary terms lost during translation', {
+        provider: this.provider.name,
+        glossaryId: glossary.id,
+        targetLang,
+        terms: restored.missing,
+      });
+    }
+
+    return {
+      ...result,
+      originalText: text,
+      translatedText: restored.text,
+    };
+  }
+
+  /**
+   * 用語集を取得 (取得に失敗しても翻訳は継続する)
+   */
+  private async loadGlossary(glossaryId: string): Promise<Glossary | null> {
+    try {
+      return await this.glossaries.getForTranslation(glossaryId);
+    } catch (error) {
+      logger.error('Failed to load glossary', { error, glossaryId });
+      return null;
+    }
+  }
+}
@@ -1,12 +1,19 @@
 import { TranslationServiceClient } from '@google-cloud/translate';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { TranslationResult, SupportedLanguage } from '../types';
+import {
+  TranslationResult,
+  SupportedLanguage,
+  TranslationProvider,
+} from '../types';
+import { getLanguage } from '../config/languages';
 
 /**
  * Google Cloud Translation サービス
  */
-export class GoogleTranslation {
+export class GoogleTranslation implements TranslationProvider {
+  readonly name = 'google';
+  readonly supportsNativeGlossary = true;
   private client: TranslationServiceClient;
   private projectId: string;
   private location: string = 'global';
@@ -72,6 +79,7 @@ export class GoogleTranslation {
         targetLang,
         confidence: 0.9, // Google APIは信頼度を返さないため固定値
         timestamp: Date.now(),
+        provider: this.name,
       };
     } catch (error) {
       logger.error('Translation failed', {
@@ -103,56 +111,66 @@ export class GoogleTranslation {
 
   /**
    * 用語集を作成
+   * Cloud Translation の用語集は GCS 上の CSV (同義語セット形式) からのみ作成できる
+   * (GlossaryService.exportDelimited の出力をアップロードして使用する)
    */
   async createGlossary(
     glossaryId: string,
-    entries: Record<string, Record<string, string>>
+    languages: SupportedLanguage[],
+    gcsInputUri: string
   ): Promise<void> {
     try {
       const glossaryPath = this.getGlossaryPath(glossaryId);
 
-      // 用語集の入力データを準備
-      const glossaryEntries: any[] = [];
-      for (const [sourceTerm, translations] of Object.entries(entries)) {
-        for (const [targetLang, targetTerm] of Object.entries(translations)) {
-          glossaryEntries.push({
-            name: sourceTerm,
-            terms: {
-              [this.mapLanguageCode('ja' as SupportedLanguage)]: sourceTerm,
-              [this.mapLanguageCode(targetLang as SupportedLanguage)]:
-                targetTerm,
-            },
-          });
-        }
-      }
-
       const request = {
         parent: `projects/${this.projectId}/locations/${this.location}`,
         glossary: {
           name: glossaryPath,
-          languagePair: {
-            sourceLanguageCode: 'ja',
-            targetLanguageCode: 'en', // 仮の設定
+          languageCodesSet: {
+            languageCodes: languages.map((lang) => this.mapLanguageCode(lang)),
           },
           inputConfig: {
             gcsSource: {
-              inputUri: '', // GCSパスが必要
+              inputUri: gcsInputUri,
             },
           },
         },
       };
 
-      logger.info('Creating glossary', { glossaryId });
-      // 実際の用語集作成はGCSファイルが必要なため、ここではスキップ
-      // await this.client.createGlossary(request);
+      logger.info('Creating glossary', { glossaryId, languages, gcsInputUri });
+
+      // 作成は長時間実行オペレーションのため完了まで待機
+      const [operation] = await this.client.createGlossary(request);
+      await operation.promise();
 
       this.glossaryCache.set(glossaryId, glossaryPath);
+
+      logger.info('Glossary created', { glossaryId });
     } catch (error) {
       logger.error('Failed to create glossary', { error, glossaryId });
       throw error;
     }
   }
 
+  /**
+   * 用語集を削除
+   */
+  async deleteGlossary(glossaryId: string): Promise<void> {
+    try {
+      const [operation] = await this.client.deleteGlossary({
+        name: this.getGlossaryPath(glossaryId),
+      });
+      await operation.promise();
+
+      this.glossaryCache.delete(glossaryId);
+
+      logger.info('Glossary deleted', { glossaryId });
+    } catch (error) {
+      logger.error('Failed to delete glossary', { error, glossaryId });
+      throw error;
+    }
+  }
+
   /**
    * 用語集パスを取得
    */
@@ -164,13 +182,7 @@ export class GoogleTranslation {
    * 言語コードをGoogle Cloud Translation形式にマッピング
    */
   private mapLanguageCode(lang: SupportedLanguage): string {
-    const mapping: Record<SupportedLanguage, string> = {
-      ja: 'ja',
-      'zh-Hant-TW': 'zh-TW',
-      fr: 'fr',
-    };
-
-    return mapping[lang] || lang;
+    return getLanguage(lang).providers.google;
   }
 
   /**
@@ -0,0 +1,174 @@
+import { EventEmitter } from 'events';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { SupportedLanguage, TTSResult } from '../types';
+import { RecallAI } from './RecallAI';
+
+/**
+ * 言語ごとの再生チャンネル
+ */
+interface PlaybackChannel {
+  bot: RecallAI;
+  queue: Promise<void>;
+  pending: number;
+}
+
+/**
+ * 会議への翻訳音声出力サービス
+ * 対象言語ごとに専用ボットを参加させ、TTS音声を重ならないよう順番に再生する
+ */
+export class MeetingAudioOutput extends EventEmitter {
+  private meetingUrl: string;
+  private languages: SupportedLanguage[];
+  private channels: Map<SupportedLanguage, PlaybackChannel> = new Map();
+  private isRunning: boolean = false;
+
+  constructor(meetingUrl: string, languages: SupportedLanguage[]) {
+    super();
+    this.meetingUrl = meetingUrl;
+    this.languages = languages;
+  }
+
+  /**
+   * 言語ごとのボットを会議に参加させる
+   */
+  async start(): Promise<void> {
+    logger.info('Starting meeting audio output', {
+      meetingUrl: this.meetingUrl,
+      languages: this.languages,
+    });
+
+    this.isRunning = true;
+
+    // 一部のボットが参加に失敗しても、参加済みのボットを退出させるため全員の結果を待つ
+    const results = await Promise.allSettled(
+      this.languages.map(async (language) => {
+        const bot = new RecallAI();
+        bot.on('error', (error: Error) => {
+          logger.error('Playback bot error', { language, error });
+          this.emit('error', error);
+        });
+
+        await bot.joinMeeting(
+          this.meetingUrl,
+          `${config.recall.botName} (${language})`
+        );
+
+        this.channels.set(language, {
+          bot,
+          queue: Promise.resolve(),
+          pending: 0,
+        });
+      })
+    );
+
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    if (failure) {
+      logger.error('Failed to start meeting audio output', {
+        error: failure.reason,
+        joined: [...this.channels.keys()],
+      });
+      await this.stop();
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * TTS結果を再生キューに追加
+   */
+  enqueue(results: TTSResult[]): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    for (const result of results) {
+      const channel = this.channels.get(result.language);
+      if (!channel) {
+        continue;
+      }
+
+      if (channel.pending >= config.recall.maxPlaybackQueue) {
+        logger.warn('Playback queue is full, dropping utterance', {
+          language: result.language,
+          pending: channel.pending,
+        });
+        continue;
+      }
+
+      channel.pending++;
+      channel.queue = channel.queue
+        .then(() => this.play(channel, result))
+        .catch((error) => {
+          logger.error('Failed to play audio in meeting', {
+            error,
+            language: result.language,
+          });
+          this.emit('error', error);
+        })
+        .finally(() => {
+          channel.pending--;
+        });
+    }
+  }
+
+  /**
+   * 音声を会議に送信し、再生が終わるまで待機
+   */
+  private async play(channel: PlaybackChannel, result: TTSResult): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    await channel.bot.sendAudio(result.audioData);
+
+    // 次の発話と重ならないよう、音声の長さだけ待つ
+    const durationMs = this.estimateDuration(result.audioData);
+    await new Promise((resolve) => setTimeout(resolve, durationMs));
+
+    this.emit('played', {
+      language: result.language,
+      durationMs,
+    });
+  }
+
+  /**
+   * MP3のビットレートから再生時間を推定
+   */
+  private estimateDuration(audioData: Buffer): number {
+    return Math.ceil(
+      (audioData.length * 8) / config.recall.playbackBitrateKbps
+    );
+  }
+
+  /**
+   * すべてのボットを会議から退出させる
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false;
+
+    const channels = [...this.channels.values()];
+    this.channels.clear();
+
+    await Promise.all(
+      channels.map(async ({ bot }) => {
+        bot.removeAllListeners();
+        try {
+          await bot.leaveMeeting();
+        } catch (error) {
+          logger.error('Failed to remove playback bot', { error });
+        }
+      })
+    );
+
+    logger.info('Meeting audio output stopped');
+  }
+
+  /**
+   * 再生待ちの発話数を取得
+   */
+  getPendingCount(language: SupportedLanguage): number {
+    return this.channels.get(language)?.pending ?? 0;
+  }
+}
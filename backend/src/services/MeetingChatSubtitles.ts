@@ -0,0 +1,152 @@
+import { EventEmitter } from 'events';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { SupportedLanguage, TranslationResult } from '../types';
+import { RecallAI } from './RecallAI';
+
+/**
+ * 言語ごとの未送信字幕
+ */
+interface PendingBatch {
+  texts: string[];
+  length: number;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * 会議チャットへの字幕投稿サービス
+ * 短いセグメントを言語ごとにまとめ、送信間隔を守りながらチャットに投稿する
+ */
+export class MeetingChatSubtitles extends EventEmitter {
+  private bot: RecallAI;
+  private batches: Map<SupportedLanguage, PendingBatch> = new Map();
+  private outbox: string[] = [];
+  private draining: Promise<void> | null = null;
+  private lastSentAt: number = 0;
+  private isRunning: boolean = true;
+
+  constructor(bot: RecallAI) {
+    super();
+    this.bot = bot;
+  }
+
+  /**
+   * 確定した翻訳結果を字幕として追加
+   */
+  add(translations: TranslationResult[]): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    for (const translation of translations) {
+      const text = translation.translatedText.trim();
+      if (translation.isInterim || !text) {
+        continue;
+      }
+
+      const language = translation.targetLang;
+      let batch = this.batches.get(language);
+      if (!batch) {
+        batch = { texts: [], length: 0, timer: null };
+        this.batches.set(language, batch);
+      }
+
+      // 最大長を超える場合は先に送信
+      if (
+        batch.length > 0 &&
+        batch.length + text.length + 1 > config.recall.chat.maxMessageLength
+      ) {
+        this.flush(language);
+        batch = this.batches.get(language)!;
+      }
+
+      batch.texts.push(text);
+      batch.length += text.length + 1;
+
+      if (batch.length >= config.recall.chat.minBatchChars) {
+        this.flush(language);
+      } else if (!batch.timer) {
+        batch.timer = setTimeout(
+          () => this.flush(language),
+          config.recall.chat.batchWindowMs
+        );
+      }
+    }
+  }
+
+  /**
+   * 言語のバッチを送信キューに移動
+   */
+  private flush(language: SupportedLanguage): void {
+    const batch = this.batches.get(language);
+    if (!batch) {
+      return;
+    }
+
+    if (batch.timer) {
+      clearTimeout(batch.timer);
+    }
+    this.batches.set(language, { texts: [], length: 0, timer: null });
+
+    if (batch.texts.length === 0) {
+      return;
+    }
+
+    const message = `[${language}] ${batch.texts.join(' ')}`;
+    this.outbox.push(message.substring(0, config.recall.chat.maxMessageLength));
+
+    if (!this.draining) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+  }
+
+  /**
+   * 送信間隔を守りながらキューを送信
+   */
+  private async drain(): Promise<void> {
+    while (this.outbox.length > 0) {
+      const wait =
+        this.lastSentAt + config.recall.chat.minIntervalMs - Date.now();
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+
+      const message = this.outbox.shift();
+      if (!message) {
+        break;
+      }
+      this.lastSentAt = Date.now();
+
+      try {
+        await this.bot.sendChatMessage(message);
+      } catch (error) {
+        logger.error('Failed to post subtitles to meeting chat', { error });
+        this.emit('error', error);
+      }
+    }
+  }
+
+  /**
+   * 投稿を停止
+   * flush が true の場合は未送信の字幕を送信してから停止する
+   */
+  async stop(flush: boolean = true): Promise<void> {
+    if (flush) {
+      [...this.batches.keys()].forEach((language) => this.flush(language));
+    } else {
+      this.batches.forEach((batch) => {
+        if (batch.timer) clearTimeout(batch.timer);
+      });
+      this.outbox = [];
+    }
+
+    this.isRunning = false;
+    this.batches.clear();
+
+    if (this.draining) {
+      await this.draining;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  AudioFormat,
+  AuthUser,
+  MeetingConfig,
+  SupportedLanguage,
+} from '../types';
+import { TTS_MP3_FORMAT } from '../utils/audioFormat';
+
+// 会議での役割 (host: 会議の開始・停止と音声の送信ができる)
+export type MeetingRole = 'host' | 'viewer';
+
+/**
+ * 会議の参加クライアント
+ */
+export interface RoomMember {
+  clientId: string;
+  role: MeetingRole;
+  languages: SupportedLanguage[]; // 受信する翻訳の言語
+  voice: boolean; // 翻訳音声を受信するか
+  subtitles: boolean; // 字幕を受信するか
+  outputFormat: AudioFormat; // 受信するTTS音声のフォーマット
+}
+
+/**
+ * 会議のルーム
+ * 1つの会議 (ボット・パイプライン) を複数のクライアントで共有し、
+ * クライアントごとに選択した言語の結果のみを配信する
+ */
+export class MeetingRoom {
+  readonly meetingId: string;
+  readonly hostId: string;
+  readonly config: MeetingConfig;
+  readonly owner: AuthUser; // 会議を開始したユーザー (利用量の計上先)
+  private members: Map<string, RoomMember> = new Map();
+
+  constructor(
+    meetingId: string,
+    hostId: string,
+    config: MeetingConfig,
+    owner: AuthUser
+  ) {
+    this.meetingId = meetingId;
+    this.hostId = hostId;
+    this.config = config;
+    this.owner = owner;
+
+    // ホストは会議の設定に従って受信する
+    this.members.set(hostId, {
+      clientId: hostId,
+      role: 'host',
+      languages: [...config.targetLanguages],
+      voice: config.enableVoice && config.voiceOutput !== 'meeting',
+      subtitles: config.subtitleOutput !== 'chat',
+      outputFormat: config.outputFormat ?? TTS_MP3_FORMAT,
+    });
+  }
+
+  /**
+   * 視聴者として参加 (参加済みの場合は受信設定を更新)
+   * 言語は会議の翻訳先言語に含まれるもののみ指定できる
+   */
+  join(
+    clientId: string,
+    languages: SupportedLanguage[],
+    voice: boolean,
+    outputFormat: AudioFormat = TTS_MP3_FORMAT
+  ): RoomMember {
+    const member: RoomMember = {
+      clientId,
+      role: this.isHost(clientId) ? 'host' : 'viewer',
+      languages: [...new Set(languages)],
+      voice: voice && this.config.enableVoice,
+      subtitles: true,
+      outputFormat,
+    };
+    this.members.set(clientId, member);
+
+    return member;
+  }
+
+  /**
+   * 退出
+   */
+  leave(clientId: string): boolean {
+    return this.members.delete(clientId);
+  }
+
+  /**
+   * ホストかどうか
+   */
+  isHost(clientId: string): boolean {
+    return clientId === this.hostId;
+  }
+
+  /**
+   * 会議で翻訳される言語かどうか
+   */
+  hasLanguage(language: SupportedLanguage): boolean {
+    return this.config.targetLanguages.includes(language);
+  }
+
+  /**
+   * 参加クライアントを取得
+   */
+  getMember(clientId: string): RoomMember | undefined {
+    return this.members.get(clientId);
+  }
+
+  /**
+   * 参加クライアントの一覧を取得
+   */
+  list(): RoomMember[] {
+    return [...this.members.values()];
+  }
+}
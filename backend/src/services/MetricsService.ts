@@ -0,0 +1,256 @@
+import { config } from '../config';
+import { Registry, Counter, Gauge, Histogram } from '../utils/prometheus';
+import { LatencyMetrics, SupportedLanguage } from '../types';
+import { EchoReason } from './EchoSuppressor';
+
+// レイテンシのバケット (秒)
+const LATENCY_BUCKETS = [
+  0.05, 0.1, 0.15, 0.2, 0.25, 0.3, 0.4, 0.5, 0.7, 1, 1.5, 2, 3, 5, 10,
+];
+
+type LatencyStage = keyof typeof config.latencyTargets;
+
+// 発話のラベル (言語・プロバイダー)
+export interface UtteranceLabels {
+  sourceLanguage: SupportedLanguage;
+  sttProvider: string;
+  ttsProvider?: string; // 音声が無効な場合は省略
+  translations: Array<{ language: SupportedLanguage; provider: string }>;
+}
+
+/**
+ * Prometheusメトリクスのサービス
+ * パイプラインの段階ごとのレイテンシ・レイテンシ目標の超過・エラー・再接続・セッション数を集計する
+ */
+export class MetricsService {
+  private registry: Registry = new Registry();
+
+  private stageLatency = this.registry.register(
+    new Histogram(
+      'meet_translator_stage_latency_seconds',
+      'Latency of each pipeline stage per utterance',
+      ['stage', 'language', 'provider'],
+      LATENCY_BUCKETS
+    )
+  );
+
+  private latencyTargets = this.registry.register(
+    new Gauge(
+      'meet_translator_latency_target_seconds',
+      'Configured latency target of each pipeline stage',
+      ['stage']
+    )
+  );
+
+  private targetBreaches = this.registry.register(
+    new Counter(
+      'meet_translator_latency_target_breaches_total',
+      'Utterances whose stage latency exceeded the target',
+      ['stage']
+    )
+  );
+
+  private errors = this.registry.register(
+    new Counter(
+      'meet_translator_errors_total',
+      'Errors by component and error code',
+      ['component', 'code']
+    )
+  );
+
+  private reconnects = this.registry.register(
+    new Counter(
+      'meet_translator_reconnects_total',
+      'Reconnections by component',
+      ['component']
+    )
+  );
+
+  private ingestOverflows = this.registry.register(
+    new Counter(
+      'meet_translator_ingest_overflow_total',
+      'Audio chunks coalesced or dropped because the ingest queue was full',
+      ['action']
+    )
+  );
+
+  private vadSilence = this.registry.register(
+    new Counter(
+      'meet_translator_vad_silence_seconds_total',
+      'Seconds of silent audio not sent to STT by voice activity detection'
+    )
+  );
+
+  private forcedFinals = this.registry.register(
+    new Counter(
+      'meet_translator_forced_finals_total',
+      'Utterances finalized from the last partial result because STT sent no final result'
+    )
+  );
+
+  private echoSuppressed = this.registry.register(
+    new Counter(
+      'meet_translator_echo_suppressed_total',
+      'Audio chunks from bot participants and STT segments matching recent TTS output that were not translated',
+      ['reason']
+    )
+  );
+
+  private cacheHits = this.registry.register(
+    new Counter(
+      'meet_translator_cache_hits_total',
+      'Translation and TTS cache hits by tier (memory or database)',
+      ['cache', 'tier']
+    )
+  );
+
+  private cacheMisses = this.registry.register(
+    new Counter(
+      'meet_translator_cache_misses_total',
+      'Translation and TTS cache misses',
+      ['cache']
+    )
+  );
+
+  // 値は WebSocketServer が collect で設定する
+  readonly activeSessions = this.registry.register(
+    new Gauge(
+      'meet_translator_active_sessions',
+      'Client sessions by state (connected or waiting for resume)',
+      ['state']
+    )
+  );
+
+  readonly activeMeetings = this.registry.register(
+    new Gauge('meet_translator_active_meetings', 'Running meetings')
+  );
+
+  constructor() {
+    (Object.keys(config.latencyTargets) as LatencyStage[]).forEach((stage) => {
+      this.latencyTargets.set({ stage }, config.latencyTargets[stage] / 1000);
+    });
+  }
+
+  /**
+   * 確定した発話のレイテンシを記録
+   * 翻訳・TTS・全体は翻訳先の言語ごと、目標の超過は発話ごとに数える
+   */
+  recordUtterance(latency: LatencyMetrics, labels: UtteranceLabels): void {
+    this.observe('stt', latency.sttLatency, {
+      language: labels.sourceLanguage,
+      provider: labels.sttProvider,
+    });
+
+    labels.translations.forEach(({ language, provider }) => {
+      this.observe('translation', latency.translationLatency, {
+        language,
+        provider,
+      });
+      if (labels.ttsProvider) {
+        this.observe('tts', latency.ttsLatency, {
+          language,
+          provider: labels.ttsProvider,
+        });
+      }
+      // 全体のレイテンシのプロバイダーは翻訳プロバイダー
+      this.observe('total', latency.totalLatency, { language, provider });
+    });
+
+    this.checkTarget('stt', latency.sttLatency);
+    this.checkTarget('translation', latency.translationLatency);
+    if (labels.ttsProvider) {
+      this.checkTarget('tts', latency.ttsLatency);
+    }
+    this.checkTarget('total', latency.totalLatency);
+  }
+
+  /**
+   * エラーを数える
+   */
+  countError(component: string, code?: string): void {
+    this.errors.inc({ component, code: code ?? 'UNKNOWN' });
+  }
+
+  /**
+   * 再接続を数える
+   */
+  countReconnect(component: string): void {
+    this.reconnects.inc({ component });
+  }
+
+  /**
+   * 取り込みキューの上限を超えたチャンクを数える
+   */
+  countIngestOverflow(action: 'coalesced' | 'dropped'): void {
+    this.ingestOverflows.inc({ action });
+  }
+
+  /**
+   * VADがSTTに送らなかった無音の秒数を数える
+   */
+  countVadSilence(seconds: number): void {
+    this.vadSilence.inc({}, seconds);
+  }
+
+  /**
+   * 部分結果から確定した発話を数える
+   */
+  countForcedFinal(): void {
+    this.forcedFinals.inc();
+  }
+
+  /**
+   * エコーとして抑制した音声チャンク・STTセグメントを数える
+   */
+  countEchoSuppressed(reason: EchoReason): void {
+    this.echoSuppressed.inc({ reason });
+  }
+
+  /**
+   * キャッシュのヒットを数える
+   */
+  countCacheHit(cache: string, tier: 'memory' | 'database'): void {
+    this.cacheHits.inc({ cache, tier });
+  }
+
+  /**
+   * キャッシュのミスを数える
+   */
+  countCacheMiss(cache: string): void {
+    this.cacheMisses.inc({ cache });
+  }
+
+  /**
+   * Prometheusのテキスト形式で出力
+   */
+  render(): string {
+    return this.registry.render();
+  }
+
+  private observe(
+    stage: LatencyStage,
+    latencyMs: number,
+    labels: { language: string; provider: string }
+  ): void {
+    this.stageLatency.observe({ stage, ...labels }, latencyMs / 1000);
+  }
+
+  private checkTarget(stage: LatencyStage, latencyMs: number): void {
+    if (latencyMs > config.latencyTargets[stage]) {
+      this.targetBreaches.inc({ stage });
+    }
+  }
+}
+
+let metricsService: MetricsService | null = null;
+
+/**
+ * メトリクスサービスを取得
+ */
+export function getMetricsService(): MetricsService {
+  if (!metricsService) {
+    metricsService = new MetricsService();
+  }
+
+  return metricsService;
+}
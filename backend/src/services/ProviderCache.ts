@@ -0,0 +1,209 @@
+import { createHash } from 'crypto';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { getPool } from '../db/pool';
+import { LruCache } from '../utils/lruCache';
+import { TranslationResult } from '../types';
+import { CacheRepository } from '../repositories/CacheRepository';
+import { PostgresCacheRepository } from '../repositories/PostgresCacheRepository';
+import { getMetricsService } from './MetricsService';
+
+// キャッシュの種類 (メトリクスのラベル・データベースの namespace)
+export type CacheName = 'translation' | 'tts';
+
+/**
+ * キャッシュの設定
+ */
+export interface ProviderCacheOptions {
+  maxEntries: number;
+  maxBytes?: number; // メモリ上の値の合計サイズの上限 (codec.size で計測)
+  ttlMs: number;
+}
+
+/**
+ * 値とデータベースに保存するバイト列の変換
+ */
+export interface CacheCodec<V> {
+  encode(value: V): Buffer;
+  decode(data: Buffer): V;
+  size(value: V): number;
+}
+
+/**
+ * キャッシュキーに使用するテキストを正規化 (全角・半角と空白の違いを無視)
+ */
+export function normalizeCacheText(text: string): string {
+  return text.normalize('NFKC').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * プロバイダーの結果のキャッシュ
+ * メモリ上のLRUを先に参照し、なければデータベース (設定されている場合) を参照する
+ */
+export class ProviderCache<V> {
+  readonly name: CacheName;
+  private options: ProviderCacheOptions;
+  private codec: CacheCodec<V>;
+  private memory: LruCache<V>;
+  private repository: CacheRepository | null;
+
+  constructor(
+    name: CacheName,
+    options: ProviderCacheOptions,
+    codec: CacheCodec<V>,
+    repository: CacheRepository | null = null
+  ) {
+    this.name = name;
+    this.options = options;
+    this.codec = codec;
+    this.memory = new LruCache(options.maxEntries, options.maxBytes, (value) =>
+      codec.size(value)
+    );
+    this.repository = repository;
+
+    if (repository) {
+      const timer = setInterval(() => {
+        this.deleteExpired();
+      }, config.cache.cleanupIntervalMs);
+      timer.unref();
+    }
+  }
+
+  /**
+   * キーの要素からキャッシュキーを作成
+   */
+  static createKey(parts: Array<string | undefined>): string {
+    return createHash('sha256')
+      .update(JSON.stringify(parts.map((part) => part ?? null)))
+      .digest('hex');
+  }
+
+  /**
+   * 値を取得 (ない場合は null)
+   * データベースから取得した値はメモリにも保存する
+   */
+  async get(key: string): Promise<V | null> {
+    const cached = this.memory.get(key);
+    if (cached !== undefined) {
+      getMetricsService().countCacheHit(this.name, 'memory');
+      return cached;
+    }
+
+    if (this.repository) {
+      try {
+        const stored = await this.repository.get(this.name, key);
+        if (stored) {
+          const value = this.codec.decode(stored.value);
+          this.memory.set(key, value, stored.expiresAt - Date.now());
+          getMetricsService().countCacheHit(this.name, 'database');
+          return value;
+        }
+      } catch (error) {
+        // キャッシュを読めない場合はプロバイダーで処理する
+        logger.warn('Failed to read cache', { error, cache: this.name });
+      }
+    }
+
+    getMetricsService().countCacheMiss(this.name);
+    return null;
+  }
+
+  /**
+   * 値を保存 (データベースへの保存は待たない)
+   */
+  set(key: string, value: V): void {
+    this.memory.set(key, value, this.options.ttlMs);
+
+    this.repository
+      ?.set(
+        this.name,
+        key,
+        this.codec.encode(value),
+        Date.now() + this.options.ttlMs
+      )
+      .catch((error) => {
+        logger.warn('Failed to write cache', { error, cache: this.name });
+      });
+  }
+
+  /**
+   * 期限切れの値をデータベースから削除
+   */
+  private deleteExpired(): void {
+    this.repository
+      ?.deleteExpired()
+      .then((count) => {
+        if (count > 0) {
+          logger.debug('Deleted expired cache entries', {
+            cache: this.name,
+            count,
+          });
+        }
+      })
+      .catch((error) => {
+        logger.warn('Failed to delete expired cache entries', {
+          error,
+          cache: this.name,
+        });
+      });
+  }
+}
+
+let cacheRepository: CacheRepository | null | undefined;
+
+/**
+ * データベースのキャッシュリポジトリを取得 (永続化しない場合は null)
+ */
+function getCacheRepository(): CacheRepository | null {
+  if (cacheRepository === undefined) {
+    cacheRepository =
+      config.cache.persistent && config.database.enabled
+        ? new PostgresCacheRepository(getPool())
+        : null;
+  }
+
+  return cacheRepository;
+}
+
+let translationCache: ProviderCache<TranslationResult> | null = null;
+let ttsCache: ProviderCache<Buffer> | null = null;
+
+/**
+ * 翻訳結果のキャッシュを取得
+ */
+export function getTranslationCache(): ProviderCache<TranslationResult> {
+  if (!translationCache) {
+    translationCache = new ProviderCache(
+      'translation',
+      config.cache.translation,
+      {
+        encode: (value) => Buffer.from(JSON.stringify(value)),
+        decode: (data) => JSON.parse(data.toString()),
+        size: () => 1,
+      },
+      getCacheRepository()
+    );
+  }
+
+  return translationCache;
+}
+
+/**
+ * TTS音声のキャッシュを取得 (値は音声データ)
+ */
+export function getTTSCache(): ProviderCache<Buffer> {
+  if (!ttsCache) {
+    ttsCache = new ProviderCache(
+      'tts',
+      config.cache.tts,
+      {
+        encode: (value) => value,
+        decode: (data) => data,
+        size: (value) => value.length,
+      },
+      getCacheRepository()
+    );
+  }
+
+  return ttsCache;
+}
@@ -0,0 +1,125 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { TranslationError } from '../types';
+
+// レート制限の対象 (REST API / 会議の開始)
+export type RateLimitName = 'http' | 'start_meeting';
+
+/**
+ * レート制限の設定 (perMinute が 0 の場合は無制限)
+ */
+export interface RateLimitOptions {
+  perMinute: number; // 1分あたりに補充するトークン数
+  burst: number; // 貯められるトークンの上限 (連続して許可する数)
+}
+
+/**
+ * トークンバケットの状態
+ */
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * キー (テナントなど) ごとのトークンバケットによるレート制限
+ * 設定はオブジェクトの参照を保持し、判定のたびに読み込む
+ */
+export class RateLimiter {
+  readonly name: RateLimitName;
+  private options: RateLimitOptions;
+  private buckets: Map<string, Bucket> = new Map();
+  private maxKeys: number;
+
+  constructor(
+    name: RateLimitName,
+    options: RateLimitOptions,
+    maxKeys: number = 10000
+  ) {
+    this.name = name;
+    this.options = options;
+    this.maxKeys = maxKeys;
+  }
+
+  /**
+   * トークンを1つ消費する (不足している場合は RATE_LIMITED)
+   */
+  consume(key: string, now: number = Date.now()): void {
+    const { perMinute } = this.options;
+    if (perMinute <= 0) {
+      return;
+    }
+
+    const bucket = this.refill(key, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+
+    const retryAfterSeconds = Math.ceil(((1 - bucket.tokens) * 60) / perMinute);
+    logger.warn('Rate limit exceeded', { limit: this.name, key });
+    throw new TranslationError(
+      `Rate limit exceeded, retry after ${retryAfterSeconds}s`,
+      'RATE_LIMITED',
+      { limit: this.name, retryAfterSeconds }
+    );
+  }
+
+  /**
+   * 経過時間に応じてトークンを補充したバケットを取得
+   */
+  private refill(key: string, now: number): Bucket {
+    const capacity = Math.max(this.options.burst, 1);
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      this.prune(now);
+      const created = { tokens: capacity, updatedAt: now };
+      this.buckets.set(key, created);
+      return created;
+    }
+
+    const elapsed = Math.max(now - bucket.updatedAt, 0);
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + (elapsed * this.options.perMinute) / 60000
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  /**
+   * キーが上限に達した場合、トークンが満タンに戻ったバケットを削除
+   * (満タンのバケットは新しく作成した場合と同じ状態)
+   */
+  private prune(now: number): void {
+    if (this.buckets.size < this.maxKeys) {
+      return;
+    }
+
+    const refillMs =
+      (Math.max(this.options.burst, 1) * 60000) / this.options.perMinute;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= refillMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+const rateLimiters: Map<RateLimitName, RateLimiter> = new Map();
+
+/**
+ * レート制限を取得
+ */
+export function getRateLimiter(name: RateLimitName): RateLimiter {
+  let limiter = rateLimiters.get(name);
+  if (!limiter) {
+    limiter = new RateLimiter(
+      name,
+      name === 'http' ? config.rateLimit.http : config.rateLimit.startMeeting
+    );
+    rateLimiters.set(name, limiter);
+  }
+
+  return limiter;
+}
@@ -2,16 +2,40 @@ import axios, { AxiosInstance } from 'axios';
 import { EventEmitter } from 'events';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { AudioChunk } from '../types';
+
+/**
+ * Recall.ai ボットのステータス
+ */
+export interface RecallBotStatus {
+  code: string;
+  message?: string | null;
+  sub_code?: string | null;
+  created_at?: string;
+}
+
+// ボットが会議に参加している状態のステータス
+// (ポーリング間隔によっては in_call_not_recording を経ずに in_call_recording になる)
+const IN_CALL_STATUSES = new Set([
+  'in_call_not_recording',
+  'in_call_recording',
+  'recording_permission_allowed',
+  'recording_permission_denied',
+]);
 
 /**
  * Recall.ai Meeting Bot API クライアント
  */
 export class RecallAI extends EventEmitter {
+  // 参加中のボット (ボットID -> インスタンス)
+  private static instances: Map<string, RecallAI> = new Map();
+
   private client: AxiosInstance;
   private botId: string | null = null;
   private isActive: boolean = false;
-  private audioStreamUrl: string | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private pollFailures: number = 0;
+  private lastStatusKey: string | null = null;
+  private inCall: boolean = false; // 会議に参加済み ('ready' を通知済み)
 
   constructor() {
     super();
@@ -27,36 +51,57 @@ export class RecallAI extends EventEmitter {
 
   /**
    * ボットを会議に参加させる
+   * realtimeAudioUrl を指定した場合は、参加者別の音声 (16kHz PCM) をそのWebSocketにリアルタイムで送信させる
    */
-  async joinMeeting(meetingUrl: string, botName: string = 'Translator'): Promise<string> {
+  async joinMeeting(
+    meetingUrl: string,
+    botName: string = config.recall.botName,
+    realtimeAudioUrl?: string | null
+  ): Promise<string> {
     try {
       logger.info('Joining meeting via Recall.ai', { meetingUrl });
 
       const response = await this.client.post('/bot', {
         meeting_url: meetingUrl,
         bot_name: botName,
-        transcription_options: {
-          provider: 'meeting_captions', // 会議のキャプションを使用
+        recording_config: {
+          transcript: {
+            provider: { meeting_captions: {} }, // 会議のキャプションを使用
+          },
+          video_mixed_layout: 'speaker_view', // 話者ビューで録画
+          ...(realtimeAudioUrl && {
+            audio_separate_raw: {},
+            realtime_endpoints: [
+              {
+                type: 'websocket',
+                url: realtimeAudioUrl,
+                events: ['audio_separate_raw.data'],
+              },
+            ],
+          }),
         },
-        recording_mode: 'speaker_view', // 話者ビューで録画
         automatic_leave: {
           waiting_room_timeout: 600, // 10分待機
           noone_joined_timeout: 600,
         },
       });
 
-      this.botId = response.data.id;
+      const botId: string = response.data.id;
+      this.botId = botId;
       this.isActive = true;
+      this.lastStatusKey = null;
+      this.inCall = false;
+      RecallAI.instances.set(botId, this);
 
       logger.info('Bot joined meeting successfully', {
-        botId: this.botId,
+        botId,
         status: response.data.status_changes,
       });
 
       // ボットのステータスを監視
       this.monitorBotStatus();
 
-      return this.botId;
+      return botId;
     } catch (error: any) {
       logger.error('Failed to join meeting', {
         error: error.response?.data || error.message,
@@ -67,73 +112,154 @@ export class RecallAI extends EventEmitter {
 
   /**
    * ボットのステータスを監視
+   * Webhookが有効な場合はフォールバックとして長い間隔でポーリングする
    */
-  private async monitorBotStatus(): Promise<void> {
-    if (!this.botId) return;
+  private monitorBotStatus(): void {
+    this.pollFailures = 0;
+    this.schedulePoll(0);
+  }
 
-    const checkStatus = async () => {
-      try {
-        const response = await this.client.get(`/bot/${this.botId}`);
-        const status = response.data.status_changes;
+  /**
+   * 次回のステータス確認を予約
+   */
+  private schedulePoll(delay: number): void {
+    this.clearPoll();
 
-        logger.debug('Bot status', { status });
+    if (!this.isActive || !this.botId) {
+      return;
+    }
 
-        // 音声ストリームのURLを取得
-        if (response.data.media_retention_end) {
-          this.audioStreamUrl = response.data.media_retention_end;
-        }
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.checkStatus();
+    }, delay);
+  }
 
-        // ステータスに応じてイベントを発火
-        const latestStatus = status[status.length - 1];
-        if (latestStatus) {
-          this.emit('status_change', latestStatus);
-
-          if (latestStatus.code === 'in_call_not_recording') {
-            this.emit('ready');
-          } else if (latestStatus.code === 'call_ended') {
-            this.emit('ended');
-            this.isActive = false;
-          } else if (latestStatus.code === 'fatal') {
-            this.emit('error', new Error(latestStatus.message));
-            this.isActive = false;
-          }
-        }
+  /**
+   * ポーリングを停止
+   */
+  private clearPoll(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
 
-        // アクティブな場合は継続して監視
-        if (this.isActive) {
-          setTimeout(checkStatus, 5000); // 5秒ごとにチェック
-        }
-      } catch (error) {
-        logger.error('Failed to check bot status', { error });
+  /**
+   * ステータスを取得 (ポーリング)
+   */
+  private async checkStatus(): Promise<void> {
+    const botId = this.botId;
+    if (!botId) return;
+
+    try {
+      const response = await this.client.get(`/bot/${botId}`);
+      const status = response.data.status_changes || [];
+
+      logger.debug('Bot status', { status });
+
+      const latestStatus = status[status.length - 1];
+      if (latestStatus && botId === this.botId) {
+        this.handleStatusChange(latestStatus);
       }
-    };
 
-    checkStatus();
+      this.pollFailures = 0;
+      this.schedulePoll(this.getPollInterval());
+    } catch (error) {
+      // 失敗しても監視を止めず、指数バックオフで再試行
+      this.pollFailures++;
+      const delay = Math.min(
+        this.getPollInterval() * Math.pow(2, this.pollFailures),
+        config.recall.statusPoll.maxBackoffMs
+      );
+
+      logger.error('Failed to check bot status', {
+        error,
+        botId,
+        attempt: this.pollFailures,
+        retryIn: delay,
+      });
+
+      this.schedulePoll(delay);
+    }
   }
 
   /**
-   * 音声ストリームを取得
+   * ポーリング間隔を取得
    */
-  async getAudioStream(): Promise<NodeJS.ReadableStream> {
-    if (!this.botId) {
-      throw new Error('Bot is not active');
+  private getPollInterval(): number {
+    return config.recall.webhookSecret
+      ? config.recall.statusPoll.webhookFallbackIntervalMs
+      : config.recall.statusPoll.intervalMs;
+  }
+
+  /**
+   * ステータス変更を処理 (ポーリングとWebhookの共通処理)
+   */
+  handleStatusChange(
+    status: RecallBotStatus,
+    source: 'poll' | 'webhook' = 'poll'
+  ): void {
+    if (!this.isActive) {
+      return;
     }
 
-    try {
-      // Output Media APIを使用して音声ストリームを取得
-      const response = await this.client.get(`/bot/${this.botId}/output_media`, {
-        responseType: 'stream',
-      });
+    // 同じステータスの重複通知は無視
+    const statusKey = `${status.code}:${status.created_at ?? ''}`;
+    if (statusKey === this.lastStatusKey) {
+      return;
+    }
+    this.lastStatusKey = statusKey;
 
-      logger.info('Audio stream established');
+    logger.debug('Bot status changed', {
+      botId: this.botId,
+      code: status.code,
+      source,
+    });
 
-      return response.data;
-    } catch (error) {
-      logger.error('Failed to get audio stream', { error });
-      throw error;
+    // Webhookで受信した場合は次回のポーリングを後ろにずらす
+    if (source === 'webhook') {
+      this.schedulePoll(this.getPollInterval());
+    }
+
+    // ステータスに応じてイベントを発火
+    this.emit('status_change', status);
+
+    if (IN_CALL_STATUSES.has(status.code)) {
+      // 会議に参加したときに1回だけ通知
+      if (!this.inCall) {
+        this.inCall = true;
+        this.emit('ready');
+      }
+    } else if (status.code === 'call_ended') {
+      this.deactivate();
+      this.emit('ended');
+    } else if (status.code === 'fatal') {
+      // 失敗したボットは会議に残らないため、会議の終了と同様に扱えるよう 'fatal' も通知する
+      this.deactivate();
+      this.emit('error', new Error(status.message || 'Bot failed'));
+      this.emit('fatal');
+    }
+  }
+
+  /**
+   * ボットを非アクティブにし、監視を終了
+   */
+  private deactivate(): void {
+    this.isActive = false;
+    this.clearPoll();
+    if (this.botId) {
+      RecallAI.instances.delete(this.botId);
     }
   }
 
+  /**
+   * ボットIDからインスタンスを取得 (Webhookの振り分け用)
+   */
+  static findByBotId(botId: string): RecallAI | undefined {
+    return RecallAI.instances.get(botId);
+  }
+
   /**
    * 音声を会議に送信
    */
@@ -195,9 +321,11 @@ export class RecallAI extends EventEmitter {
 
       await this.client.delete(`/bot/${this.botId}`);
 
+      // 退出に失敗した場合はボットが会議に残るため、成功してから監視を終了する
+      this.clearPoll();
+      RecallAI.instances.delete(this.botId);
       this.botId = null;
       this.isActive = false;
-      this.audioStreamUrl = null;
 
       logger.info('Bot left meeting successfully');
     } catch (error) {
@@ -213,6 +341,13 @@ export class RecallAI extends EventEmitter {
     return this.isActive;
   }
 
+  /**
+   * ボットが会議に参加済みかどうか ('ready' を通知済み)
+   */
+  isInCall(): boolean {
+    return this.isActive && this.inCall;
+  }
+
   /**
    * ボットIDを取得
    */
@@ -0,0 +1,254 @@
+import crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import WebSocket from 'ws';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { AudioChunk } from '../types';
+import { AudioPipeline } from './AudioPipeline';
+import { PCM16_16K_MONO } from '../utils/audioFormat';
+
+// Recall.ai の参加者別音声は 16kHz / 16bit / モノラルの PCM
+const SAMPLE_RATE = 16000;
+const BYTES_PER_SAMPLE = 2;
+
+/**
+ * Recall.ai のリアルタイム音声イベント (WebSocketの1メッセージ)
+ */
+interface RecallAudioEvent {
+  event: string;
+  data?: {
+    data?: {
+      buffer?: string;
+      participant?: {
+        id: number | string;
+        name?: string | null;
+      };
+    };
+  };
+}
+
+/**
+ * Recall.ai 音声取り込みサービス
+ * ボットの参加時に指定したリアルタイムエンドポイント (RECALL_REALTIME_AUDIO_URL) に
+ * Recall.ai が接続して送る参加者別の音声 (audio_separate_raw.data) を受信し、
+ * 参加者ごとに AudioChunk に分割してパイプラインの取り込みキューへ送る
+ *
+ * エンドポイントのURLには会議ごとのトークンを付け、接続をこのインスタンスに振り分ける
+ */
+export class RecallAudioIngest {
+  // 受信待ちのインスタンス (トークン -> インスタンス)
+  private static instances: Map<string, RecallAudioIngest> = new Map();
+  private static server = new WebSocket.Server({ noServer: true });
+
+  private token: string;
+  private pipeline: AudioPipeline | null = null;
+  private frameSize: number;
+  private sockets: Set<WebSocket> = new Set();
+  private buffers: Map<string, Buffer> = new Map();
+  private speakerNames: Map<string, string> = new Map();
+
+  constructor(frameDurationMs: number = config.recall.audioFrameMs) {
+    this.frameSize =
+      Math.floor((SAMPLE_RATE * frameDurationMs) / 1000) * BYTES_PER_SAMPLE;
+    this.token = crypto.randomBytes(24).toString('hex');
+    RecallAudioIngest.instances.set(this.token, this);
+  }
+
+  /**
+   * ボットの作成時に指定するリアルタイムエンドポイントのURL (未設定の場合は null)
+   */
+  getEndpointUrl(): string | null {
+    if (!config.recall.realtimeAudioUrl) {
+      return null;
+    }
+
+    const url = new URL(config.recall.realtimeAudioUrl);
+    url.searchParams.set('token', this.token);
+    return url.toString();
+  }
+
+  /**
+   * パイプラインへの送信を開始 (それまでに受信した音声は破棄する)
+   */
+  start(pipeline: AudioPipeline): void {
+    if (this.pipeline) {
+      return;
+    }
+
+    this.pipeline = pipeline;
+    logger.info('Recall audio ingest started', {
+      frameSize: this.frameSize,
+      connections: this.sockets.size,
+    });
+  }
+
+  /**
+   * 音声の取り込みを停止し、Recall.ai からの接続を閉じる
+   */
+  stop(): void {
+    RecallAudioIngest.instances.delete(this.token);
+    this.pipeline = null;
+
+    this.sockets.forEach((socket) => socket.close());
+    this.sockets.clear();
+    this.buffers.clear();
+  }
+
+  /**
+   * 取り込み中かどうかを取得
+   */
+  isActive(): boolean {
+    return this.pipeline !== null;
+  }
+
+  /**
+   * リアルタイムエンドポイントへのアップグレード要求を処理
+   * エンドポイントのパスでない場合は false (他のWebSocketサーバーで処理する)
+   */
+  static handleUpgrade(
+    req: IncomingMessage,
+    socket: Duplex,
+    head: Buffer
+  ): boolean {
+    if (!config.recall.realtimeAudioUrl) {
+      return false;
+    }
+
+    const endpoint = new URL(config.recall.realtimeAudioUrl);
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== endpoint.pathname) {
+      return false;
+    }
+
+    const ingest = RecallAudioIngest.instances.get(
+      url.searchParams.get('token') ?? ''
+    );
+    if (!ingest) {
+      logger.warn('Rejected Recall audio connection with unknown token', {
+        ip: req.socket.remoteAddress,
+      });
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      return true;
+    }
+
+    RecallAudioIngest.server.handleUpgrade(req, socket, head, (ws) => {
+      ingest.attach(ws);
+    });
+    return true;
+  }
+
+  /**
+   * Recall.ai からの接続を受け付ける
+   */
+  private attach(ws: WebSocket): void {
+    if (!RecallAudioIngest.instances.has(this.token)) {
+      ws.close();
+      return;
+    }
+
+    this.sockets.add(ws);
+    logger.info('Recall audio connection opened', {
+      connections: this.sockets.size,
+    });
+
+    ws.on('message', (data: WebSocket.Data, isBinary: boolean) => {
+      if (isBinary) {
+        return;
+      }
+
+      let event: RecallAudioEvent;
+      try {
+        event = JSON.parse(data.toString());
+      } catch (error) {
+        logger.warn('Failed to parse Recall audio event', { error });
+        return;
+      }
+
+      this.handleEvent(event);
+    });
+
+    ws.on('close', () => {
+      this.sockets.delete(ws);
+      logger.info('Recall audio connection closed', {
+        connections: this.sockets.size,
+      });
+
+      // 残りの音声を送信
+      if (this.sockets.size === 0) {
+        this.flush();
+      }
+    });
+
+    ws.on('error', (error) => {
+      logger.error('Recall audio connection error', { error });
+    });
+  }
+
+  /**
+   * 音声イベントを処理
+   */
+  private handleEvent(event: RecallAudioEvent): void {
+    if (event.event !== 'audio_separate_raw.data' || !this.pipeline) {
+      return;
+    }
+
+    const payload = event.data?.data;
+    if (!payload?.buffer) {
+      return;
+    }
+
+    const speakerId =
+      payload.participant?.id !== undefined
+        ? String(payload.participant.id)
+        : undefined;
+    const key = speakerId ?? '';
+    if (speakerId && payload.participant?.name) {
+      this.speakerNames.set(speakerId, payload.participant.name);
+    }
+
+    const pending = this.buffers.get(key);
+    const audio = Buffer.from(payload.buffer, 'base64');
+    let buffer = pending ? Buffer.concat([pending, audio]) : audio;
+
+    // フレームサイズに達した分だけチャンクとして送信
+    while (buffer.length >= this.frameSize) {
+      const frame = buffer.subarray(0, this.frameSize);
+      buffer = buffer.subarray(this.frameSize);
+      this.sendChunk(frame, speakerId);
+    }
+
+    this.buffers.set(key, buffer);
+  }
+
+  /**
+   * バッファに残っている音声をすべて送信
+   */
+  private flush(): void {
+    for (const [key, buffer] of this.buffers) {
+      if (buffer.length > 0) {
+        this.sendChunk(buffer, key || undefined);
+      }
+    }
+    this.buffers.clear();
+  }
+
+  /**
+   * 音声チャンクをパイプラインの取り込みキューに追加 (受信順に処理される)
+   */
+  private sendChunk(data: Buffer, speakerId?: string): void {
+    if (!this.pipeline) {
+      return;
+    }
+
+    const chunk: AudioChunk = {
+      data: Buffer.from(data),
+      timestamp: Date.now(),
+      speakerId,
+      speakerName: speakerId ? this.speakerNames.get(speakerId) : undefined,
+      format: PCM16_16K_MONO,
+    };
+
+    this.pipeline.enqueueAudioChunk(chunk);
+  }
+}
@@ -0,0 +1,82 @@
+import { config } from '../config';
+import { getLanguage } from '../config/languages';
+import { SupportedLanguage } from '../types';
+
+/**
+ * 会議の話者情報
+ */
+export interface SpeakerInfo {
+  id: string;
+  label: string; // 参加者名 (不明な場合は "Speaker 1" など)
+  index: number; // 登場順 (0から)
+}
+
+/**
+ * 会議の話者一覧
+ * 話者に表示名を付け、対象言語ごとにボイスプールから話者ごとのボイスを割り当てる
+ */
+export class SpeakerDirectory {
+  private speakers: Map<string, SpeakerInfo> = new Map();
+
+  /**
+   * 話者を登録 (登録済みの場合は表示名のみ更新)
+   */
+  register(id: string, name?: string): SpeakerInfo {
+    const existing = this.speakers.get(id);
+    if (existing) {
+      if (name && existing.label !== name) {
+        existing.label = name;
+      }
+      return existing;
+    }
+
+    const index = this.speakers.size;
+    const speaker: SpeakerInfo = {
+      id,
+      label: name || `Speaker ${index + 1}`,
+      index,
+    };
+    this.speakers.set(id, speaker);
+
+    return speaker;
+  }
+
+  /**
+   * 話者を取得
+   */
+  get(id?: string): SpeakerInfo | undefined {
+    return id ? this.speakers.get(id) : undefined;
+  }
+
+  /**
+   * 話者に割り当てるボイスIDを取得
+   * 最初の話者には言語のデフォルトボイス、以降の話者にはプールから順に割り当てる
+   * (話者が不明な場合は undefined = プロバイダーのデフォルト)
+   */
+  getVoiceId(
+    id: string | undefined,
+    language: SupportedLanguage
+  ): string | undefined {
+    const speaker = this.get(id);
+    if (!speaker) {
+      return undefined;
+    }
+
+    const definition = getLanguage(language);
+    const pool = [
+      ...new Set([
+        definition.voice.voiceId,
+        ...(config.tts.voicePools[language] ?? definition.voicePool),
+      ]),
+    ];
+
+    return pool[speaker.index % pool.length];
+  }
+
+  /**
+   * 話者の一覧を取得
+   */
+  list(): SpeakerInfo[] {
+    return [...this.speakers.values()];
+  }
+}
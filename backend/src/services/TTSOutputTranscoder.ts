@@ -0,0 +1,164 @@
+import { AudioFormat, TTSChunk, TTSResult } from '../types';
+import {
+  AudioTranscoder,
+  createTranscoder,
+  transcode,
+} from './AudioTranscoder';
+import { TTS_MP3_FORMAT, formatKey, isSameFormat } from '../utils/audioFormat';
+
+// パイプラインが通知するストリーミングTTSのチャンク
+export type TTSSegmentChunk = TTSChunk & { segment: number };
+
+/**
+ * 会議のTTS音声をクライアントが要求するフォーマットに変換
+ * 同じ音声・同じフォーマットの変換は1回にまとめ、フォーマットごとに受信順に結果を返す
+ */
+export class TTSOutputTranscoder {
+  private source: AudioFormat;
+  private converted: WeakMap<TTSResult, Map<string, Promise<TTSResult>>> =
+    new WeakMap();
+  private convertedChunks: WeakMap<
+    TTSSegmentChunk,
+    Map<string, Promise<TTSSegmentChunk>>
+  > = new WeakMap();
+  private queues: Map<string, Promise<unknown>> = new Map(); // フォーマットごとの変換順
+  private streams: Map<string, AudioTranscoder> = new Map(); // セグメント・言語・フォーマットごと
+  private closed: boolean = false;
+
+  constructor(source: AudioFormat = TTS_MP3_FORMAT) {
+    this.source = source;
+  }
+
+  /**
+   * 変換が必要なフォーマットかどうか
+   */
+  needsConversion(format: AudioFormat): boolean {
+    return !isSameFormat(this.source, format);
+  }
+
+  /**
+   * TTS結果を変換 (変換が不要な場合はそのまま返す)
+   */
+  convertResults(
+    results: TTSResult[],
+    format: AudioFormat
+  ): Promise<TTSResult[]> {
+    if (isSameFormat(this.source, format)) {
+      return Promise.resolve(results);
+    }
+
+    return this.enqueue(format, () =>
+      Promise.all(results.map((result) => this.convertResult(result, format)))
+    );
+  }
+
+  /**
+   * ストリーミングTTSのチャンクを変換
+   * セグメント・言語ごとに変換を続け、最後のチャンクで残りの音声を出力する
+   * 同じチャンク・フォーマットの変換は共有する (ストリームに書き込むのは1回のみ)
+   */
+  convertChunk(
+    chunk: TTSSegmentChunk,
+    format: AudioFormat
+  ): Promise<TTSSegmentChunk> {
+    if (isSameFormat(this.source, format)) {
+      return Promise.resolve(chunk);
+    }
+
+    let byFormat = this.convertedChunks.get(chunk);
+    if (!byFormat) {
+      byFormat = new Map();
+      this.convertedChunks.set(chunk, byFormat);
+    }
+
+    let converted = byFormat.get(formatKey(format));
+    if (!converted) {
+      converted = this.convertStreamChunk(chunk, format);
+      byFormat.set(formatKey(format), converted);
+    }
+
+    return converted;
+  }
+
+  /**
+   * 変換中のストリームをすべて終了
+   */
+  close(): void {
+    this.closed = true;
+    this.streams.forEach((transcoder) => transcoder.close());
+    this.streams.clear();
+  }
+
+  /**
+   * チャンクをセグメント・言語・フォーマットごとのストリームに書き込んで変換
+   */
+  private convertStreamChunk(
+    chunk: TTSSegmentChunk,
+    format: AudioFormat
+  ): Promise<TTSSegmentChunk> {
+    const key = `${chunk.segment}/${chunk.language}/${formatKey(format)}`;
+
+    return this.enqueue(format, async () => {
+      let transcoder = this.streams.get(key);
+      if (!transcoder) {
+        transcoder = createTranscoder(this.source, format);
+        this.streams.set(key, transcoder);
+      }
+
+      try {
+        let audioData = await transcoder.write(chunk.audioData);
+        if (chunk.isFinal) {
+          this.streams.delete(key);
+          audioData = Buffer.concat([audioData, await transcoder.end()]);
+        }
+        return { ...chunk, audioData };
+      } catch (error) {
+        this.streams.delete(key);
+        transcoder.close();
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * 1つのTTS結果を変換 (同じ結果・フォーマットの変換は共有)
+   */
+  private convertResult(
+    result: TTSResult,
+    format: AudioFormat
+  ): Promise<TTSResult> {
+    let byFormat = this.converted.get(result);
+    if (!byFormat) {
+      byFormat = new Map();
+      this.converted.set(result, byFormat);
+    }
+
+    const key = formatKey(format);
+    let converted = byFormat.get(key);
+    if (!converted) {
+      converted = transcode(result.audioData, this.source, format).then(
+        (audioData) => ({ ...result, audioData })
+      );
+      byFormat.set(key, converted);
+    }
+
+    return converted;
+  }
+
+  /**
+   * フォーマットごとに変換を順番に実行
+   */
+  private enqueue<T>(format: AudioFormat, task: () => Promise<T>): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new Error('Transcoder is closed'));
+    }
+
+    const key = formatKey(format);
+    const result = (this.queues.get(key) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(task);
+    this.queues.set(key, result);
+
+    return result;
+  }
+}
@@ -0,0 +1,183 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { MetricsAggregator } from '../utils/metrics';
+import { getPool } from '../db/pool';
+import {
+  Transcript,
+  TranscriptSegment,
+  TranscriptSummary,
+  LatencyMetrics,
+  LatencySample,
+  SupportedLanguage,
+  TranslationError,
+} from '../types';
+import {
+  TranscriptRepository,
+  InMemoryTranscriptRepository,
+  NewTranscriptSegment,
+} from '../repositories/TranscriptRepository';
+import { PostgresTranscriptRepository } from '../repositories/PostgresTranscriptRepository';
+import { SpeakerInfo } from './SpeakerDirectory';
+
+/**
+ * 会議の文字起こしサービス
+ * 会議ごとに参加者・確定した発話と翻訳・レイテンシを記録する
+ */
+export class TranscriptService {
+  private repository: TranscriptRepository;
+
+  constructor(repository: TranscriptRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * 文字起こしの一覧を取得 (参加者とセグメントは含まない)
+   * tenantId を指定した場合はそのテナントの会議のみ
+   */
+  async list(tenantId?: string): Promise<TranscriptSummary[]> {
+    return this.repository.list(tenantId);
+  }
+
+  /**
+   * 文字起こしを取得 (tenantId を指定した場合、他のテナントの会議は存在しないものとする)
+   */
+  async get(meetingId: string, tenantId?: string): Promise<Transcript> {
+    const transcript = await this.repository.get(meetingId, tenantId);
+    if (!transcript) {
+      throw this.notFound(meetingId);
+    }
+    return transcript;
+  }
+
+  /**
+   * 会議のレイテンシの記録と集計を取得
+   */
+  async getLatency(
+    meetingId: string,
+    tenantId?: string
+  ): Promise<{ samples: LatencySample[]; stats: Record<string, any> }> {
+    const samples = await this.repository.getLatencySamples(
+      meetingId,
+      tenantId
+    );
+    if (!samples) {
+      throw this.notFound(meetingId);
+    }
+
+    const aggregator = new MetricsAggregator(Math.max(samples.length, 1));
+    samples.forEach((sample) => {
+      aggregator.addMetric('stt', sample.sttLatency);
+      aggregator.addMetric('translation', sample.translationLatency);
+      aggregator.addMetric('tts', sample.ttsLatency);
+      aggregator.addMetric('total', sample.totalLatency);
+    });
+
+    return { samples, stats: aggregator.getStats() };
+  }
+
+  /**
+   * 会議の記録を開始
+   */
+  async startMeeting(
+    meetingId: string,
+    tenantId: string,
+    meetingUrl: string,
+    targetLanguages: SupportedLanguage[],
+    botId?: string
+  ): Promise<Transcript> {
+    const transcript = await this.repository.create({
+      meetingId,
+      tenantId,
+      meetingUrl,
+      botId,
+      targetLanguages,
+      startedAt: Date.now(),
+    });
+
+    logger.info('Transcript started', { meetingId });
+    return transcript;
+  }
+
+  /**
+   * 確定した発話を追加
+   */
+  async addSegment(
+    meetingId: string,
+    segment: NewTranscriptSegment
+  ): Promise<TranscriptSegment | null> {
+    const added = await this.repository.addSegment(meetingId, segment);
+    if (!added) {
+      logger.warn('Transcript segment dropped, meeting not recorded', {
+        meetingId,
+      });
+    }
+    return added;
+  }
+
+  /**
+   * 参加者 (話者) を記録 (記録済みの場合は表示名を更新)
+   */
+  async addParticipant(meetingId: string, speaker: SpeakerInfo): Promise<void> {
+    await this.repository.saveParticipant(meetingId, {
+      speakerId: speaker.id,
+      label: speaker.label,
+      joinedAt: Date.now(),
+    });
+  }
+
+  /**
+   * 発話のレイテンシを記録
+   */
+  async addLatencySample(
+    meetingId: string,
+    metrics: LatencyMetrics
+  ): Promise<void> {
+    await this.repository.addLatencySample(meetingId, {
+      ...metrics,
+      recordedAt: Date.now(),
+    });
+  }
+
+  /**
+   * 会議の記録を終了
+   */
+  async endMeeting(meetingId: string): Promise<void> {
+    if (await this.repository.finish(meetingId, Date.now())) {
+      logger.info('Transcript ended', { meetingId });
+    }
+  }
+
+  /**
+   * 前回のプロセスで終了処理されなかった会議を中断扱いにする (起動時に呼び出す)
+   */
+  async interruptActiveMeetings(): Promise<number> {
+    const count = await this.repository.interruptActive(Date.now());
+    if (count > 0) {
+      logger.warn('Marked unfinished meetings as interrupted', { count });
+    }
+    return count;
+  }
+
+  private notFound(meetingId: string): TranslationError {
+    return new TranslationError(
+      `Transcript not found: ${meetingId}`,
+      'TRANSCRIPT_NOT_FOUND'
+    );
+  }
+}
+
+let transcriptService: TranscriptService | null = null;
+
+/**
+ * 文字起こしサービスを取得 (データベース無効時はメモリ上に保存)
+ */
+export function getTranscriptService(): TranscriptService {
+  if (!transcriptService) {
+    const repository = config.database.enabled
+      ? new PostgresTranscriptRepository(getPool())
+      : new InMemoryTranscriptRepository();
+    transcriptService = new TranscriptService(repository);
+  }
+
+  return transcriptService;
+}
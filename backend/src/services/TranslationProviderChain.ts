@@ -0,0 +1,177 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import {
+  TranslationResult,
+  SupportedLanguage,
+  TranslationProvider,
+  TranslationError,
+} from '../types';
+import { GoogleTranslation } from './GoogleTranslation';
+import { DeepLTranslation } from './DeepLTranslation';
+import { GlossaryTranslationProvider } from './GlossaryTranslationProvider';
+import { getGlossaryService } from './GlossaryService';
+import { CachedTranslationProvider } from './CachedTranslationProvider';
+import { getTranslationCache } from './ProviderCache';
+
+/**
+ * 翻訳プロバイダーチェーン
+ * 先頭のプロバイダーから順に試し、エラーまたはタイムアウト時は次のプロバイダーにフェイルオーバーする
+ */
+export class TranslationProviderChain implements TranslationProvider {
+  readonly name = 'chain';
+  private providers: TranslationProvider[];
+  private timeoutMs: number;
+
+  constructor(
+    providers: TranslationProvider[],
+    timeoutMs: number = config.translation.providerTimeoutMs
+  ) {
+    if (providers.length === 0) {
+      throw new Error('At least one translation provider is required');
+    }
+
+    this.providers = providers;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * テキストを翻訳
+   */
+  async translate(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    glossaryId?: string
+  ): Promise<TranslationResult> {
+    const failures: Array<{ provider: string; error: string }> = [];
+
+    for (const provider of this.providers) {
+      try {
+        const result = await this.withTimeout(
+          provider.translate(text, sourceLang, targetLang, glossaryId),
+          provider.name
+        );
+
+        if (failures.length > 0) {
+          logger.warn('Translation served by fallback provider', {
+            provider: provider.name,
+            failures,
+          });
+        }
+
+        return { ...result, provider: result.provider ?? provider.name };
+      } catch (error: any) {
+        logger.warn('Translation provider failed, trying next', {
+          provider: provider.name,
+          sourceLang,
+          targetLang,
+          error: error.message,
+        });
+        failures.push({ provider: provider.name, error: error.message });
+      }
+    }
+
+    throw new TranslationError(
+      'All translation providers failed',
+      'TRANSLATION_FAILED',
+      { sourceLang, targetLang, failures }
+    );
+  }
+
+  /**
+   * 複数の言語に一括翻訳 (言語ごとに個別にフェイルオーバー)
+   */
+  async translateMultiple(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLangs: SupportedLanguage[],
+    glossaryId?: string
+  ): Promise<TranslationResult[]> {
+    const promises = targetLangs
+      .filter((lang) => lang !== sourceLang)
+      .map((targetLang) =>
+        this.translate(text, sourceLang, targetLang, glossaryId)
+      );
+
+    return Promise.all(promises);
+  }
+
+  /**
+   * いずれかのプロバイダーが利用可能かどうか
+   */
+  async healthCheck(): Promise<boolean> {
+    const results = await Promise.all(
+      this.providers.map((provider) => provider.healthCheck())
+    );
+    return results.some(Boolean);
+  }
+
+  /**
+   * プロバイダー名の一覧を取得
+   */
+  getProviderNames(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * タイムアウト付きで実行
+   */
+  private withTimeout<T>(
+    promise: Promise<T>,
+    providerName: string
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(
+          new Error(
+            `Translation provider ${providerName} timed out after ${this.timeoutMs}ms`
+          )
+        );
+      }, this.timeoutMs);
+
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
+
+/**
+ * 設定済みのプロバイダーからチェーンを作成 (Google -> DeepL の順)
+ * cache が true の場合は翻訳結果をプロバイダーごとにキャッシュする
+ */
+export function createTranslationProviderChain(
+  cache: boolean = config.cache.enabled
+): TranslationProviderChain {
+  const providers: TranslationProvider[] = [];
+
+  if (config.google.projectId) {
+    providers.push(new GoogleTranslation());
+  }
+
+  if (config.deepl.apiKey) {
+    providers.push(new DeepLTranslation());
+  }
+
+  // 用語集はプロバイダーごとに適用する (ネイティブ用語集がなければローカルで置き換え)
+  const glossaries = getGlossaryService();
+  return new TranslationProviderChain(
+    providers.map((provider) => {
+      const translation = new GlossaryTranslationProvider(provider, glossaries);
+      return cache
+        ? new CachedTranslationProvider(
+            translation,
+            getTranslationCache(),
+            glossaries
+          )
+        : translation;
+    })
+  );
+}
@@ -0,0 +1,292 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { getPool } from '../db/pool';
+import { AuthUser, UsageMetric, UsageTotals, TranslationError } from '../types';
+import {
+  UsageRepository,
+  UsageEntry,
+  InMemoryUsageRepository,
+  emptyUsage,
+} from '../repositories/UsageRepository';
+import { PostgresUsageRepository } from '../repositories/PostgresUsageRepository';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const USAGE_METRICS: UsageMetric[] = [
+  'sttSeconds',
+  'translationChars',
+  'ttsChars',
+];
+
+// テナントのクォータ (null は無制限)
+export type UsageQuota = Record<UsageMetric, number | null>;
+
+// テナントごとの利用量レポート
+export interface TenantUsageReport {
+  tenantId: string;
+  usage: UsageTotals;
+  quota: UsageQuota;
+  users: Array<{ userId: string; usage: UsageTotals }>;
+}
+
+interface PeriodTotals {
+  periodStart: number;
+  usage: UsageTotals;
+}
+
+/**
+ * 利用量サービス
+ * STTの音声秒数・翻訳文字数・TTS文字数をテナント・ユーザーごとに計上し、月間のクォータを適用する
+ * 利用量は1時間単位にまとめ、一定間隔でリポジトリに保存する
+ */
+export class UsageService {
+  private repository: UsageRepository;
+  private totals: Map<string, PeriodTotals> = new Map(); // 今月のテナントごとの利用量
+  private pending: Map<string, UsageEntry> = new Map(); // 未保存の利用量
+  private flushTimer: NodeJS.Timeout;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(repository: UsageRepository) {
+    this.repository = repository;
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((error) => {
+        logger.error('Failed to save usage', { error });
+      });
+    }, config.usage.flushIntervalMs);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * テナントの今月の利用量がクォータ内であることを確認 (超過している場合は QUOTA_EXCEEDED)
+   */
+  async assertWithinQuota(tenantId: string): Promise<void> {
+    await this.loadTotals(tenantId);
+
+    const exceeded = this.getExceeded(tenantId);
+    if (exceeded) {
+      throw this.quotaExceeded(tenantId, exceeded);
+    }
+  }
+
+  /**
+   * 利用量を計上し、クォータを超過した項目を返す (超過していなければ null)
+   */
+  record(
+    user: AuthUser,
+    metric: UsageMetric,
+    amount: number
+  ): UsageMetric | null {
+    if (amount <= 0) {
+      return this.getExceeded(user.tenantId);
+    }
+
+    this.addPending({
+      tenantId: user.tenantId,
+      userId: user.id,
+      metric,
+      periodStart: Math.floor(Date.now() / HOUR_MS) * HOUR_MS,
+      amount,
+    });
+
+    this.currentTotals(user.tenantId).usage[metric] += amount;
+
+    return this.getExceeded(user.tenantId);
+  }
+
+  /**
+   * クォータ超過のエラーを作成
+   */
+  quotaExceeded(tenantId: string, metric: UsageMetric): TranslationError {
+    const used = this.currentTotals(tenantId).usage[metric];
+    const limit = this.getQuota(tenantId)[metric];
+
+    return new TranslationError(
+      `Monthly quota exceeded for ${metric} (${Math.round(used)}/${limit})`,
+      'QUOTA_EXCEEDED',
+      { tenantId, metric, used, limit }
+    );
+  }
+
+  /**
+   * テナントのクォータを取得 (テナントごとの設定がなければデフォルト)
+   */
+  getQuota(tenantId: string): UsageQuota {
+    const overrides = config.usage.tenantQuotas[tenantId] ?? {};
+
+    return Object.fromEntries(
+      USAGE_METRICS.map((metric) => {
+        const limit = overrides[metric] ?? config.usage.quotas[metric];
+        return [metric, limit > 0 ? limit : null];
+      })
+    ) as UsageQuota;
+  }
+
+  /**
+   * 期間内の利用量をテナントごとに集計 (期間は1時間単位)
+   */
+  async report(
+    from: number,
+    to: number,
+    tenantId?: string
+  ): Promise<TenantUsageReport[]> {
+    await this.flush();
+
+    const rows = await this.repository.summarize(from, to, tenantId);
+    const reports: Map<string, TenantUsageReport> = new Map();
+
+    rows.forEach((row) => {
+      const report = reports.get(row.tenantId) ?? {
+        tenantId: row.tenantId,
+        usage: emptyUsage(),
+        quota: this.getQuota(row.tenantId),
+        users: [],
+      };
+      USAGE_METRICS.forEach((metric) => {
+        report.usage[metric] += row.usage[metric];
+      });
+      report.users.push({ userId: row.userId, usage: row.usage });
+      reports.set(row.tenantId, report);
+    });
+
+    return [...reports.values()];
+  }
+
+  /**
+   * 未保存の利用量をリポジトリに保存
+   */
+  async flush(): Promise<void> {
+    // 保存中の場合は完了を待ってから続けて保存する
+    this.flushing = this.flushing
+      .catch(() => undefined)
+      .then(async () => {
+        if (this.pending.size === 0) {
+          return;
+        }
+
+        const entries = [...this.pending.values()];
+        this.pending.clear();
+
+        try {
+          await this.repository.add(entries);
+        } catch (error) {
+          // 次回の保存で再試行
+          entries.forEach((entry) => this.addPending(entry));
+          throw error;
+        }
+      });
+
+    return this.flushing;
+  }
+
+  /**
+   * 定期保存を停止し、未保存の利用量を保存
+   */
+  async close(): Promise<void> {
+    clearInterval(this.flushTimer);
+    await this.flush();
+  }
+
+  /**
+   * 未保存の利用量に加算
+   */
+  private addPending(entry: UsageEntry): void {
+    const key = [
+      entry.tenantId,
+      entry.userId,
+      entry.metric,
+      entry.periodStart,
+    ].join('\u0000');
+    const pending = this.pending.get(key);
+
+    if (pending) {
+      pending.amount += entry.amount;
+    } else {
+      this.pending.set(key, { ...entry });
+    }
+  }
+
+  /**
+   * クォータを超過している項目を取得
+   */
+  private getExceeded(tenantId: string): UsageMetric | null {
+    const usage = this.currentTotals(tenantId).usage;
+    const quota = this.getQuota(tenantId);
+
+    return (
+      USAGE_METRICS.find((metric) => {
+        const limit = quota[metric];
+        return limit !== null && usage[metric] >= limit;
+      }) ?? null
+    );
+  }
+
+  /**
+   * テナントの今月の利用量をリポジトリから読み込む (読み込み済みの場合は何もしない)
+   */
+  private async loadTotals(tenantId: string): Promise<void> {
+    const periodStart = monthStart(Date.now());
+    if (this.totals.get(tenantId)?.periodStart === periodStart) {
+      return;
+    }
+
+    await this.flush();
+    const rows = await this.repository.summarize(
+      periodStart,
+      Date.now() + HOUR_MS,
+      tenantId
+    );
+
+    const usage = emptyUsage();
+    rows.forEach((row) => {
+      USAGE_METRICS.forEach((metric) => {
+        usage[metric] += row.usage[metric];
+      });
+    });
+    // 読み込み中に計上された未保存の利用量を加える
+    this.pending.forEach((entry) => {
+      if (entry.tenantId === tenantId && entry.periodStart >= periodStart) {
+        usage[entry.metric] += entry.amount;
+      }
+    });
+    this.totals.set(tenantId, { periodStart, usage });
+  }
+
+  /**
+   * テナントの今月の利用量 (月が変わった場合はリセット)
+   */
+  private currentTotals(tenantId: string): PeriodTotals {
+    const periodStart = monthStart(Date.now());
+    let totals = this.totals.get(tenantId);
+
+    if (!totals || totals.periodStart !== periodStart) {
+      totals = { periodStart, usage: emptyUsage() };
+      this.totals.set(tenantId, totals);
+    }
+
+    return totals;
+  }
+}
+
+/**
+ * 月の開始時刻 (UTC)
+ */
+export function monthStart(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+let usageService: UsageService | null = null;
+
+/**
+ * 利用量サービスを取得 (データベース無効時はメモリ上に保存)
+ */
+export function getUsageService(): UsageService {
+  if (!usageService) {
+    const repository = config.database.enabled
+      ? new PostgresUsageRepository(getPool())
+      : new InMemoryUsageRepository();
+    usageService = new UsageService(repository);
+  }
+
+  return usageService;
+}
@@ -0,0 +1,139 @@
+import { config } from '../config';
+import { AudioFormat } from '../types';
+
+type VadOptions = typeof config.vad;
+
+// フレームの長さ (ms)
+const FRAME_MS = 20;
+
+/**
+ * 音声区間検出の結果
+ */
+export interface VadResult {
+  audio: Buffer; // STTに送る音声 (無音区間は含まない)
+  utteranceStart: boolean; // このチャンクで発話が始まったか
+  utteranceEnd: boolean; // このチャンクで発話が終わったか
+  droppedBytes: number; // 破棄した無音のバイト数
+}
+
+/**
+ * 音声区間検出 (VAD)
+ * 16bit PCM をフレームごとの音量 (dBFS) で判定し、発話区間の音声のみを返す
+ *
+ * - 閾値以上のフレームが minSpeechMs 続いたら発話の開始とし、直前の preRollMs の音声を含めて返す
+ * - 発話中に閾値未満のフレームが pauseMs 続いたら発話の終了とする (それまでの無音は返す)
+ */
+export class VoiceActivityDetector {
+  private options: VadOptions;
+  private frameBytes: number;
+  private remainder: Buffer = Buffer.alloc(0);
+  private preRoll: Buffer[] = []; // 発話開始前の直近のフレーム
+  private speaking: boolean = false;
+  private speechFrames: number = 0; // 閾値以上のフレームの連続数
+  private silenceFrames: number = 0; // 発話中の閾値未満のフレームの連続数
+
+  constructor(format: AudioFormat, options: VadOptions = config.vad) {
+    this.options = options;
+    // 16bit のサンプル × チャンネル数 単位で区切る
+    this.frameBytes =
+      Math.floor((format.sampleRate * FRAME_MS) / 1000) * 2 * format.channels;
+  }
+
+  /**
+   * 音声を判定し、STTに送る音声と発話の区切りを返す
+   */
+  process(data: Buffer): VadResult {
+    const input = Buffer.concat([this.remainder, data]);
+    const usable = input.length - (input.length % this.frameBytes);
+    this.remainder = input.subarray(usable);
+
+    const output: Buffer[] = [];
+    let utteranceStart = false;
+    let utteranceEnd = false;
+    let droppedBytes = 0;
+
+    for (let offset = 0; offset < usable; offset += this.frameBytes) {
+      const frame = input.subarray(offset, offset + this.frameBytes);
+      const isSpeech = this.levelDb(frame) >= this.options.thresholdDb;
+
+      if (this.speaking) {
+        output.push(frame);
+        this.silenceFrames = isSpeech ? 0 : this.silenceFrames + 1;
+
+        if (this.silenceFrames * FRAME_MS >= this.options.pauseMs) {
+          this.speaking = false;
+          this.speechFrames = 0;
+          this.silenceFrames = 0;
+          utteranceEnd = true;
+          // 同じチャンク内で次の発話が始まっても区切りを保つため、残りは次回に回す
+          this.remainder = Buffer.concat([
+            input.subarray(offset + this.frameBytes, usable),
+            this.remainder,
+          ]);
+          break;
+        }
+        continue;
+      }
+
+      this.preRoll.push(frame);
+      this.speechFrames = isSpeech ? this.speechFrames + 1 : 0;
+
+      if (this.speechFrames * FRAME_MS >= this.options.minSpeechMs) {
+        this.speaking = true;
+        this.silenceFrames = 0;
+        utteranceStart = true;
+        output.push(...this.preRoll);
+        this.preRoll = [];
+        continue;
+      }
+
+      while (this.preRoll.length * FRAME_MS > this.options.preRollMs) {
+        droppedBytes += this.preRoll.shift()!.length;
+      }
+    }
+
+    return {
+      audio: Buffer.concat(output),
+      utteranceStart,
+      utteranceEnd,
+      droppedBytes,
+    };
+  }
+
+  /**
+   * 発話を終了した状態に戻す (音声が途切れた場合など)
+   * 発話中だった場合は true
+   */
+  reset(): boolean {
+    const wasSpeaking = this.speaking;
+    this.speaking = false;
+    this.speechFrames = 0;
+    this.silenceFrames = 0;
+    this.preRoll = [];
+    this.remainder = Buffer.alloc(0);
+
+    return wasSpeaking;
+  }
+
+  /**
+   * 発話中かどうか
+   */
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * フレームの音量 (dBFS、チャンネルの平均)
+   */
+  private levelDb(frame: Buffer): number {
+    const samples = frame.length / 2;
+    let sum = 0;
+    for (let i = 0; i < samples; i++) {
+      const sample = frame.readInt16LE(i * 2) / 32768;
+      sum += sample * sample;
+    }
+
+    const rms = Math.sqrt(sum / Math.max(samples, 1));
+    return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+  }
+}
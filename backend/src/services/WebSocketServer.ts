@@ -1,59 +1,224 @@
 import WebSocket from 'ws';
-import { Server as HTTPServer } from 'http';
+import { Server as HTTPServer, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
 import { logger } from '../utils/logger';
 import { AudioPipeline } from './AudioPipeline';
-import { MeetingConfig, AudioChunk } from '../types';
+import { RecallAI } from './RecallAI';
+import { RecallAudioIngest } from './RecallAudioIngest';
+import { MeetingAudioOutput } from './MeetingAudioOutput';
+import { MeetingChatSubtitles } from './MeetingChatSubtitles';
+import { createProviders } from './providers';
+import { ClientSession } from './ClientSession';
+import { MeetingRoom, RoomMember } from './MeetingRoom';
+import { TTSOutputTranscoder, TTSSegmentChunk } from './TTSOutputTranscoder';
+import { isFfmpegAvailable, requiresFfmpeg } from './AudioTranscoder';
+import { TranscriptService, getTranscriptService } from './TranscriptService';
+import {
+  getAuthService,
+  hasRole,
+  credentialFrom,
+  isOriginAllowed,
+} from './AuthService';
+import { getUsageService } from './UsageService';
+import { getGlossaryService } from './GlossaryService';
+import { getMetricsService } from './MetricsService';
+import { getRateLimiter } from './RateLimiter';
+import { auditRejection } from '../utils/audit';
+import { config } from '../config';
+import { isSupportedLanguage } from '../config/languages';
+import {
+  PCM16_16K_MONO,
+  TTS_MP3_FORMAT,
+  parseAudioFormat,
+  formatKey,
+} from '../utils/audioFormat';
+import {
+  MeetingConfig,
+  AudioChunk,
+  SupportedLanguage,
+  TranslationResult,
+  TTSResult,
+  TranslationError,
+  AuthUser,
+  AudioFormat,
+  BackpressureState,
+  UserRole,
+  UsageRecord,
+  UtteranceBoundary,
+  STTStatus,
+} from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
  * WebSocketサーバー
  * クライアントとの双方向通信を管理
+ * 会議 (ボット・パイプライン) は会議IDごとに1つで、ホストと視聴者のクライアントで共有する
  */
 export class WebSocketServer {
   private wss: WebSocket.Server;
+  private rooms: Map<string, MeetingRoom>; // meetingId -> ルーム
+  private memberships: Map<string, string>; // clientId -> meetingId
   private pipelines: Map<string, AudioPipeline>;
-  private clients: Map<string, WebSocket>;
+  private bots: Map<string, RecallAI>;
+  private ingests: Map<string, RecallAudioIngest>;
+  private audioOutputs: Map<string, MeetingAudioOutput>;
+  private chatSubtitles: Map<string, MeetingChatSubtitles>;
+  private sessions: Map<string, ClientSession>; // clientId -> セッション
+  private connections: Map<WebSocket, string>; // 接続 -> clientId
+  private users: WeakMap<IncomingMessage, AuthUser>; // ハンドシェイクで認証したユーザー
+  private quotaStops: Set<string>; // クォータ超過で終了処理中の会議
+  private ttsTranscoders: Map<string, TTSOutputTranscoder>; // meetingId -> TTS音声の変換
 
   constructor(server: HTTPServer) {
-    this.wss = new WebSocket.Server({ server });
+    this.wss = new WebSocket.Server({
+      noServer: true,
+      verifyClient: (info, callback) => this.verifyClient(info, callback),
+    });
+
+    // Recall.ai の音声エンドポイント以外への接続はクライアントとして扱う
+    server.on(
+      'upgrade',
+      (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        if (RecallAudioIngest.handleUpgrade(req, socket, head)) {
+          return;
+        }
+
+        this.wss.handleUpgrade(req, socket, head, (ws) => {
+          this.wss.emit('connection', ws, req);
+        });
+      }
+    );
+    this.rooms = new Map();
+    this.memberships = new Map();
     this.pipelines = new Map();
-    this.clients = new Map();
+    this.bots = new Map();
+    this.ingests = new Map();
+    this.audioOutputs = new Map();
+    this.chatSubtitles = new Map();
+    this.sessions = new Map();
+    this.connections = new Map();
+    this.users = new WeakMap();
+    this.quotaStops = new Set();
+    this.ttsTranscoders = new Map();
 
     this.setupWebSocketServer();
+    this.collectMetrics();
+  }
+
+  /**
+   * ハンドシェイク時にオリジンと認証情報を検証
+   * 拒否した場合は監査IDを付けたJSONでHTTPエラーを返す
+   */
+  private verifyClient(
+    info: { origin: string; req: IncomingMessage },
+    callback: (
+      verified: boolean,
+      code?: number,
+      message?: string,
+      headers?: Record<string, string>
+    ) => void
+  ): void {
+    const context = {
+      channel: 'websocket' as const,
+      ip: info.req.socket.remoteAddress,
+      path: 'upgrade',
+      origin: info.origin,
+    };
+
+    const reject = (error: TranslationError, status: number) => {
+      const rejected = auditRejection(error, context);
+      getMetricsService().countError('auth', rejected.code);
+      callback(
+        false,
+        status,
+        JSON.stringify({
+          error: rejected.message,
+          code: rejected.code,
+          auditId: rejected.details.auditId,
+        }),
+        { 'Content-Type': 'application/json' }
+      );
+    };
+
+    if (!isOriginAllowed(info.origin)) {
+      reject(
+        new TranslationError('Origin is not allowed', 'ORIGIN_NOT_ALLOWED'),
+        403
+      );
+      return;
+    }
+
+    try {
+      const user = getAuthService().authenticate(
+        credentialFrom(info.req, true)
+      );
+      this.users.set(info.req, user);
+      callback(true);
+    } catch (error) {
+      if (error instanceof TranslationError) {
+        reject(error, 401);
+      } else {
+        logger.error('Failed to authenticate WebSocket client', { error });
+        callback(false, 500);
+      }
+    }
   }
 
   /**
    * WebSocketサーバーのセットアップ
    */
   private setupWebSocketServer(): void {
-    this.wss.on('connection', (ws: WebSocket) => {
-      const clientId = uuidv4();
-      this.clients.set(clientId, ws);
+    this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+      // ユーザーは verifyClient で認証済み
+      const session = new ClientSession(ws, this.users.get(req)!);
+      this.sessions.set(session.id, session);
+      this.connections.set(ws, session.id);
 
-      logger.info('Client connected', { clientId });
+      logger.info('Client connected', {
+        clientId: session.id,
+        userId: session.user.id,
+        role: session.user.role,
+      });
+
+      // セッションを再開した場合は接続先のクライアントIDが変わる
+      ws.on('message', async (data: WebSocket.Data, isBinary: boolean) => {
+        const clientId = this.connections.get(ws);
+        if (!clientId) {
+          return;
+        }
 
-      ws.on('message', async (data: WebSocket.Data) => {
         try {
-          await this.handleMessage(clientId, ws, data);
+          await this.handleMessage(clientId, ws, data, isBinary);
         } catch (error) {
           logger.error('Error handling message', { error, clientId });
-          this.sendError(ws, 'Failed to process message');
+          this.sendError(clientId, 'Failed to process message');
         }
       });
 
       ws.on('close', () => {
-        logger.info('Client disconnected', { clientId });
-        this.handleDisconnect(clientId);
+        const clientId = this.connections.get(ws);
+        this.connections.delete(ws);
+
+        if (clientId) {
+          logger.info('Client disconnected', { clientId });
+          this.handleDisconnect(clientId, ws);
+        }
       });
 
       ws.on('error', (error) => {
-        logger.error('WebSocket error', { error, clientId });
+        logger.error('WebSocket error', {
+          error,
+          clientId: this.connections.get(ws),
+        });
       });
 
       // 接続確認メッセージを送信
-      this.sendMessage(ws, {
+      this.sendMessage(session.id, {
         type: 'connected',
-        clientId,
+        clientId: session.id,
+        sessionToken: session.token,
+        resumeGraceMs: config.session.resumeGraceMs,
+        user: { id: session.user.id, role: session.user.role },
         timestamp: Date.now(),
       });
     });
@@ -67,14 +232,16 @@ export class WebSocketServer {
   private async handleMessage(
     clientId: string,
     ws: WebSocket,
-    data: WebSocket.Data
+    data: WebSocket.Data,
+    isBinary: boolean
   ): Promise<void> {
     let message: any;
 
     try {
       // バイナリデータの場合は音声チャンクとして処理
-      if (data instanceof Buffer) {
-        await this.handleAudioChunk(clientId, data);
+      // (ws 8 ではテキストメッセージも Buffer で届くため isBinary で判定)
+      if (isBinary && data instanceof Buffer) {
+        this.handleAudioChunk(clientId, data);
         return;
       }
 
@@ -82,7 +249,7 @@ export class WebSocketServer {
       message = JSON.parse(data.toString());
     } catch (error) {
       logger.error('Failed to parse message', { error });
-      this.sendError(ws, 'Invalid message format');
+      this.sendError(clientId, 'Invalid message format');
       return;
     }
 
@@ -90,100 +257,821 @@ export class WebSocketServer {
 
     switch (message.type) {
       case 'start_meeting':
-        await this.handleStartMeeting(clientId, ws, message.config);
+        await this.handleStartMeeting(clientId, message.config);
         break;
 
       case 'stop_meeting':
-        await this.handleStopMeeting(clientId, ws);
+        await this.handleStopMeeting(clientId);
+        break;
+
+      case 'join_session':
+        await this.handleJoinSession(clientId, message);
+        break;
+
+      case 'leave_session':
+        this.handleLeaveSession(clientId);
+        break;
+
+      case 'resume_session':
+        this.handleResumeSession(clientId, ws, message);
         break;
 
       case 'ping':
-        this.sendMessage(ws, { type: 'pong', timestamp: Date.now() });
+        this.sendMessage(clientId, { type: 'pong', timestamp: Date.now() });
         break;
 
       default:
         logger.warn('Unknown message type', { type: message.type });
-        this.sendError(ws, `Unknown message type: ${message.type}`);
+        this.sendError(clientId, `Unknown message type: ${message.type}`);
     }
   }
 
   /**
-   * 会議開始ハンドラー
+   * 会議開始ハンドラー (開始したクライアントがホストになる)
    */
   private async handleStartMeeting(
     clientId: string,
-    ws: WebSocket,
     config: MeetingConfig
   ): Promise<void> {
     logger.info('Starting meeting', { clientId, config });
 
+    if (!this.authorize(clientId, 'host', 'start_meeting')) {
+      return;
+    }
+
+    // テナントごとの会議の開始回数を制限
+    try {
+      getRateLimiter('start_meeting').consume(
+        this.sessions.get(clientId)!.user.tenantId
+      );
+    } catch (error) {
+      const code = error instanceof TranslationError ? error.code : undefined;
+      this.sendError(clientId, (error as Error).message, code);
+      return;
+    }
+
+    const languages = [
+      ...(config?.targetLanguages ?? []),
+      ...(config?.sourceLanguage ? [config.sourceLanguage] : []),
+    ];
+    const invalidLanguages = languages.filter(
+      (language) => !isSupportedLanguage(language)
+    );
+    if (languages.length === 0 || invalidLanguages.length > 0) {
+      this.sendError(
+        clientId,
+        `Unsupported language: ${invalidLanguages.join(', ') || '(none)'}`,
+        'INVALID_LANGUAGE'
+      );
+      return;
+    }
+
+    // 音声フォーマット (現在のSTTプロバイダーはいずれも 16kHz PCM を受け付ける)
+    const inputFormat = await this.resolveAudioFormat(
+      clientId,
+      config.inputFormat,
+      PCM16_16K_MONO
+    );
+    const outputFormat =
+      inputFormat &&
+      (await this.resolveAudioFormat(
+        clientId,
+        config.outputFormat,
+        TTS_MP3_FORMAT
+      ));
+    if (!inputFormat || !outputFormat) {
+      return;
+    }
+    config = { ...config, inputFormat, outputFormat };
+
+    // 翻訳音声・字幕の出力先 (会議への出力にはボットが必要)
+    const voiceOutput = config.voiceOutput ?? 'client';
+    const subtitleOutput = config.subtitleOutput ?? 'client';
+    const outputsToMeeting =
+      (config.enableVoice && voiceOutput !== 'client') ||
+      (config.enableSubtitles && subtitleOutput !== 'client');
+    if (!config.meetingUrl && outputsToMeeting) {
+      this.sendError(
+        clientId,
+        'Meeting URL is required to output to the meeting',
+        'MEETING_URL_REQUIRED'
+      );
+      return;
+    }
+
+    if (this.memberships.has(clientId)) {
+      this.sendError(clientId, 'Meeting is already running');
+      return;
+    }
+
+    // ルームを作成 (開始処理中の重複した開始を防ぐため先に登録)
+    const meetingId = uuidv4();
+    const owner = this.sessions.get(clientId)!.user;
+    const room = new MeetingRoom(meetingId, clientId, config, owner);
+    this.rooms.set(meetingId, room);
+    this.memberships.set(clientId, meetingId);
+
+    // 今月のクォータを超過している場合は開始しない
+    try {
+      await getUsageService().assertWithinQuota(owner.tenantId);
+    } catch (error) {
+      this.closeRoom(meetingId);
+      if (error instanceof TranslationError) {
+        this.sendError(clientId, error.message, error.code);
+      } else {
+        logger.error('Failed to check usage quota', { error, meetingId });
+        this.sendError(clientId, 'Failed to check usage quota');
+      }
+      return;
+    }
+
+    // 他のテナントの用語集は使用できない (未登録のIDはプロバイダー側の用語集IDとして扱う)
+    if (config.glossaryId) {
+      try {
+        const glossary = await getGlossaryService().getForTranslation(
+          config.glossaryId
+        );
+        if (
+          glossary &&
+          !hasRole(owner, 'admin') &&
+          glossary.tenantId !== owner.tenantId
+        ) {
+          throw new TranslationError(
+            `Glossary not found: ${config.glossaryId}`,
+            'GLOSSARY_NOT_FOUND'
+          );
+        }
+      } catch (error) {
+        this.closeRoom(meetingId);
+        if (error instanceof TranslationError) {
+          this.sendError(clientId, error.message, error.code);
+        } else {
+          logger.error('Failed to load glossary', { error, meetingId });
+          this.sendError(clientId, 'Failed to load glossary');
+        }
+        return;
+      }
+    }
+
+    // 会議URLが指定された場合はボットを会議に参加させる
+    // (指定がない場合はクライアントが送信する音声のみを翻訳する)
+    let bot: RecallAI | null = null;
+    if (config.meetingUrl) {
+      bot = new RecallAI();
+      this.setupBotListeners(meetingId, bot);
+
+      // 会議の音声を受信するエンドポイント (パイプラインの開始後に取り込みを開始する)
+      const ingest = new RecallAudioIngest();
+      const audioUrl = ingest.getEndpointUrl();
+      if (!audioUrl) {
+        logger.warn(
+          'RECALL_REALTIME_AUDIO_URL is not set, meeting audio will not be received',
+          { meetingId }
+        );
+      }
+      this.ingests.set(meetingId, ingest);
+
+      try {
+        await bot.joinMeeting(config.meetingUrl, undefined, audioUrl);
+      } catch (error) {
+        bot.removeAllListeners();
+        this.stopAudioIngest(meetingId);
+        this.closeRoom(meetingId);
+        this.sendError(clientId, 'Failed to join meeting', 'RECALL_API_ERROR');
+        return;
+      }
+
+      // 参加中にホストのセッションが切れて会議が終了した場合
+      if (this.rooms.get(meetingId) !== room) {
+        bot.removeAllListeners();
+        await bot.leaveMeeting().catch((error) => {
+          logger.error('Failed to remove bot from meeting', {
+            error,
+            meetingId,
+          });
+        });
+        return;
+      }
+
+      this.bots.set(meetingId, bot);
+    }
+
+    // 翻訳音声を会議で再生する
+    if (config.meetingUrl && config.enableVoice && voiceOutput !== 'client') {
+      const output = new MeetingAudioOutput(
+        config.meetingUrl,
+        config.targetLanguages
+      );
+      output.on('error', (error: Error) => {
+        this.sendError(clientId, error.message, 'RECALL_API_ERROR');
+      });
+
+      try {
+        await output.start();
+      } catch (error) {
+        output.removeAllListeners();
+        await this.teardownMeeting(meetingId);
+        this.sendError(
+          clientId,
+          'Failed to start meeting audio output',
+          'RECALL_API_ERROR'
+        );
+        return;
+      }
+
+      this.audioOutputs.set(meetingId, output);
+    }
+
+    // 字幕を会議のチャットに投稿する
+    if (bot && config.enableSubtitles && subtitleOutput !== 'client') {
+      const chat = new MeetingChatSubtitles(bot);
+      chat.on('error', (error: Error) => {
+        this.sendError(clientId, error.message, 'RECALL_API_ERROR');
+      });
+      this.chatSubtitles.set(meetingId, chat);
+    }
+
     // パイプラインを作成
-    const pipeline = new AudioPipeline(config);
+    const pipeline = new AudioPipeline(config, createProviders(config));
 
-    // イベントリスナーを設定
+    // イベントリスナーを設定 (各クライアントには選択した言語の結果のみ配信)
     pipeline.on('stt_final', (result) => {
-      this.sendMessage(ws, { type: 'stt_result', data: result });
+      this.broadcast(meetingId, () => ({ type: 'stt_result', data: result }));
+    });
+
+    // 発話の区切り (VADが検出)
+    const onBoundary = (boundary: UtteranceBoundary) => {
+      this.broadcast(meetingId, () => ({
+        type: 'utterance_boundary',
+        data: boundary,
+      }));
+    };
+    pipeline.on('utterance_start', onBoundary);
+    pipeline.on('utterance_end', onBoundary);
+
+    // STTの切断・再接続 (切断中の音声は翻訳されない)
+    pipeline.on('stt_status', (status: STTStatus) => {
+      this.broadcast(meetingId, () => ({ type: 'stt_status', data: status }));
+    });
+
+    pipeline.on('translations', (translations: TranslationResult[]) => {
+      this.broadcast(meetingId, (member) =>
+        this.forLanguages(
+          member,
+          'translations',
+          translations,
+          (t) => t.targetLang
+        )
+      );
+    });
+
+    pipeline.on('tts_results', (results: TTSResult[]) => {
+      this.audioOutputs.get(meetingId)?.enqueue(results);
+
+      // ストリーミング時はクライアントには tts_chunk で送信済み
+      if (!pipeline.isStreamingTTS()) {
+        this.broadcastTTSResults(meetingId, results);
+      }
     });
 
-    pipeline.on('translations', (translations) => {
-      this.sendMessage(ws, { type: 'translations', data: translations });
+    pipeline.on('tts_chunk', (chunk: TTSSegmentChunk) => {
+      this.broadcastTTSChunk(meetingId, chunk);
     });
 
-    pipeline.on('tts_results', (results) => {
-      this.sendMessage(ws, { type: 'tts_results', data: results });
+    pipeline.on('subtitles', (subtitles: TranslationResult[]) => {
+      this.chatSubtitles.get(meetingId)?.add(subtitles);
+
+      this.broadcast(meetingId, (member) =>
+        member.subtitles
+          ? this.forLanguages(
+              member,
+              'subtitles',
+              subtitles,
+              (t) => t.targetLang
+            )
+          : null
+      );
     });
 
-    pipeline.on('subtitles', (subtitles) => {
-      this.sendMessage(ws, { type: 'subtitles', data: subtitles });
+    pipeline.on('transcript_segment', (segment) => {
+      this.recordTranscript(meetingId, 'segment', (transcripts) =>
+        transcripts.addSegment(meetingId, segment)
+      );
+    });
+
+    pipeline.on('speaker', (speaker) => {
+      this.recordTranscript(meetingId, 'participant', (transcripts) =>
+        transcripts.addParticipant(meetingId, speaker)
+      );
+    });
+
+    pipeline.on('latency', (metrics) => {
+      this.recordTranscript(meetingId, 'latency', (transcripts) =>
+        transcripts.addLatencySample(meetingId, metrics)
+      );
+    });
+
+    // 取り込みキューの状態をホストに通知 (音声を送信するのはホストのみ)
+    pipeline.on('backpressure', (state: BackpressureState) => {
+      this.sendMessage(room.hostId, {
+        type: 'backpressure',
+        ...state,
+        timestamp: Date.now(),
+      });
+    });
+
+    pipeline.on('usage', (record: UsageRecord) => {
+      this.recordUsage(meetingId, record);
     });
 
     pipeline.on('error', (error) => {
-      this.sendError(ws, error.message);
+      const code = error instanceof TranslationError ? error.code : undefined;
+      getMetricsService().countError('pipeline', code);
+      this.broadcast(meetingId, () => this.errorMessage(error.message, code));
     });
 
+    // 文字起こしの記録を開始 (失敗しても翻訳は継続)
+    try {
+      await getTranscriptService().startMeeting(
+        meetingId,
+        owner.tenantId,
+        config.meetingUrl ?? '',
+        config.targetLanguages,
+        bot?.getBotId() ?? undefined
+      );
+    } catch (error) {
+      logger.error('Failed to start transcript', { meetingId, error });
+    }
+
     // パイプラインを開始
-    await pipeline.start();
+    try {
+      await pipeline.start();
+    } catch (error) {
+      pipeline.removeAllListeners();
+      await this.teardownMeeting(meetingId);
+      this.sendError(
+        clientId,
+        'Failed to start audio pipeline',
+        error instanceof TranslationError ? error.code : undefined
+      );
+      return;
+    }
 
-    this.pipelines.set(clientId, pipeline);
+    if (this.rooms.get(meetingId) !== room) {
+      pipeline.removeAllListeners();
+      await pipeline.stop();
+      return;
+    }
+
+    this.pipelines.set(meetingId, pipeline);
 
-    this.sendMessage(ws, {
+    // 会議の音声の取り込みを開始
+    this.ingests.get(meetingId)?.start(pipeline);
+
+    this.sendMessage(clientId, {
       type: 'meeting_started',
       clientId,
+      meetingId,
+      role: 'host',
+      botId: bot?.getBotId() ?? null,
+      inputFormat: config.inputFormat,
+      outputFormat: config.outputFormat,
       timestamp: Date.now(),
     });
   }
 
   /**
-   * 会議停止ハンドラー
+   * ボットのイベントを会議の全クライアントに転送
    */
-  private async handleStopMeeting(
+  private setupBotListeners(meetingId: string, bot: RecallAI): void {
+    bot.on('status_change', (status) => {
+      this.broadcast(meetingId, () => ({
+        type: 'bot_status',
+        botId: bot.getBotId(),
+        data: status,
+        timestamp: Date.now(),
+      }));
+    });
+
+    bot.on('ready', () => {
+      this.broadcast(meetingId, () => ({
+        type: 'bot_ready',
+        botId: bot.getBotId(),
+        timestamp: Date.now(),
+      }));
+    });
+
+    bot.on('ended', async () => {
+      logger.info('Bot left the call', { meetingId, botId: bot.getBotId() });
+
+      this.broadcast(meetingId, () => ({
+        type: 'bot_ended',
+        botId: bot.getBotId(),
+        timestamp: Date.now(),
+      }));
+
+      // 会議が終了したのでボットは退出済み、パイプラインのみ停止する
+      await this.stopAfterBotLeft(meetingId);
+    });
+
+    // ボットが失敗した場合も会議には残らないため、会議を終了して参加者に通知する
+    bot.on('fatal', async () => {
+      logger.warn('Bot failed, stopping meeting', {
+        meetingId,
+        botId: bot.getBotId(),
+      });
+
+      const members = this.rooms.get(meetingId)?.list() ?? [];
+      await this.stopAfterBotLeft(meetingId);
+      members.forEach((member) => {
+        this.sendMessage(member.clientId, {
+          type: 'meeting_stopped',
+          clientId: member.clientId,
+          meetingId,
+          timestamp: Date.now(),
+        });
+      });
+    });
+
+    bot.on('error', (error: Error) => {
+      logger.error('Bot error', { meetingId, error });
+      getMetricsService().countError('recall');
+      this.broadcast(meetingId, () => ({
+        type: 'bot_error',
+        botId: bot.getBotId(),
+        error: error.message,
+        timestamp: Date.now(),
+      }));
+    });
+  }
+
+  /**
+   * ボットが会議を離れた後 (会議の終了・ボットの失敗) に会議を終了
+   * ボットは退出済みのため退出は要求しない
+   */
+  private async stopAfterBotLeft(meetingId: string): Promise<void> {
+    this.bots.delete(meetingId);
+    this.stopAudioIngest(meetingId);
+    await this.stopPipeline(meetingId);
+    await this.stopAudioOutput(meetingId);
+    await this.stopChatSubtitles(meetingId, false);
+    this.closeRoom(meetingId);
+  }
+
+  /**
+   * 会議停止ハンドラー (ホストのみ)
+   */
+  private async handleStopMeeting(clientId: string): Promise<void> {
+    const meetingId = this.memberships.get(clientId);
+    const room = meetingId ? this.rooms.get(meetingId) : undefined;
+
+    if (!room) {
+      this.sendMessage(clientId, {
+        type: 'meeting_stopped',
+        clientId,
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    // 管理者はホスト以外でも停止できる
+    const user = this.sessions.get(clientId)?.user;
+    if (!room.isHost(clientId) && !(user && hasRole(user, 'admin'))) {
+      this.sendError(
+        clientId,
+        'Only the host can stop the meeting',
+        'NOT_MEETING_HOST'
+      );
+      return;
+    }
+
+    logger.info('Stopping meeting', { clientId, meetingId: room.meetingId });
+
+    await this.stopMeeting(room);
+  }
+
+  /**
+   * 会議を終了し、参加していた全クライアントに通知
+   */
+  private async stopMeeting(room: MeetingRoom): Promise<void> {
+    const members = room.list();
+
+    await this.teardownMeeting(room.meetingId);
+
+    members.forEach((member) => {
+      this.sendMessage(member.clientId, {
+        type: 'meeting_stopped',
+        clientId: member.clientId,
+        meetingId: room.meetingId,
+        timestamp: Date.now(),
+      });
+    });
+  }
+
+  /**
+   * 視聴者として会議に参加 (参加済みの場合は受信する言語を変更)
+   */
+  private async handleJoinSession(
     clientId: string,
-    ws: WebSocket
+    message: {
+      meetingId?: unknown;
+      languages?: unknown;
+      enableVoice?: unknown;
+      outputFormat?: unknown;
+    }
   ): Promise<void> {
-    logger.info('Stopping meeting', { clientId });
+    const room =
+      typeof message.meetingId === 'string'
+        ? this.rooms.get(message.meetingId)
+        : undefined;
+    if (!room) {
+      this.sendError(clientId, 'Meeting not found', 'MEETING_NOT_FOUND');
+      return;
+    }
 
-    const pipeline = this.pipelines.get(clientId);
-    if (pipeline) {
-      await pipeline.stop();
-      this.pipelines.delete(clientId);
+    // 他のテナントの会議には参加できない (管理者を除く)
+    const user = this.sessions.get(clientId)!.user;
+    if (!hasRole(user, 'admin') && user.tenantId !== room.owner.tenantId) {
+      this.reject(
+        clientId,
+        new TranslationError('Meeting not found', 'MEETING_NOT_FOUND'),
+        'join_session'
+      );
+      return;
     }
 
-    this.sendMessage(ws, {
-      type: 'meeting_stopped',
+    const languages = Array.isArray(message.languages)
+      ? message.languages
+      : room.config.targetLanguages;
+    const invalidLanguages = languages.filter(
+      (language) =>
+        !isSupportedLanguage(language) || !room.hasLanguage(language)
+    );
+    if (languages.length === 0 || invalidLanguages.length > 0) {
+      this.sendError(
+        clientId,
+        `Language is not translated in this meeting: ${
+          invalidLanguages.join(', ') || '(none)'
+        }`,
+        'INVALID_LANGUAGE'
+      );
+      return;
+    }
+
+    const outputFormat = await this.resolveAudioFormat(
       clientId,
+      message.outputFormat,
+      TTS_MP3_FORMAT
+    );
+    if (!outputFormat) {
+      return;
+    }
+
+    // 確認中に会議が終了した場合
+    if (this.rooms.get(room.meetingId) !== room) {
+      this.sendError(clientId, 'Meeting not found', 'MEETING_NOT_FOUND');
+      return;
+    }
+
+    // 別の会議に参加している場合は退出 (ホストの場合は参加できない)
+    const currentId = this.memberships.get(clientId);
+    if (currentId && currentId !== room.meetingId) {
+      if (this.rooms.get(currentId)?.isHost(clientId)) {
+        this.sendError(clientId, 'Meeting is already running');
+        return;
+      }
+      this.leaveRoom(clientId);
+    }
+
+    const member = room.join(
+      clientId,
+      languages as SupportedLanguage[],
+      message.enableVoice !== false,
+      outputFormat
+    );
+    this.memberships.set(clientId, room.meetingId);
+
+    logger.info('Client joined meeting', {
+      clientId,
+      meetingId: room.meetingId,
+      role: member.role,
+      languages: member.languages,
+    });
+
+    this.sendMessage(clientId, {
+      type: 'session_joined',
+      meetingId: room.meetingId,
+      role: member.role,
+      languages: member.languages,
+      voice: member.voice,
+      outputFormat: member.outputFormat,
+      botId: this.bots.get(room.meetingId)?.getBotId() ?? null,
       timestamp: Date.now(),
     });
   }
 
   /**
-   * 音声チャンクハンドラー
+   * 視聴者として参加している会議から退出
    */
-  private async handleAudioChunk(
-    clientId: string,
-    data: Buffer
+  private handleLeaveSession(clientId: string): void {
+    const meetingId = this.memberships.get(clientId);
+    if (!meetingId) {
+      return;
+    }
+
+    if (this.rooms.get(meetingId)?.isHost(clientId)) {
+      this.sendError(
+        clientId,
+        'The host cannot leave the meeting, use stop_meeting instead',
+        'HOST_CANNOT_LEAVE'
+      );
+      return;
+    }
+
+    this.leaveRoom(clientId);
+    this.sendMessage(clientId, {
+      type: 'session_left',
+      meetingId,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * クライアントを会議から外す
+   */
+  private leaveRoom(clientId: string): void {
+    const meetingId = this.memberships.get(clientId);
+    if (meetingId) {
+      this.memberships.delete(clientId);
+      this.rooms.get(meetingId)?.leave(clientId);
+      logger.info('Client left meeting', { clientId, meetingId });
+    }
+  }
+
+  /**
+   * パイプラインを停止し、ボットを会議から退出させる
+   */
+  private async teardownMeeting(meetingId: string): Promise<void> {
+    this.stopAudioIngest(meetingId);
+    await this.stopPipeline(meetingId);
+    await this.stopAudioOutput(meetingId);
+    await this.stopChatSubtitles(meetingId, true);
+
+    const bot = this.bots.get(meetingId);
+    if (bot) {
+      this.bots.delete(meetingId);
+      bot.removeAllListeners();
+
+      try {
+        await bot.leaveMeeting();
+      } catch (error) {
+        logger.error('Failed to remove bot from meeting', { error, meetingId });
+      }
+    }
+
+    this.closeRoom(meetingId);
+  }
+
+  /**
+   * ルームを削除し、参加していたクライアントを外す
+   */
+  private closeRoom(meetingId: string): void {
+    const room = this.rooms.get(meetingId);
+    if (!room) {
+      return;
+    }
+
+    this.rooms.delete(meetingId);
+    this.quotaStops.delete(meetingId);
+    this.ttsTranscoders.get(meetingId)?.close();
+    this.ttsTranscoders.delete(meetingId);
+    room.list().forEach((member) => {
+      if (this.memberships.get(member.clientId) === meetingId) {
+        this.memberships.delete(member.clientId);
+      }
+    });
+  }
+
+  /**
+   * 音声の取り込みを停止
+   */
+  private stopAudioIngest(meetingId: string): void {
+    const ingest = this.ingests.get(meetingId);
+    if (ingest) {
+      this.ingests.delete(meetingId);
+      ingest.stop();
+    }
+  }
+
+  /**
+   * 会議への音声出力を停止
+   */
+  private async stopAudioOutput(meetingId: string): Promise<void> {
+    const output = this.audioOutputs.get(meetingId);
+    if (output) {
+      this.audioOutputs.delete(meetingId);
+      output.removeAllListeners();
+      await output.stop();
+    }
+  }
+
+  /**
+   * 会議チャットへの字幕投稿を停止
+   */
+  private async stopChatSubtitles(
+    meetingId: string,
+    flush: boolean
   ): Promise<void> {
-    const pipeline = this.pipelines.get(clientId);
-    if (!pipeline) {
+    const chat = this.chatSubtitles.get(meetingId);
+    if (chat) {
+      this.chatSubtitles.delete(meetingId);
+      await chat.stop(flush);
+      chat.removeAllListeners();
+    }
+  }
+
+  /**
+   * パイプラインを停止
+   */
+  private async stopPipeline(meetingId: string): Promise<void> {
+    const pipeline = this.pipelines.get(meetingId);
+    if (pipeline) {
+      this.pipelines.delete(meetingId);
+      await pipeline.stop();
+    }
+
+    await this.endTranscript(meetingId);
+  }
+
+  /**
+   * 文字起こしに記録 (失敗はログのみ)
+   */
+  private recordTranscript(
+    meetingId: string,
+    kind: string,
+    record: (transcripts: TranscriptService) => Promise<unknown>
+  ): void {
+    record(getTranscriptService()).catch((error) => {
+      logger.error(`Failed to record transcript ${kind}`, {
+        meetingId,
+        error,
+      });
+    });
+  }
+
+  /**
+   * 文字起こしの記録を終了
+   */
+  private async endTranscript(meetingId: string): Promise<void> {
+    try {
+      await getTranscriptService().endMeeting(meetingId);
+    } catch (error) {
+      logger.error('Failed to end transcript', { meetingId, error });
+    }
+  }
+
+  /**
+   * 会議の利用量を開始ユーザーのテナントに計上
+   * クォータを超過した場合は全クライアントに通知して会議を終了する
+   */
+  private recordUsage(meetingId: string, record: UsageRecord): void {
+    const room = this.rooms.get(meetingId);
+    if (!room) {
+      return;
+    }
+
+    const usage = getUsageService();
+    const exceeded = usage.record(room.owner, record.metric, record.amount);
+    if (!exceeded || this.quotaStops.has(meetingId)) {
+      return;
+    }
+
+    this.quotaStops.add(meetingId);
+    const error = usage.quotaExceeded(room.owner.tenantId, exceeded);
+    logger.warn('Usage quota exceeded, stopping meeting', {
+      meetingId,
+      ...error.details,
+    });
+
+    this.broadcast(meetingId, () =>
+      this.errorMessage(error.message, error.code)
+    );
+    this.stopMeeting(room).catch((stopError) => {
+      logger.error('Failed to tear down meeting', {
+        error: stopError,
+        meetingId,
+      });
+    });
+  }
+
+  /**
+   * 音声チャンクハンドラー (ホストのみ)
+   * チャンクはパイプラインの取り込みキューで受信順に処理する
+   */
+  private handleAudioChunk(clientId: string, data: Buffer): void {
+    const meetingId = this.memberships.get(clientId);
+    const pipeline = meetingId ? this.pipelines.get(meetingId) : undefined;
+    if (!pipeline || !this.rooms.get(meetingId!)?.isHost(clientId)) {
       logger.warn('No active pipeline for client', { clientId });
       return;
     }
@@ -193,40 +1081,361 @@ export class WebSocketServer {
       timestamp: Date.now(),
     };
 
-    await pipeline.processAudioChunk(chunk);
+    pipeline.enqueueAudioChunk(chunk);
+  }
+
+  /**
+   * セッション再開ハンドラー
+   * 新しい接続を既存のセッションに付け替え、lastSequence 以降のメッセージを再送する
+   */
+  private handleResumeSession(
+    clientId: string,
+    ws: WebSocket,
+    message: { sessionToken?: unknown; lastSequence?: unknown }
+  ): void {
+    const session = [...this.sessions.values()].find(
+      (candidate) => candidate.token === message.sessionToken
+    );
+    if (!session) {
+      this.sendError(
+        clientId,
+        'Session not found or expired',
+        'SESSION_NOT_FOUND'
+      );
+      return;
+    }
+
+    if (session.id !== clientId) {
+      // 別のユーザーのセッションは再開できない
+      const user = this.sessions.get(clientId)?.user;
+      if (user?.id !== session.user.id) {
+        this.reject(
+          clientId,
+          new TranslationError('Session belongs to another user', 'FORBIDDEN'),
+          'resume_session'
+        );
+        return;
+      }
+
+      // 新しい接続で会議を開始・参加している場合は再開しない
+      if (this.memberships.has(clientId)) {
+        this.sendError(
+          clientId,
+          'A meeting is already running on this connection',
+          'SESSION_IN_USE'
+        );
+        return;
+      }
+
+      // 接続時に作成したセッションは破棄
+      this.sessions.get(clientId)?.close();
+      this.sessions.delete(clientId);
+    }
+
+    const lastSequence =
+      typeof message.lastSequence === 'number' && message.lastSequence >= 0
+        ? Math.floor(message.lastSequence)
+        : 0;
+    const { previous, replayed, missed } = session.attach(ws, lastSequence);
+    this.connections.set(ws, session.id);
+
+    // 以前の接続が残っている場合は閉じる
+    if (previous) {
+      this.connections.delete(previous);
+      previous.close();
+    }
+
+    logger.info('Session resumed', { clientId: session.id, replayed, missed });
+    getMetricsService().countReconnect('client_session');
+
+    const meetingId = this.memberships.get(session.id);
+    this.sendMessage(session.id, {
+      type: 'session_resumed',
+      clientId: session.id,
+      replayed,
+      missed,
+      meetingActive: meetingId !== undefined,
+      meetingId: meetingId ?? null,
+      role: meetingId
+        ? this.rooms.get(meetingId)?.getMember(session.id)?.role
+        : undefined,
+      timestamp: Date.now(),
+    });
   }
 
   /**
    * クライアント切断ハンドラー
+   * 猶予期間が過ぎるまでセッションを維持し、その間に再開されなければ会議から外す
+   * (ホストの場合は会議を終了する)
    */
-  private handleDisconnect(clientId: string): void {
-    const pipeline = this.pipelines.get(clientId);
-    if (pipeline) {
-      pipeline.stop();
-      this.pipelines.delete(clientId);
+  private handleDisconnect(clientId: string, ws: WebSocket): void {
+    const session = this.sessions.get(clientId);
+    if (!session) {
+      return;
     }
 
-    this.clients.delete(clientId);
+    session.detach(ws, () => {
+      logger.info('Session expired', { clientId });
+      this.sessions.delete(clientId);
+      session.close();
+
+      const meetingId = this.memberships.get(clientId);
+      const room = meetingId ? this.rooms.get(meetingId) : undefined;
+      if (room?.isHost(clientId)) {
+        this.stopMeeting(room).catch((error) => {
+          logger.error('Failed to tear down meeting', { error, meetingId });
+        });
+      } else {
+        this.leaveRoom(clientId);
+      }
+    });
   }
 
   /**
-   * メッセージ送信
+   * 会議の各クライアントにメッセージを送信 (null を返したクライアントには送信しない)
    */
-  private sendMessage(ws: WebSocket, message: any): void {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(message));
+  private broadcast(
+    meetingId: string,
+    build: (member: RoomMember) => object | null
+  ): void {
+    this.rooms
+      .get(meetingId)
+      ?.list()
+      .forEach((member) => {
+        const message = build(member);
+        if (message) {
+          this.sendMessage(member.clientId, message);
+        }
+      });
+  }
+
+  /**
+   * TTS結果を各クライアントが要求するフォーマットで送信
+   */
+  private broadcastTTSResults(meetingId: string, results: TTSResult[]): void {
+    const transcoder = this.getTTSTranscoder(meetingId);
+
+    this.rooms
+      .get(meetingId)
+      ?.list()
+      .forEach((member) => {
+        const message = member.voice
+          ? this.forLanguages(member, 'tts_results', results, (r) => r.language)
+          : null;
+        if (!message) {
+          return;
+        }
+
+        if (!transcoder.needsConversion(member.outputFormat)) {
+          this.sendMessage(member.clientId, message);
+          return;
+        }
+
+        const selected = results.filter((r) =>
+          member.languages.includes(r.language)
+        );
+        transcoder
+          .convertResults(selected, member.outputFormat)
+          .then((data) =>
+            this.sendMessage(member.clientId, { type: 'tts_results', data })
+          )
+          .catch((error) => this.handleTranscodeError(member, error));
+      });
+  }
+
+  /**
+   * ストリーミングTTSのチャンクを各クライアントが要求するフォーマットで送信
+   */
+  private broadcastTTSChunk(meetingId: string, chunk: TTSSegmentChunk): void {
+    const transcoder = this.getTTSTranscoder(meetingId);
+    const send = (member: RoomMember, converted: TTSSegmentChunk) => {
+      this.sendMessage(member.clientId, {
+        type: 'tts_chunk',
+        data: {
+          ...converted,
+          audioData: converted.audioData.toString('base64'),
+        },
+      });
+    };
+
+    this.rooms
+      .get(meetingId)
+      ?.list()
+      .forEach((member) => {
+        if (!member.voice || !member.languages.includes(chunk.language)) {
+          return;
+        }
+
+        if (!transcoder.needsConversion(member.outputFormat)) {
+          send(member, chunk);
+          return;
+        }
+
+        transcoder
+          .convertChunk(chunk, member.outputFormat)
+          .then((converted) => send(member, converted))
+          .catch((error) => this.handleTranscodeError(member, error));
+      });
+  }
+
+  /**
+   * 会議のTTS音声の変換を取得 (なければ作成)
+   */
+  private getTTSTranscoder(meetingId: string): TTSOutputTranscoder {
+    let transcoder = this.ttsTranscoders.get(meetingId);
+    if (!transcoder) {
+      transcoder = new TTSOutputTranscoder();
+      this.ttsTranscoders.set(meetingId, transcoder);
+    }
+
+    return transcoder;
+  }
+
+  /**
+   * TTS音声の変換の失敗をクライアントに通知 (会議の終了による中断は無視)
+   */
+  private handleTranscodeError(member: RoomMember, error: unknown): void {
+    if (!(error instanceof TranslationError)) {
+      logger.debug('TTS transcoding cancelled', { error });
+      return;
     }
+
+    this.sendError(member.clientId, error.message, error.code);
+  }
+
+  /**
+   * クライアントが指定した音声フォーマットを検証 (省略時は fallback)
+   * 不正な場合や変換に必要な ffmpeg がない場合はエラーを送信して null を返す
+   */
+  private async resolveAudioFormat(
+    clientId: string,
+    value: unknown,
+    fallback: AudioFormat
+  ): Promise<AudioFormat | null> {
+    if (value === undefined) {
+      return fallback;
+    }
+
+    const format = parseAudioFormat(value);
+    if (!format) {
+      this.sendError(
+        clientId,
+        'Unsupported audio format',
+        'INVALID_AUDIO_FORMAT'
+      );
+      return null;
+    }
+
+    if (requiresFfmpeg(format, fallback) && !(await isFfmpegAvailable())) {
+      this.sendError(
+        clientId,
+        `Audio format ${formatKey(format)} is not available on this server`,
+        'AUDIO_TRANSCODE_UNAVAILABLE'
+      );
+      return null;
+    }
+
+    return format;
+  }
+
+  /**
+   * クライアントが選択した言語の結果のみのメッセージを作成 (該当なしは null)
+   */
+  private forLanguages<T>(
+    member: RoomMember,
+    type: string,
+    items: T[],
+    languageOf: (item: T) => SupportedLanguage
+  ): object | null {
+    const data = items.filter((item) =>
+      member.languages.includes(languageOf(item))
+    );
+    return data.length > 0 ? { type, data } : null;
+  }
+
+  /**
+   * メッセージ送信 (連番を付与し、切断中は再開時のために保持)
+   */
+  private sendMessage(clientId: string, message: any): void {
+    this.sessions.get(clientId)?.send(message);
   }
 
   /**
    * エラーメッセージ送信
    */
-  private sendError(ws: WebSocket, error: string): void {
-    this.sendMessage(ws, {
+  private sendError(clientId: string, error: string, code?: string): void {
+    getMetricsService().countError('websocket', code);
+    this.sendMessage(clientId, this.errorMessage(error, code));
+  }
+
+  /**
+   * クライアントの役割を確認 (不足している場合は監査ログに記録してエラーを送信)
+   */
+  private authorize(clientId: string, role: UserRole, action: string): boolean {
+    const user = this.sessions.get(clientId)?.user;
+    if (user && hasRole(user, role)) {
+      return true;
+    }
+
+    this.reject(
+      clientId,
+      new TranslationError(`Requires ${role} role`, 'FORBIDDEN'),
+      action
+    );
+    return false;
+  }
+
+  /**
+   * 操作の拒否を監査ログに記録し、監査IDを付けたエラーを送信
+   */
+  private reject(
+    clientId: string,
+    error: TranslationError,
+    action: string
+  ): void {
+    const user = this.sessions.get(clientId)?.user;
+    const rejected = auditRejection(error, {
+      channel: 'websocket',
+      path: action,
+      clientId,
+      userId: user?.id,
+      role: user?.role,
+    });
+    getMetricsService().countError('auth', rejected.code);
+
+    this.sendMessage(clientId, {
+      ...this.errorMessage(rejected.message, rejected.code),
+      auditId: rejected.details.auditId,
+    });
+  }
+
+  /**
+   * 接続中のセッション数と会議数を /metrics の出力時に集計
+   */
+  private collectMetrics(): void {
+    const metrics = getMetricsService();
+
+    metrics.activeSessions.collect(() => {
+      const sessions = [...this.sessions.values()];
+      const connected = sessions.filter((session) =>
+        session.isConnected()
+      ).length;
+
+      return [
+        { labels: { state: 'connected' }, value: connected },
+        { labels: { state: 'resuming' }, value: sessions.length - connected },
+      ];
+    });
+    metrics.activeMeetings.collect(() => [{ value: this.rooms.size }]);
+  }
+
+  private errorMessage(error: string, code?: string): object {
+    return {
       type: 'error',
       error,
+      code,
       timestamp: Date.now(),
-    });
+    };
   }
 
   /**
@@ -235,13 +1444,18 @@ export class WebSocketServer {
   close(): void {
     logger.info('Closing WebSocket server');
 
-    // すべてのパイプラインを停止
-    this.pipelines.forEach((pipeline) => pipeline.stop());
-    this.pipelines.clear();
+    // すべての会議を終了（パイプライン停止とボット退出）
+    [...this.rooms.keys()].forEach((meetingId) => {
+      this.teardownMeeting(meetingId).catch((error) => {
+        logger.error('Failed to tear down meeting', { error, meetingId });
+      });
+    });
 
-    // すべてのクライアント接続を閉じる
-    this.clients.forEach((ws) => ws.close());
-    this.clients.clear();
+    // すべてのセッションとクライアント接続を閉じる
+    this.sessions.forEach((session) => session.close());
+    this.sessions.clear();
+    this.connections.forEach((clientId, ws) => ws.close());
+    this.connections.clear();
 
     this.wss.close();
   }
@@ -0,0 +1,130 @@
+import { EventEmitter } from 'events';
+import {
+  STTResult,
+  AudioChunk,
+  DetectedLanguage,
+  STTProvider,
+} from '../../types';
+import { PCM16_16K_MONO } from '../../utils/audioFormat';
+
+// 保持する受信チャンクの上限 (サーバーをモックで動かし続けてもメモリが増え続けないように)
+const MAX_RECEIVED_CHUNKS = 100;
+
+/**
+ * スクリプト化されたSTT結果
+ */
+export interface ScriptedSTTResult {
+  text: string;
+  language?: DetectedLanguage;
+  isFinal?: boolean;
+  confidence?: number;
+  speakerId?: string;
+}
+
+/**
+ * オフライン用のモックSTTプロバイダー
+ * 音声チャンクを受け取るたびに、スクリプトされた結果を順番に返す
+ * (スクリプトが空の場合はデフォルトの確定結果を返す)
+ */
+export class MockSTT extends EventEmitter implements STTProvider {
+  readonly name = 'mock';
+  readonly inputFormat = PCM16_16K_MONO;
+  private connected: boolean = false;
+  private script: ScriptedSTTResult[] = [];
+  private pendingError: Error | null = null;
+  private receivedChunks: AudioChunk[] = []; // 直近のチャンクのみ
+  private receivedCount: number = 0;
+
+  /**
+   * 接続 (ネットワークは使用しない)
+   */
+  async connect(): Promise<void> {
+    this.connected = true;
+    this.emit('connected');
+  }
+
+  /**
+   * 音声チャンクを受け取り、次の結果を 'result' イベントで通知
+   */
+  async sendAudioChunk(chunk: AudioChunk): Promise<void> {
+    if (!this.connected) {
+      throw new Error('STT WebSocket is not connected');
+    }
+
+    this.receivedCount++;
+    this.receivedChunks.push(chunk);
+    if (this.receivedChunks.length > MAX_RECEIVED_CHUNKS) {
+      this.receivedChunks.shift();
+    }
+
+    // 発話の終了のみを通知する空のチャンクには結果を返さない
+    if (chunk.data.length === 0) {
+      return;
+    }
+
+    if (this.pendingError) {
+      const error = this.pendingError;
+      this.pendingError = null;
+      this.emit('error', error);
+      return;
+    }
+
+    const next = this.script.shift() ?? {
+      text: 'こんにちは、今日は良い天気ですね。',
+    };
+
+    const result: STTResult = {
+      text: next.text,
+      language: next.language ?? 'ja',
+      isFinal: next.isFinal ?? true,
+      confidence: next.confidence ?? 0.95,
+      timestamp: Date.now(),
+      speakerId: next.speakerId ?? chunk.speakerId,
+    };
+
+    this.emit('result', result);
+  }
+
+  /**
+   * 返す結果を追加 (チャンク1つにつき1件消費)
+   */
+  enqueueResults(results: ScriptedSTTResult[]): void {
+    this.script.push(...results);
+  }
+
+  /**
+   * 次のチャンクで 'error' イベントを発生させる
+   */
+  failNext(error: Error = new Error('Mock STT failure')): void {
+    this.pendingError = error;
+  }
+
+  /**
+   * 受信した音声チャンクを取得 (直近の MAX_RECEIVED_CHUNKS 件)
+   */
+  getReceivedChunks(): AudioChunk[] {
+    return [...this.receivedChunks];
+  }
+
+  /**
+   * 受信した音声チャンクの総数を取得
+   */
+  getReceivedCount(): number {
+    return this.receivedCount;
+  }
+
+  /**
+   * 切断
+   */
+  disconnect(): void {
+    this.connected = false;
+    this.emit('disconnected');
+  }
+
+  /**
+   * 接続状態を取得
+   */
+  isActive(): boolean {
+    return this.connected;
+  }
+}
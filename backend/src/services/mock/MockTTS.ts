@@ -0,0 +1,120 @@
+import {
+  TTSResult,
+  SupportedLanguage,
+  TTSProvider,
+  TTSChunk,
+  TTSOptions,
+  TTSInput,
+} from '../../types';
+
+/**
+ * オフライン用のモックTTSプロバイダー
+ * 固定の音声データ (または登録された音声データ) を返す
+ */
+export class MockTTS implements TTSProvider {
+  readonly name = 'mock';
+  private audio: Map<string, Buffer> = new Map();
+  private pendingErrors: Error[] = [];
+  private chunkSize: number = 8;
+  private synthesized: TTSInput[] = [];
+
+  /**
+   * テキストを音声に変換
+   */
+  async synthesize(
+    text: string,
+    language: SupportedLanguage,
+    options: TTSOptions = {}
+  ): Promise<TTSResult> {
+    const error = this.pendingErrors.shift();
+    if (error) {
+      throw error;
+    }
+
+    this.synthesized.push({ text, language, voiceId: options.voiceId });
+
+    return {
+      audioData:
+        this.audio.get(this.getKey(text, language)) ??
+        Buffer.from('mock_audio_data'),
+      language,
+      timestamp: Date.now(),
+      voiceId: options.voiceId,
+    };
+  }
+
+  /**
+   * ストリーミングで音声合成 (音声データを固定サイズのチャンクに分割して通知)
+   */
+  async synthesizeStream(
+    text: string,
+    language: SupportedLanguage,
+    onChunk: (chunk: TTSChunk) => void,
+    options: TTSOptions = {}
+  ): Promise<TTSResult> {
+    const result = await this.synthesize(text, language, options);
+
+    let sequence = 0;
+    for (let i = 0; i < result.audioData.length; i += this.chunkSize) {
+      onChunk({
+        language,
+        sequence: sequence++,
+        audioData: result.audioData.subarray(i, i + this.chunkSize),
+        isFinal: i + this.chunkSize >= result.audioData.length,
+        timestamp: Date.now(),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 複数の言語で音声合成
+   */
+  async synthesizeMultiple(inputs: TTSInput[]): Promise<TTSResult[]> {
+    return Promise.all(
+      inputs.map((t) =>
+        this.synthesize(t.text, t.language, { voiceId: t.voiceId })
+      )
+    );
+  }
+
+  /**
+   * 返す音声データを登録
+   */
+  setAudio(text: string, language: SupportedLanguage, audioData: Buffer): void {
+    this.audio.set(this.getKey(text, language), audioData);
+  }
+
+  /**
+   * ストリーミング合成のチャンクサイズを設定
+   */
+  setChunkSize(bytes: number): void {
+    this.chunkSize = Math.max(1, bytes);
+  }
+
+  /**
+   * 次の合成呼び出しを失敗させる
+   */
+  failNext(error: Error = new Error('Mock TTS failure')): void {
+    this.pendingErrors.push(error);
+  }
+
+  /**
+   * 合成したテキストの履歴を取得
+   */
+  getSynthesized(): TTSInput[] {
+    return [...this.synthesized];
+  }
+
+  /**
+   * ヘルスチェック
+   */
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  private getKey(text: string, language: SupportedLanguage): string {
+    return `${language}:${text}`;
+  }
+}
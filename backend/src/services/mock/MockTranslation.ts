@@ -0,0 +1,115 @@
+import {
+  TranslationResult,
+  SupportedLanguage,
+  TranslationProvider,
+} from '../../types';
+
+// デフォルトの翻訳結果
+const DEFAULT_TRANSLATIONS: Partial<Record<SupportedLanguage, string>> = {
+  ja: 'こんにちは、今日は良い天気ですね。',
+  'zh-Hant-TW': '你好,今天天氣真好。',
+  fr: "Bonjour, il fait beau aujourd'hui.",
+};
+
+/**
+ * オフライン用のモック翻訳プロバイダー
+ * 登録された訳文があればそれを、なければ言語ごとの固定文を返す
+ */
+export class MockTranslation implements TranslationProvider {
+  readonly name: string;
+  private translations: Map<string, string> = new Map();
+  private pendingErrors: Error[] = [];
+  private delayMs: number = 0;
+
+  constructor(name: string = 'mock') {
+    this.name = name;
+  }
+
+  /**
+   * テキストを翻訳
+   */
+  async translate(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    glossaryId?: string
+  ): Promise<TranslationResult> {
+    if (this.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+    }
+
+    const error = this.pendingErrors.shift();
+    if (error) {
+      throw error;
+    }
+
+    const translatedText =
+      this.translations.get(this.getKey(text, targetLang)) ??
+      DEFAULT_TRANSLATIONS[targetLang] ??
+      `[${targetLang}] ${text}`;
+
+    return {
+      originalText: text,
+      translatedText,
+      sourceLang,
+      targetLang,
+      confidence: 0.9,
+      timestamp: Date.now(),
+      provider: this.name,
+    };
+  }
+
+  /**
+   * 複数の言語に一括翻訳
+   */
+  async translateMultiple(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLangs: SupportedLanguage[],
+    glossaryId?: string
+  ): Promise<TranslationResult[]> {
+    const promises = targetLangs
+      .filter((lang) => lang !== sourceLang)
+      .map((targetLang) =>
+        this.translate(text, sourceLang, targetLang, glossaryId)
+      );
+
+    return Promise.all(promises);
+  }
+
+  /**
+   * 訳文を登録
+   */
+  setTranslation(
+    text: string,
+    targetLang: SupportedLanguage,
+    translatedText: string
+  ): void {
+    this.translations.set(this.getKey(text, targetLang), translatedText);
+  }
+
+  /**
+   * 次の翻訳呼び出しを失敗させる
+   */
+  failNext(error: Error = new Error('Mock translation failure')): void {
+    this.pendingErrors.push(error);
+  }
+
+  /**
+   * 応答の遅延を設定 (タイムアウトの検証用)
+   */
+  setDelay(delayMs: number): void {
+    this.delayMs = delayMs;
+  }
+
+  /**
+   * ヘルスチェック
+   */
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  private getKey(text: string, targetLang: SupportedLanguage): string {
+    return `${targetLang}:${text}`;
+  }
+}
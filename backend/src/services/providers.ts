@@ -0,0 +1,71 @@
+import { config } from '../config';
+import {
+  MeetingConfig,
+  PipelineProviders,
+  TranslationProvider,
+  TTSProvider,
+} from '../types';
+import { ElevenLabsSTT } from './ElevenLabsSTT';
+import { ElevenLabsTTS } from './ElevenLabsTTS';
+import { createTranslationProviderChain } from './TranslationProviderChain';
+import { GlossaryTranslationProvider } from './GlossaryTranslationProvider';
+import { getGlossaryService } from './GlossaryService';
+import { CachedTranslationProvider } from './CachedTranslationProvider';
+import { CachedTTSProvider } from './CachedTTSProvider';
+import { getTranslationCache, getTTSCache } from './ProviderCache';
+import { MockSTT } from './mock/MockSTT';
+import { MockTranslation } from './mock/MockTranslation';
+import { MockTTS } from './mock/MockTTS';
+
+// 翻訳とTTSはステートレスなので全会議で共有する (翻訳はキャッシュの有無ごと)
+const sharedTranslation: Map<boolean, TranslationProvider> = new Map();
+let sharedTTS: TTSProvider | null = null;
+
+/**
+ * パイプライン用のプロバイダー一式を作成
+ * STTは会議・話者ごとにWebSocket接続を持つため毎回新しいインスタンスを作成する
+ * 会議の bypassCache が true の場合は翻訳・TTS音声のキャッシュを使用しない
+ */
+export function createProviders(
+  meeting: Pick<MeetingConfig, 'bypassCache'> = {}
+): PipelineProviders {
+  const useCache = config.cache.enabled && !meeting.bypassCache;
+
+  if (config.useMockProviders) {
+    const translation = new GlossaryTranslationProvider(
+      new MockTranslation(),
+      getGlossaryService()
+    );
+    const tts = new MockTTS();
+
+    return {
+      stt: new MockSTT(),
+      createSTT: () => new MockSTT(),
+      translation: useCache
+        ? new CachedTranslationProvider(
+            translation,
+            getTranslationCache(),
+            getGlossaryService()
+          )
+        : translation,
+      tts: useCache ? new CachedTTSProvider(tts, getTTSCache()) : tts,
+    };
+  }
+
+  let translation = sharedTranslation.get(useCache);
+  if (!translation) {
+    translation = createTranslationProviderChain(useCache);
+    sharedTranslation.set(useCache, translation);
+  }
+
+  if (!sharedTTS) {
+    sharedTTS = new ElevenLabsTTS();
+  }
+
+  return {
+    stt: new ElevenLabsSTT(),
+    createSTT: () => new ElevenLabsSTT(),
+    translation,
+    tts: useCache ? new CachedTTSProvider(sharedTTS, getTTSCache()) : sharedTTS,
+  };
+}
@@ -2,8 +2,14 @@
  * 型定義ファイル
  */
 
-// サポートされる言語
-export type SupportedLanguage = 'ja' | 'zh-Hant-TW' | 'fr';
+import { SupportedLanguage } from '../config/languages';
+
+// サポートされる言語 (言語レジストリで定義)
+export type { SupportedLanguage } from '../config/languages';
+export { SUPPORTED_LANGUAGES } from '../config/languages';
+
+// STTが検出した言語 (レジストリにない言語は 'unknown')
+export type DetectedLanguage = SupportedLanguage | 'unknown';
 
 // 言語ペア
 export interface LanguagePair {
@@ -11,21 +17,55 @@ export interface LanguagePair {
   target: SupportedLanguage;
 }
 
+// 音声のエンコーディング
+// pcm16: 16bit リトルエンディアンのPCM / mulaw: G.711 μ-law
+// webm_opus: WebMコンテナのOpus (ブラウザの MediaRecorder) / mp3: MP3 (TTSの出力)
+export type AudioEncoding = 'pcm16' | 'mulaw' | 'webm_opus' | 'mp3';
+
+// 音声フォーマット
+export interface AudioFormat {
+  encoding: AudioEncoding;
+  sampleRate: number;
+  channels: number;
+}
+
 // 音声チャンク
 export interface AudioChunk {
   data: Buffer;
   timestamp: number;
   speakerId?: string;
+  speakerName?: string; // 参加者の表示名 (わかる場合)
+  format?: AudioFormat; // 省略時は会議の入力フォーマット
+  utteranceStart?: boolean; // 発話の最初のチャンク (VADが設定)
+  utteranceEnd?: boolean; // 発話の最後のチャンク (VADが設定、空の音声の場合もある)
+}
+
+// 発話の区切り (VADが検出)
+export interface UtteranceBoundary {
+  boundary: 'start' | 'end';
+  speakerId?: string;
+  speakerLabel?: string;
+  timestamp: number;
+  durationMs?: number; // 発話の長さ (end のみ)
+}
+
+// STTの接続状態の変化 (接続していない間の音声は破棄される)
+export interface STTStatus {
+  available: boolean;
+  provider: string;
+  speakerId?: string; // 話者専用のSTTの場合
+  timestamp: number;
 }
 
 // STT結果
 export interface STTResult {
   text: string;
-  language: SupportedLanguage;
+  language: DetectedLanguage;
   isFinal: boolean;
   confidence: number;
   timestamp: number;
   speakerId?: string;
+  speakerLabel?: string; // 話者の表示名 (参加者名または "Speaker 1" など)
 }
 
 // 翻訳結果
@@ -37,6 +77,28 @@ export interface TranslationResult {
   confidence: number;
   timestamp: number;
   isInterim?: boolean; // 逐次翻訳かどうか
+  provider?: string; // 翻訳を行ったプロバイダー名
+  speakerId?: string;
+  speakerLabel?: string;
+}
+
+// 翻訳プロバイダー
+export interface TranslationProvider {
+  readonly name: string;
+  readonly supportsNativeGlossary?: boolean; // プロバイダー側の用語集を使用できるか
+  translate(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLang: SupportedLanguage,
+    glossaryId?: string
+  ): Promise<TranslationResult>;
+  translateMultiple(
+    text: string,
+    sourceLang: SupportedLanguage,
+    targetLangs: SupportedLanguage[],
+    glossaryId?: string
+  ): Promise<TranslationResult[]>;
+  healthCheck(): Promise<boolean>;
 }
 
 // TTS結果
@@ -44,16 +106,193 @@ export interface TTSResult {
   audioData: Buffer;
   language: SupportedLanguage;
   timestamp: number;
+  voiceId?: string;
+  speakerId?: string;
+  speakerLabel?: string;
+}
+
+// TTSのオプション
+export interface TTSOptions {
+  voiceId?: string; // 省略時は言語のデフォルトボイス
+  modelId?: string;
+}
+
+// 合成に使用するボイス (省略した項目をプロバイダーのデフォルトで補ったもの)
+export interface TTSVoice {
+  voiceId: string;
+  modelId: string;
+  settings: Record<string, number>; // プロバイダーに送るボイス設定
+}
+
+// TTSの入力
+export interface TTSInput {
+  text: string;
+  language: SupportedLanguage;
+  voiceId?: string;
+}
+
+// TTS音声チャンク (ストリーミング合成)
+export interface TTSChunk {
+  language: SupportedLanguage;
+  sequence: number; // 発話・言語ごとの連番 (0から)
+  audioData: Buffer;
+  isFinal: boolean; // 最後のチャンクかどうか
+  timestamp: number;
+  speakerId?: string;
+  speakerLabel?: string;
+}
+
+// STTプロバイダー
+// 認識結果は 'result' イベント (STTResult)、エラーは 'error' イベントで通知する
+export interface STTProvider extends NodeJS.EventEmitter {
+  readonly name: string;
+  readonly inputFormat: AudioFormat; // 受け付ける音声フォーマット
+  connect(): Promise<void>;
+  sendAudioChunk(chunk: AudioChunk): Promise<void>;
+  disconnect(): void;
+  isActive(): boolean;
 }
 
+// TTSプロバイダー
+export interface TTSProvider {
+  readonly name: string;
+  synthesize(
+    text: string,
+    language: SupportedLanguage,
+    options?: TTSOptions
+  ): Promise<TTSResult>;
+  synthesizeMultiple(inputs: TTSInput[]): Promise<TTSResult[]>;
+  // ストリーミング合成 (音声チャンクを受信順に onChunk で通知し、完了後に全体を返す)
+  synthesizeStream?(
+    text: string,
+    language: SupportedLanguage,
+    onChunk: (chunk: TTSChunk) => void,
+    options?: TTSOptions
+  ): Promise<TTSResult>;
+  // 合成に使用するボイス (キャッシュキーに使用)
+  resolveVoice?(language: SupportedLanguage, options?: TTSOptions): TTSVoice;
+  healthCheck(): Promise<boolean>;
+}
+
+// パイプラインが使用するプロバイダー一式
+export interface PipelineProviders {
+  stt: STTProvider;
+  createSTT?: () => STTProvider; // 話者ごとのSTT接続を作成 (未指定の場合は全話者で stt を共有)
+  translation: TranslationProvider;
+  tts: TTSProvider;
+}
+
+// 翻訳音声の出力先
+// client: WebSocketクライアントのみ / meeting: 会議に直接再生 / both: 両方
+export type VoiceOutputMode = 'client' | 'meeting' | 'both';
+
+// 字幕の出力先
+// client: WebSocketクライアントのみ / chat: 会議チャットに投稿 / both: 両方
+export type SubtitleOutputMode = 'client' | 'chat' | 'both';
+
 // 会議設定
 export interface MeetingConfig {
-  meetingUrl: string;
+  meetingUrl?: string; // 省略した場合はボットを参加させない (クライアントが送信する音声のみを翻訳)
+  sourceLanguage?: SupportedLanguage; // 話者の言語 (STTが言語を判別できない場合に使用)
   targetLanguages: SupportedLanguage[];
   enableVoice: boolean;
   enableSubtitles: boolean;
+  voiceOutput?: VoiceOutputMode; // デフォルト: client
+  subtitleOutput?: SubtitleOutputMode; // デフォルト: client
+  streamTts?: boolean; // TTS音声をチャンク単位でストリーミングするか
+  interimTranslation?: boolean; // 部分認識結果を逐次翻訳するか
   voiceSettings?: VoiceSettings;
   glossaryId?: string;
+  inputFormat?: AudioFormat; // 送信する音声のフォーマット (デフォルト: 16kHz / モノラルの pcm16)
+  outputFormat?: AudioFormat; // ホストが受信するTTS音声のフォーマット (デフォルト: mp3)
+  bypassCache?: boolean; // 翻訳・TTS音声のキャッシュを使用しない
+}
+
+// 用語集エントリ (言語ごとの同義語セット)
+export interface GlossaryEntry {
+  terms: Partial<Record<SupportedLanguage, string>>;
+}
+
+// 用語集
+export interface Glossary {
+  id: string;
+  tenantId: string; // 所有するテナント
+  name: string;
+  languages: SupportedLanguage[];
+  entries: GlossaryEntry[];
+  nativeGlossaries?: Record<string, string>; // プロバイダー名 -> プロバイダー側の用語集ID
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 文字起こしのセグメント (確定したSTT結果とその翻訳)
+export interface TranscriptSegment {
+  sequence: number; // 会議内の連番 (1から)
+  text: string;
+  language: DetectedLanguage;
+  speakerId?: string;
+  speakerLabel?: string;
+  startedAt: number; // 発話の開始時刻
+  endedAt: number; // 発話の確定時刻
+  translations: Array<{
+    language: SupportedLanguage;
+    text: string;
+    provider?: string;
+  }>;
+}
+
+// 会議の参加者 (話者)
+export interface TranscriptParticipant {
+  speakerId: string;
+  label: string;
+  joinedAt: number; // 最初に発話を受信した時刻
+}
+
+// 会議の状態 (interrupted: サーバーの再起動などで終了処理が行われなかった)
+export type MeetingStatus = 'active' | 'ended' | 'interrupted';
+
+// 会議の文字起こし
+export interface Transcript {
+  meetingId: string;
+  tenantId: string; // 会議を開始したホストのテナント
+  meetingUrl: string;
+  botId?: string;
+  status: MeetingStatus;
+  targetLanguages: SupportedLanguage[];
+  startedAt: number;
+  endedAt?: number;
+  participants: TranscriptParticipant[];
+  segments: TranscriptSegment[];
+}
+
+// 文字起こしの概要 (一覧用)
+export type TranscriptSummary = Omit<Transcript, 'participants' | 'segments'>;
+
+// 発話ごとのレイテンシの記録
+export interface LatencySample extends LatencyMetrics {
+  recordedAt: number;
+}
+
+// ユーザーの役割 (viewer < host < admin の順に上位の役割は下位の操作も可能)
+export type UserRole = 'viewer' | 'host' | 'admin';
+
+// 認証済みのユーザー
+export interface AuthUser {
+  id: string;
+  role: UserRole;
+  tenantId: string; // 利用量の計上先 (チーム)
+  method: 'jwt' | 'api_key' | 'anonymous'; // anonymous: 認証無効時
+}
+
+// 利用量の計測項目 (STTの音声秒数・翻訳文字数・TTS文字数)
+export type UsageMetric = 'sttSeconds' | 'translationChars' | 'ttsChars';
+
+export type UsageTotals = Record<UsageMetric, number>;
+
+// パイプラインが通知する利用量
+export interface UsageRecord {
+  metric: UsageMetric;
+  amount: number;
 }
 
 // 音声設定
@@ -71,6 +310,17 @@ export interface PipelineState {
   isActive: boolean;
   currentSpeaker?: string;
   latencyMetrics: LatencyMetrics;
+  queueDepth: number; // 処理待ちの音声チャンク数
+  droppedChunks: number; // キューの上限を超えて破棄した音声チャンク数
+}
+
+// 音声取り込みキューのバックプレッシャーの状態
+export interface BackpressureState {
+  active: boolean; // true の間はクライアントに送信の抑制を求める
+  queueDepth: number;
+  maxQueueDepth: number;
+  dropped: number;
+  coalesced: number;
 }
 
 // レイテンシメトリクス
@@ -0,0 +1,194 @@
+import { AudioEncoding, AudioFormat } from '../types';
+
+// エンコーディングごとのデフォルトのサンプルレート
+const DEFAULT_SAMPLE_RATES: Record<AudioEncoding, number> = {
+  pcm16: 16000,
+  mulaw: 8000,
+  webm_opus: 48000,
+  mp3: 44100,
+};
+
+const MIN_SAMPLE_RATE = 8000;
+const MAX_SAMPLE_RATE = 48000;
+
+// Recall.ai の参加者別音声・ElevenLabs STT の入力 (16kHz / 16bit / モノラルのPCM)
+export const PCM16_16K_MONO: AudioFormat = {
+  encoding: 'pcm16',
+  sampleRate: 16000,
+  channels: 1,
+};
+
+// TTSの出力 (ElevenLabs の mp3_44100_128)
+export const TTS_MP3_FORMAT: AudioFormat = {
+  encoding: 'mp3',
+  sampleRate: 44100,
+  channels: 1,
+};
+
+/**
+ * 対応しているエンコーディングかどうか
+ */
+export function isAudioEncoding(value: unknown): value is AudioEncoding {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(DEFAULT_SAMPLE_RATES, value)
+  );
+}
+
+/**
+ * クライアントが指定した音声フォーマットを検証 (省略した項目はデフォルト)
+ * 不正な場合は null
+ */
+export function parseAudioFormat(value: unknown): AudioFormat | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { encoding, sampleRate, channels } = value as Record<string, unknown>;
+  if (!isAudioEncoding(encoding)) {
+    return null;
+  }
+
+  const format: AudioFormat = {
+    encoding,
+    sampleRate:
+      sampleRate === undefined
+        ? DEFAULT_SAMPLE_RATES[encoding]
+        : Number(sampleRate),
+    channels: channels === undefined ? 1 : Number(channels),
+  };
+
+  if (
+    !Number.isInteger(format.sampleRate) ||
+    format.sampleRate < MIN_SAMPLE_RATE ||
+    format.sampleRate > MAX_SAMPLE_RATE ||
+    (format.channels !== 1 && format.channels !== 2)
+  ) {
+    return null;
+  }
+
+  return format;
+}
+
+/**
+ * 同じフォーマットかどうか
+ */
+export function isSameFormat(a: AudioFormat, b: AudioFormat): boolean {
+  return (
+    a.encoding === b.encoding &&
+    a.sampleRate === b.sampleRate &&
+    a.channels === b.channels
+  );
+}
+
+/**
+ * 非圧縮のエンコーディング (pcm16 / mulaw) かどうか
+ */
+export function isRawEncoding(encoding: AudioEncoding): boolean {
+  return encoding === 'pcm16' || encoding === 'mulaw';
+}
+
+/**
+ * 非圧縮の音声の1秒あたりのバイト数
+ */
+export function bytesPerSecond(format: AudioFormat): number {
+  const bytesPerSample = format.encoding === 'pcm16' ? 2 : 1;
+  return format.sampleRate * format.channels * bytesPerSample;
+}
+
+/**
+ * フォーマットを表す文字列 (例: "pcm16/16000/1")
+ */
+export function formatKey(format: AudioFormat): string {
+  return `${format.encoding}/${format.sampleRate}/${format.channels}`;
+}
+
+/**
+ * 16bit PCM のサンプルを μ-law に変換 (G.711)
+ */
+export function encodeMulaw(samples: Int16Array): Buffer {
+  const output = Buffer.alloc(samples.length);
+
+  for (let i = 0; i < samples.length; i++) {
+    let sample = samples[i];
+    const sign = sample < 0 ? 0x80 : 0;
+    if (sign) {
+      sample = -sample;
+    }
+    sample = Math.min(sample, 32635) + 0x84;
+
+    let exponent = 7;
+    for (let mask = 0x4000; (sample & mask) === 0 && exponent > 0; mask >>= 1) {
+      exponent--;
+    }
+    const mantissa = (sample >> (exponent + 3)) & 0x0f;
+    output[i] = ~(sign | (exponent << 4) | mantissa) & 0xff;
+  }
+
+  return output;
+}
+
+/**
+ * μ-law を 16bit PCM のサンプルに変換 (G.711)
+ */
+export function decodeMulaw(data: Buffer): Int16Array {
+  const samples = new Int16Array(data.length);
+
+  for (let i = 0; i < data.length; i++) {
+    const value = ~data[i] & 0xff;
+    const exponent = (value >> 4) & 0x07;
+    const mantissa = value & 0x0f;
+    const magnitude = (((mantissa << 3) + 0x84) << exponent) - 0x84;
+    samples[i] = value & 0x80 ? -magnitude : magnitude;
+  }
+
+  return samples;
+}
+
+/**
+ * 16bit リトルエンディアンのPCMをサンプルに変換 (末尾の半端なバイトは無視)
+ */
+export function readPcm16(data: Buffer): Int16Array {
+  const samples = new Int16Array(Math.floor(data.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = data.readInt16LE(i * 2);
+  }
+  return samples;
+}
+
+/**
+ * サンプルを16bit リトルエンディアンのPCMに変換
+ */
+export function writePcm16(samples: Int16Array): Buffer {
+  const output = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => output.writeInt16LE(sample, i * 2));
+  return output;
+}
+
+/**
+ * チャンネル数を変換 (ステレオ -> モノラルは平均、モノラル -> ステレオは複製)
+ */
+export function convertChannels(
+  samples: Int16Array,
+  from: number,
+  to: number
+): Int16Array {
+  if (from === to) {
+    return samples;
+  }
+
+  if (from === 2 && to === 1) {
+    const output = new Int16Array(Math.floor(samples.length / 2));
+    for (let i = 0; i < output.length; i++) {
+      output[i] = (samples[i * 2] + samples[i * 2 + 1]) >> 1;
+    }
+    return output;
+  }
+
+  const output = new Int16Array(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    output[i * 2] = samples[i];
+    output[i * 2 + 1] = samples[i];
+  }
+  return output;
+}
@@ -0,0 +1,35 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from './logger';
+import { TranslationError } from '../types';
+
+// 拒否したリクエストの情報
+export interface AuditContext {
+  channel: 'http' | 'websocket';
+  ip?: string;
+  path?: string; // HTTPのパスまたはWebSocketのメッセージ種別
+  clientId?: string;
+  userId?: string;
+  role?: string;
+  origin?: string;
+}
+
+/**
+ * 認証・認可による拒否を監査ログに記録する
+ * クライアントに返すエラーには監査IDを付与し、ログと照合できるようにする
+ */
+export function auditRejection(
+  error: TranslationError,
+  context: AuditContext
+): TranslationError {
+  const auditId = uuidv4();
+
+  logger.warn('Access rejected', {
+    audit: true,
+    auditId,
+    code: error.code,
+    reason: error.message,
+    ...context,
+  });
+
+  return new TranslationError(error.message, error.code, { auditId });
+}
@@ -0,0 +1,73 @@
+/**
+ * CSV/TSV テキストを行ごとのフィールド配列に変換
+ * ダブルクォートで囲まれたフィールド (区切り文字・改行・"" エスケープを含む) に対応
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // BOMを除去
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // 空行を除外
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * フィールド配列をCSV/TSVテキストに変換
+ */
+export function formatDelimited(rows: string[][], delimiter: string): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) =>
+          /["\r\n]/.test(value) || value.includes(delimiter)
+            ? `"${value.replace(/"/g, '""')}"`
+            : value
+        )
+        .join(delimiter)
+    )
+    .join('\n');
+}
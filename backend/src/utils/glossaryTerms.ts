@@ -0,0 +1,121 @@
+import { Glossary, SupportedLanguage } from '../types';
+import { getLanguage } from '../config/languages';
+
+/**
+ * 用語を置き換えたテキストと置き換え内容
+ */
+export interface MaskedText {
+  text: string;
+  terms: Array<{ placeholder: string; source: string; target: string }>;
+}
+
+// 翻訳エンジンがそのまま残しやすいプレースホルダー
+const placeholderFor = (index: number): string => `__G${index}__`;
+const PLACEHOLDER_PATTERN = /_{1,2}\s*G\s*(\d+)\s*_{1,2}/gi;
+
+/**
+ * 翻訳前に用語集の用語をプレースホルダーに置き換える
+ * (長い用語を優先し、大文字小文字を区別せずに一致させる。空白で区切る言語では単語単位で一致させる)
+ * 置き換えたプレースホルダーに短い用語が一致しないよう、すべての用語を1回で置き換える
+ */
+export function maskTerms(
+  text: string,
+  sourceLang: SupportedLanguage,
+  targetLang: SupportedLanguage,
+  glossary: Glossary
+): MaskedText {
+  const pairs = glossary.entries
+    .map((entry) => ({
+      source: entry.terms[sourceLang],
+      target: entry.terms[targetLang],
+    }))
+    .filter(
+      (pair): pair is { source: string; target: string } =>
+        !!pair.source && !!pair.target
+    )
+    .sort((a, b) => b.source.length - a.source.length);
+
+  const terms: MaskedText['terms'] = [];
+  if (pairs.length === 0) {
+    return { text, terms };
+  }
+
+  // 用語ごとのグループで一致した用語を特定する (同じ位置では先に書いた長い用語が優先される)
+  const pattern = new RegExp(
+    pairs.map((pair) => `(${termPattern(pair.source, sourceLang)})`).join('|'),
+    'giu'
+  );
+  const placeholders: Map<number, string> = new Map();
+
+  const masked = text.replace(pattern, (match, ...groups) => {
+    const index = groups.findIndex(
+      (group, i) => i < pairs.length && group !== undefined
+    );
+
+    let placeholder = placeholders.get(index);
+    if (!placeholder) {
+      placeholder = placeholderFor(terms.length);
+      placeholders.set(index, placeholder);
+      terms.push({ placeholder, ...pairs[index] });
+    }
+    return placeholder;
+  });
+
+  return { text: masked, terms };
+}
+
+/**
+ * 翻訳後にプレースホルダーを訳語に置き換える
+ * プレースホルダーが失われた場合は、原語がそのまま残っていれば訳語に置き換える
+ */
+export function restoreTerms(
+  translated: string,
+  masked: MaskedText,
+  targetLang: SupportedLanguage
+): {
+  text: string;
+  missing: string[];
+} {
+  const restored = new Set<number>();
+
+  let text = translated.replace(PLACEHOLDER_PATTERN, (match, index) => {
+    const term = masked.terms[parseInt(index, 10)];
+    if (!term) {
+      return match;
+    }
+    restored.add(parseInt(index, 10));
+    return term.target;
+  });
+
+  const missing: string[] = [];
+  masked.terms.forEach((term, index) => {
+    if (restored.has(index)) {
+      return;
+    }
+
+    const pattern = new RegExp(termPattern(term.source, targetLang), 'giu');
+    if (pattern.test(text)) {
+      text = text.replace(pattern, term.target);
+    } else {
+      missing.push(term.source);
+    }
+  });
+
+  return { text, missing };
+}
+
+/**
+ * 用語に一致するパターン
+ * 空白で区切る言語では、単語の一部に一致しないよう前後が文字・数字でないことを条件にする
+ * (日本語・中国語は単語を区切らないため部分一致)
+ */
+function termPattern(term: string, language: SupportedLanguage): string {
+  const escaped = escapeRegExp(term);
+  return getLanguage(language).spaceDelimited
+    ? `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`
+    : escaped;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
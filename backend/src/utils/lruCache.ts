@@ -0,0 +1,93 @@
+/**
+ * LRUキャッシュのエントリ
+ */
+interface LruEntry<V> {
+  value: V;
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * 有効期限付きのLRUキャッシュ
+ * エントリ数またはサイズの合計が上限を超えると、最も長く使われていないエントリから削除する
+ */
+export class LruCache<V> {
+  private entries: Map<string, LruEntry<V>> = new Map(); // 古い順
+  private maxEntries: number;
+  private maxSize: number;
+  private sizeOf: (value: V) => number;
+  private totalSize: number = 0;
+
+  constructor(
+    maxEntries: number,
+    maxSize: number = Infinity,
+    sizeOf: (value: V) => number = () => 1
+  ) {
+    this.maxEntries = maxEntries;
+    this.maxSize = maxSize;
+    this.sizeOf = sizeOf;
+  }
+
+  /**
+   * 値を取得 (期限切れの場合は削除して undefined)
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+
+    // 最近使われたエントリとして末尾に移動
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return entry.value;
+  }
+
+  /**
+   * 値を保存 (上限より大きい値は保存しない)
+   */
+  set(key: string, value: V, ttlMs: number): void {
+    const size = this.sizeOf(value);
+    this.delete(key);
+    if (size > this.maxSize || ttlMs <= 0) {
+      return;
+    }
+
+    this.entries.set(key, { value, size, expiresAt: Date.now() + ttlMs });
+    this.totalSize += size;
+
+    for (const oldest of this.entries.keys()) {
+      if (
+        this.entries.size <= this.maxEntries &&
+        this.totalSize <= this.maxSize
+      ) {
+        break;
+      }
+      this.delete(oldest);
+    }
+  }
+
+  /**
+   * 値を削除
+   */
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.totalSize -= entry.size;
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * エントリ数
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -7,8 +7,8 @@ export class LatencyTracker {
   private startTime: number;
   private checkpoints: Map<string, number>;
 
-  constructor() {
-    this.startTime = Date.now();
+  constructor(startTime: number = Date.now()) {
+    this.startTime = startTime;
     this.checkpoints = new Map();
   }
 
@@ -36,6 +36,13 @@ export class LatencyTracker {
     return endTime - startTime;
   }
 
+  /**
+   * 開始時刻からチェックポイントまでの経過時間を取得
+   */
+  getElapsed(name: string): number {
+    return this.checkpoints.get(name) ?? 0;
+  }
+
   /**
    * 全体の経過時間を取得
    */
@@ -66,8 +73,10 @@ export class LatencyTracker {
 
 /**
  * パフォーマンスメトリクスの集計クラス
+ * 種類ごとに直近 maxSamples 件のみ保持する
  */
 export class MetricsAggregator {
+  private maxSamples: number;
   private metrics: {
     stt: number[];
     translation: number[];
@@ -75,7 +84,8 @@ export class MetricsAggregator {
     total: number[];
   };
 
-  constructor() {
+  constructor(maxSamples: number = 1000) {
+    this.maxSamples = maxSamples;
     this.metrics = {
       stt: [],
       translation: [],
@@ -88,7 +98,11 @@ export class MetricsAggregator {
    * メトリクスを追加
    */
   addMetric(type: keyof typeof this.metrics, value: number): void {
-    this.metrics[type].push(value);
+    const values = this.metrics[type];
+    values.push(value);
+    if (values.length > this.maxSamples) {
+      values.shift();
+    }
   }
 
   /**
@@ -112,6 +126,16 @@ export class MetricsAggregator {
       : values[mid];
   }
 
+  /**
+   * パーセンタイルを計算 (最近傍順位法)
+   */
+  getPercentile(type: keyof typeof this.metrics, percentile: number): number {
+    const values = [...this.metrics[type]].sort((a, b) => a - b);
+    if (values.length === 0) return 0;
+    const rank = Math.ceil((percentile / 100) * values.length);
+    return values[Math.max(0, rank - 1)];
+  }
+
   /**
    * 統計情報を取得
    */
@@ -120,21 +144,25 @@ export class MetricsAggregator {
       stt: {
         avg: this.getAverage('stt'),
         median: this.getMedian('stt'),
+        p95: this.getPercentile('stt', 95),
         count: this.metrics.stt.length,
       },
       translation: {
         avg: this.getAverage('translation'),
         median: this.getMedian('translation'),
+        p95: this.getPercentile('translation', 95),
         count: this.metrics.translation.length,
       },
       tts: {
         avg: this.getAverage('tts'),
         median: this.getMedian('tts'),
+        p95: this.getPercentile('tts', 95),
         count: this.metrics.tts.length,
       },
       total: {
         avg: this.getAverage('total'),
         median: this.getMedian('total'),
+        p95: this.getPercentile('total', 95),
         count: this.metrics.total.length,
       },
     };
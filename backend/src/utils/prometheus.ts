@@ -0,0 +1,203 @@
+/**
+ * Prometheus形式のメトリクス (テキスト形式 0.0.4)
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+/**
+ * ラベルの組み合わせごとに値を持つメトリクスの基底クラス
+ */
+abstract class LabeledMetric<T> implements Metric {
+  readonly name: string;
+  protected readonly help: string;
+  protected readonly labelNames: string[];
+  protected values: Map<string, { labels: Labels; value: T }> = new Map();
+
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  abstract render(): string[];
+
+  /**
+   * ラベルに対応する値を取得 (なければ作成)
+   */
+  protected entry(
+    labels: Labels,
+    create: () => T
+  ): { labels: Labels; value: T } {
+    const normalized: Labels = {};
+    this.labelNames.forEach((name) => {
+      normalized[name] = labels[name] ?? '';
+    });
+
+    const key = this.labelNames.map((name) => normalized[name]).join('\u0000');
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels: normalized, value: create() };
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected header(type: string): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${type}`];
+  }
+}
+
+/**
+ * カウンター (増加のみ)
+ */
+export class Counter extends LabeledMetric<number> {
+  inc(labels: Labels = {}, amount: number = 1): void {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  render(): string[] {
+    return [
+      ...this.header('counter'),
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+/**
+ * ゲージ (任意の値)
+ * collect を指定した場合は出力時に値を取得する
+ */
+export class Gauge extends LabeledMetric<number> {
+  private collector?: () => Array<{ labels?: Labels; value: number }>;
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  collect(collector: () => Array<{ labels?: Labels; value: number }>): void {
+    this.collector = collector;
+  }
+
+  render(): string[] {
+    if (this.collector) {
+      this.values.clear();
+      this.collector().forEach(({ labels, value }) =>
+        this.set(labels ?? {}, value)
+      );
+    }
+
+    return [
+      ...this.header('gauge'),
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+interface HistogramValue {
+  counts: number[]; // バケットごとの件数 (累積ではない)
+  sum: number;
+  count: number;
+}
+
+/**
+ * ヒストグラム
+ */
+export class Histogram extends LabeledMetric<HistogramValue> {
+  private buckets: number[];
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[],
+    buckets: number[]
+  ) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index >= 0) {
+      entry.counts[index]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = this.header('histogram');
+
+    this.values.forEach(({ labels, value }) => {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += value.counts[i];
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+        `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+        `${this.name}_count${formatLabels(labels)} ${value.count}`
+      );
+    });
+
+    return lines;
+  }
+}
+
+/**
+ * メトリクスのレジストリ
+ */
+export class Registry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * すべてのメトリクスをテキスト形式で出力
+   */
+  render(): string {
+    return this.metrics.flatMap((metric) => metric.render()).join('\n') + '\n';
+  }
+}
+
+// レスポンスの Content-Type
+export const PROMETHEUS_CONTENT_TYPE =
+  'text/plain; version=0.0.4; charset=utf-8';
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+    .join(',')}}`;
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/"/g, '\\"');
+}
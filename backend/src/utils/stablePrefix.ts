@@ -0,0 +1,30 @@
+// 区切りとみなす文字 (空白・句読点)
+const BOUNDARY_PATTERN = /[\s、。，,.!?！？;；:：]/;
+
+/**
+ * 連続する2つの部分認識結果から、確定したとみなせる先頭部分を取得
+ * 共通の先頭部分のうち、最後の区切り文字までを返す
+ * (空白で単語を区切らない言語で区切り文字がない場合は共通部分をそのまま返す)
+ */
+export function getStablePrefix(previous: string, current: string): string {
+  let length = 0;
+  const max = Math.min(previous.length, current.length);
+  while (length < max && previous[length] === current[length]) {
+    length++;
+  }
+
+  const common = current.slice(0, length);
+
+  // 現在の結果と完全に一致していて区切りで終わる場合はそのまま使用
+  if (length === current.length && BOUNDARY_PATTERN.test(current.slice(-1))) {
+    return common.trim();
+  }
+
+  for (let i = common.length - 1; i >= 0; i--) {
+    if (BOUNDARY_PATTERN.test(common[i])) {
+      return common.slice(0, i + 1).trim();
+    }
+  }
+
+  return /\s/.test(current) ? '' : common.trim();
+}
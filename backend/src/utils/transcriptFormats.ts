@@ -0,0 +1,158 @@
+import { getLanguage } from '../config/languages';
+import { Transcript, TranscriptSegment, SupportedLanguage } from '../types';
+
+// 字幕の言語 ('original' は発話の原文)
+export type TranscriptTrack = SupportedLanguage | 'original';
+
+// 字幕1件の最短表示時間 (ms)
+const MIN_CUE_DURATION_MS = 500;
+
+interface Cue {
+  start: number; // 会議開始からの経過時間 (ms)
+  end: number;
+  speaker?: string;
+  text: string;
+}
+
+/**
+ * SRT形式の字幕を作成
+ */
+export function toSRT(transcript: Transcript, track: TranscriptTrack): string {
+  return buildCues(transcript, track)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n` +
+        `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n` +
+        `${cue.speaker ? `${cue.speaker}: ` : ''}${cue.text}\n`
+    )
+    .join('\n');
+}
+
+/**
+ * WebVTT形式の字幕を作成
+ */
+export function toWebVTT(
+  transcript: Transcript,
+  track: TranscriptTrack
+): string {
+  const cues = buildCues(transcript, track).map(
+    (cue) =>
+      `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n` +
+      `${cue.speaker ? `<v ${escapeVTT(cue.speaker)}>` : ''}${escapeVTT(cue.text)}\n`
+  );
+
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/**
+ * 原文と翻訳を並べた議事録をMarkdownで作成 (pandoc などでDOCXに変換できる)
+ */
+export function toMarkdown(transcript: Transcript): string {
+  const speakers = [
+    ...new Set(
+      transcript.segments
+        .map((segment) => segment.speakerLabel)
+        .filter((label): label is string => !!label)
+    ),
+  ];
+  const languages = transcript.targetLanguages
+    .map((language) => getLanguage(language).displayName)
+    .join(', ');
+
+  const lines = [
+    `# Meeting Transcript`,
+    '',
+    `- Meeting ID: ${transcript.meetingId}`,
+    `- Meeting URL: ${transcript.meetingUrl || '-'}`,
+    `- Started: ${new Date(transcript.startedAt).toISOString()}`,
+    `- Ended: ${
+      transcript.endedAt ? new Date(transcript.endedAt).toISOString() : '-'
+    }`,
+    `- Languages: ${languages}`,
+    `- Participants: ${speakers.length > 0 ? speakers.join(', ') : '-'}`,
+    '',
+    '## Transcript',
+  ];
+
+  transcript.segments.forEach((segment) => {
+    const offset = formatTimestamp(
+      segment.startedAt - transcript.startedAt,
+      '.'
+    ).slice(0, 8);
+
+    lines.push(
+      '',
+      `### ${offset} — ${segment.speakerLabel ?? 'Unknown speaker'}`,
+      '',
+      `> ${segment.text}`
+    );
+
+    segment.translations.forEach((translation) => {
+      lines.push(
+        '',
+        `- **${getLanguage(translation.language).displayName}**: ${translation.text}`
+      );
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * セグメントを字幕の表示区間に変換
+ */
+function buildCues(transcript: Transcript, track: TranscriptTrack): Cue[] {
+  return transcript.segments
+    .map((segment): Cue | null => {
+      const text = textFor(segment, track);
+      if (!text) {
+        return null;
+      }
+
+      const start = Math.max(0, segment.startedAt - transcript.startedAt);
+      const end = Math.max(
+        start + MIN_CUE_DURATION_MS,
+        segment.endedAt - transcript.startedAt
+      );
+
+      return { start, end, speaker: segment.speakerLabel, text };
+    })
+    .filter((cue): cue is Cue => cue !== null);
+}
+
+function textFor(
+  segment: TranscriptSegment,
+  track: TranscriptTrack
+): string | undefined {
+  if (track === 'original') {
+    return segment.text;
+  }
+
+  return segment.translations.find((t) => t.language === track)?.text;
+}
+
+/**
+ * 経過時間を HH:MM:SS,mmm (SRT) / HH:MM:SS.mmm (WebVTT) 形式に変換
+ */
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+
+  return (
+    [hours, minutes, seconds]
+      .map((value) => String(value).padStart(2, '0'))
+      .join(':') +
+    separator +
+    String(millis).padStart(3, '0')
+  );
+}
+
+function escapeVTT(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
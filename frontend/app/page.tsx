@@ -8,6 +8,8 @@ interface TranslationResult {
   sourceLang: string;
   targetLang: string;
   timestamp: number;
+  isInterim?: boolean;
+  speakerLabel?: string;
 }
 
 export default function Home() {
@@ -16,11 +18,32 @@ export default function Home() {
   const [isMeetingActive, setIsMeetingActive] = useState(false);
   const [translations, setTranslations] = useState<TranslationResult[]>([]);
   const [status, setStatus] = useState('未接続');
+  // 参加中の会議ID (視聴者に共有する) と役割
+  const [meetingId, setMeetingId] = useState('');
+  const [role, setRole] = useState<'host' | 'viewer' | null>(null);
+  const [joinMeetingId, setJoinMeetingId] = useState('');
   const wsRef = useRef<WebSocket | null>(null);
+  // 再開用のセッショントークンと受信済みの連番
+  const sessionRef = useRef<{ token: string; lastSequence: number } | null>(
+    null
+  );
+  const meetingActiveRef = useRef(false);
+
+  useEffect(() => {
+    meetingActiveRef.current = isMeetingActive;
+  }, [isMeetingActive]);
 
-  // WebSocket接続
-  const connectWebSocket = () => {
-    const ws = new WebSocket('ws://localhost:3001');
+  // WebSocket接続 (resume: 切断前のセッションを再開する)
+  const connectWebSocket = (resume = false) => {
+    // 認証が有効なサーバーにはトークンをクエリで渡す (ブラウザはヘッダーを設定できない)
+    const token = process.env.NEXT_PUBLIC_API_TOKEN;
+    const ws = new WebSocket(
+      token
+        ? `ws://localhost:3001?token=${encodeURIComponent(token)}`
+        : 'ws://localhost:3001'
+    );
+    // 再開に失敗した場合に使う、新しい接続のセッション
+    let pendingSession: { token: string; lastSequence: number } | null = null;
 
     ws.onopen = () => {
       console.log('WebSocket connected');
@@ -32,23 +55,100 @@ export default function Home() {
       const message = JSON.parse(event.data);
       console.log('Received:', message);
 
-      switch (message.type) {
-        case 'connected':
+      if (message.type === 'connected') {
+        const session = {
+          token: message.sessionToken,
+          lastSequence: message.seq,
+        };
+
+        if (resume && sessionRef.current) {
+          pendingSession = session;
+          ws.send(
+            JSON.stringify({
+              type: 'resume_session',
+              sessionToken: sessionRef.current.token,
+              lastSequence: sessionRef.current.lastSequence,
+            })
+          );
+          setStatus('セッションを再開しています...');
+        } else {
+          sessionRef.current = session;
           setStatus('サーバーに接続しました');
+        }
+        return;
+      }
+
+      if (message.code === 'SESSION_NOT_FOUND' && pendingSession) {
+        sessionRef.current = pendingSession;
+        pendingSession = null;
+        setIsMeetingActive(false);
+        setStatus('セッションの有効期限が切れました');
+        return;
+      }
+
+      // 再送された受信済みのメッセージは無視
+      if (sessionRef.current && typeof message.seq === 'number') {
+        if (message.seq <= sessionRef.current.lastSequence) return;
+        sessionRef.current.lastSequence = message.seq;
+      }
+
+      switch (message.type) {
+        case 'session_resumed':
+          pendingSession = null;
+          setIsMeetingActive(message.meetingActive);
+          setRole(message.role ?? null);
+          setStatus('セッションを再開しました');
+          break;
+
+        case 'session_joined':
+          setIsMeetingActive(true);
+          setMeetingId(message.meetingId);
+          setRole(message.role);
+          setStatus(`視聴中 (${message.languages.join(', ')})`);
+          break;
+
+        case 'session_left':
+          setIsMeetingActive(false);
+          setRole(null);
+          setStatus('視聴を終了しました');
           break;
 
         case 'meeting_started':
           setIsMeetingActive(true);
+          setMeetingId(message.meetingId);
+          setRole('host');
           setStatus('会議に参加しました');
           break;
 
         case 'meeting_stopped':
           setIsMeetingActive(false);
+          setRole(null);
           setStatus('会議から退出しました');
           break;
 
+        case 'bot_status':
+          console.log('Bot status:', message.data);
+          break;
+
+        case 'bot_ready':
+          setStatus('ボットが会議に参加しました');
+          break;
+
+        case 'bot_ended':
+          setIsMeetingActive(false);
+          setStatus('会議が終了しました');
+          break;
+
+        case 'bot_error':
+          setStatus(`ボットエラー: ${message.error}`);
+          break;
+
         case 'translations':
-          setTranslations((prev) => [...prev, ...message.data]);
+          // 逐次翻訳は次の逐次翻訳または確定した翻訳で置き換える
+          setTranslations((prev) => [
+            ...prev.filter((t) => !t.isInterim),
+            ...message.data,
+          ]);
           break;
 
         case 'subtitles':
@@ -73,6 +173,13 @@ export default function Home() {
     ws.onclose = () => {
       console.log('WebSocket disconnected');
       setIsConnected(false);
+
+      // 会議中に切断された場合は再接続してセッションを再開
+      if (meetingActiveRef.current) {
+        setStatus('再接続しています...');
+        setTimeout(() => connectWebSocket(true), 1000);
+        return;
+      }
       setStatus('切断されました');
     };
 
@@ -100,21 +207,36 @@ export default function Home() {
     setTranslations([]);
   };
 
-  // 会議停止
+  // 会議停止 (視聴者の場合は視聴のみ終了)
   const stopMeeting = () => {
     if (!wsRef.current) return;
 
     wsRef.current.send(
       JSON.stringify({
-        type: 'stop_meeting',
+        type: role === 'viewer' ? 'leave_session' : 'stop_meeting',
       })
     );
   };
 
+  // 他のクライアントが開始した会議に視聴者として参加
+  const joinSession = () => {
+    if (!wsRef.current || !joinMeetingId) return;
+
+    wsRef.current.send(
+      JSON.stringify({
+        type: 'join_session',
+        meetingId: joinMeetingId.trim(),
+      })
+    );
+
+    setTranslations([]);
+  };
+
   // クリーンアップ
   useEffect(() => {
     return () => {
       if (wsRef.current) {
+        wsRef.current.onclose = null;
         wsRef.current.close();
       }
     };
@@ -142,7 +264,7 @@ export default function Home() {
             <div>
               {!isConnected ? (
                 <button
-                  onClick={connectWebSocket}
+                  onClick={() => connectWebSocket()}
                   className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-6 rounded-lg transition"
                 >
                   サーバーに接続
@@ -182,10 +304,34 @@ export default function Home() {
                 onClick={stopMeeting}
                 className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg transition"
               >
-                会議から退出
+                {role === 'viewer' ? '視聴をやめる' : '会議から退出'}
               </button>
             )}
           </div>
+          {isMeetingActive && role === 'host' && (
+            <p className="text-sm text-gray-600 mt-4">
+              会議ID (視聴者に共有): <code>{meetingId}</code>
+            </p>
+          )}
+          {!isMeetingActive && (
+            <div className="flex gap-4 mt-4">
+              <input
+                type="text"
+                value={joinMeetingId}
+                onChange={(e) => setJoinMeetingId(e.target.value)}
+                placeholder="会議ID を入力して視聴"
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={!isConnected}
+              />
+              <button
+                onClick={joinSession}
+                disabled={!isConnected || !joinMeetingId}
+                className="bg-indigo-500 hover:bg-indigo-600 disabled:bg-gray-300 text-white font-bold py-2 px-6 rounded-lg transition"
+              >
+                視聴者として参加
+              </button>
+            </div>
+          )}
         </div>
 
         {/* 翻訳結果 */}
@@ -204,6 +350,8 @@ export default function Home() {
                 >
                   <div className="flex justify-between items-start mb-2">
                     <span className="text-sm font-semibold text-gray-600">
+                      {translation.speakerLabel &&
+                        `${translation.speakerLabel} · `}
                       {translation.sourceLang} → {translation.targetLang}
                     </span>
                     <span className="text-xs text-gray-400">